@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { deleteAlias } from '@/lib/aliasStore';
+
+type AliasContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function DELETE(_request: Request, context: AliasContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    console.info('[api/aliases/:id] request', {
+      requestId,
+      method: 'DELETE',
+      aliasId: id,
+    });
+
+    const deleted = await deleteAlias(id);
+    if (!deleted) {
+      console.warn('[api/aliases/:id] response', {
+        requestId,
+        status: 404,
+        error: 'Alias not found.',
+      });
+      return NextResponse.json({ error: 'Alias not found.' }, { status: 404 });
+    }
+
+    console.info('[api/aliases/:id] response', {
+      requestId,
+      status: 200,
+      aliasId: id,
+    });
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('[api/aliases/:id] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not delete alias.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not delete alias.' },
+      { status: 500 },
+    );
+  }
+}
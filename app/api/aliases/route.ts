@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import type { AliasCorrection } from '@/lib/aliases';
+import { listAliases, saveAliases } from '@/lib/aliasStore';
+
+type SaveAliasesRequest = {
+  aliases?: unknown;
+};
+
+function isAliasCorrection(value: unknown): value is AliasCorrection {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.rawName === 'string' &&
+    candidate.rawName.trim().length > 0 &&
+    typeof candidate.canonicalName === 'string' &&
+    candidate.canonicalName.trim().length > 0 &&
+    typeof candidate.displayName === 'string'
+  );
+}
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const aliases = await listAliases();
+    console.info('[api/aliases] response', {
+      requestId,
+      status: 200,
+      aliases: aliases.length,
+    });
+    return NextResponse.json({ aliases });
+  } catch (error) {
+    console.error('[api/aliases] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load aliases.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load aliases.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as SaveAliasesRequest;
+    const corrections = Array.isArray(body.aliases) ? body.aliases : [];
+    console.info('[api/aliases] request', {
+      requestId,
+      method: 'POST',
+      aliases: corrections.length,
+    });
+
+    if (corrections.length === 0 || !corrections.every(isAliasCorrection)) {
+      console.warn('[api/aliases] response', {
+        requestId,
+        status: 400,
+        error: 'aliases must list rawName, canonicalName and displayName.',
+      });
+      return NextResponse.json(
+        { error: 'aliases must list rawName, canonicalName and displayName.' },
+        { status: 400 },
+      );
+    }
+
+    const aliases = await saveAliases(
+      corrections.map((correction) => ({
+        rawName: correction.rawName.trim(),
+        canonicalName: correction.canonicalName.trim().toLowerCase(),
+        displayName: correction.displayName.trim() || correction.canonicalName.trim(),
+      })),
+    );
+    console.info('[api/aliases] response', {
+      requestId,
+      status: 201,
+      saved: aliases.length,
+    });
+    return NextResponse.json({ aliases }, { status: 201 });
+  } catch (error) {
+    console.error('[api/aliases] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not save aliases.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not save aliases.' },
+      { status: 500 },
+    );
+  }
+}
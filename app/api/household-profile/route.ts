@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { isHouseholdProfile } from '@/lib/householdProfile';
+import { getHouseholdProfile, saveHouseholdProfile } from '@/lib/householdProfileStore';
+
+type SaveProfileRequest = {
+  profile?: unknown;
+};
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const profile = await getHouseholdProfile();
+    console.info('[api/household-profile] response', {
+      requestId,
+      status: 200,
+      diets: profile.diets.length,
+      allergens: profile.allergens.length,
+      dislikes: profile.dislikes.length,
+    });
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('[api/household-profile] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load household profile.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load household profile.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as SaveProfileRequest;
+    console.info('[api/household-profile] request', {
+      requestId,
+      method: 'PUT',
+    });
+
+    if (!isHouseholdProfile(body.profile)) {
+      console.warn('[api/household-profile] response', {
+        requestId,
+        status: 400,
+        error: 'profile needs diets, allergens and dislikes lists.',
+      });
+      return NextResponse.json(
+        { error: 'profile needs diets, allergens and dislikes lists.' },
+        { status: 400 },
+      );
+    }
+
+    const profile = await saveHouseholdProfile(body.profile);
+    console.info('[api/household-profile] response', {
+      requestId,
+      status: 200,
+      diets: profile.diets,
+      allergens: profile.allergens,
+      dislikes: profile.dislikes.length,
+    });
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('[api/household-profile] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not save household profile.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not save household profile.' },
+      { status: 500 },
+    );
+  }
+}
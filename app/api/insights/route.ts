@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { computeWasteInsights } from '@/lib/insights';
+import { listLedgerEntries } from '@/lib/ledgerStore';
+
+export async function GET(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const monthsParam = Number(new URL(request.url).searchParams.get('months'));
+    const months = Number.isInteger(monthsParam) && monthsParam > 0 ? Math.min(monthsParam, 60) : 12;
+    console.info('[api/insights] request', {
+      requestId,
+      months,
+    });
+
+    const entries = await listLedgerEntries();
+    const insights = computeWasteInsights(entries, { months });
+    console.info('[api/insights] response', {
+      requestId,
+      status: 200,
+      entries: insights.entryCount,
+      wasteRate: insights.wasteRate,
+      trend: insights.trend.direction,
+    });
+    return NextResponse.json(insights);
+  } catch (error) {
+    console.error('[api/insights] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not compute insights.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not compute insights.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listLedgerEntries } from '@/lib/ledgerStore';
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const entries = await listLedgerEntries();
+    console.info('[api/ledger] response', {
+      requestId,
+      status: 200,
+      entries: entries.length,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('[api/ledger] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load ledger.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load ledger.' },
+      { status: 500 },
+    );
+  }
+}
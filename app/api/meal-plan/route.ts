@@ -0,0 +1,226 @@
+import { NextResponse } from 'next/server';
+import { getHouseholdProfile } from '@/lib/householdProfileStore';
+import { describeMissingProvider, getLlmProvider } from '@/lib/llm';
+import { buildMealPlanDays, isMealPlanDay, MEAL_PLAN_DAYS, todayDate } from '@/lib/mealPlanner';
+import { getMealPlan, saveMealPlan, setLockedDays } from '@/lib/mealPlanStore';
+import { normalizeRecipeConstraints } from '@/lib/recipeConstraints';
+import { fallbackRecipes, rankExpiringIngredients } from '@/lib/recipeFallback';
+import { generateModelRecipes, validateRecipes } from '@/lib/recipeGeneration';
+import type { InventoryItem, MealPlanDay, RecipeSuggestion } from '@/lib/types';
+
+type BuildMealPlanRequest = {
+  pantry?: InventoryItem[];
+  constraints?: unknown;
+  // Days to carry over unchanged: locked days, or every day but the one being swapped.
+  keep?: unknown[];
+  // Recipes the rebuilt days must not use.
+  avoidTitles?: unknown[];
+};
+
+type LockMealPlanRequest = {
+  lockedDates?: unknown;
+};
+
+// The model is asked for more dinners than days so the planner has room to choose.
+const MIN_MODEL_RECIPES = MEAL_PLAN_DAYS;
+const MAX_MODEL_RECIPES = 10;
+const LIBRARY_CANDIDATES = 20;
+
+// Kept recipes come back from the browser, so they are checked like model output.
+function sanitizeKeptDays(raw: unknown[] | undefined): MealPlanDay[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isMealPlanDay).map((day) => ({
+    date: day.date,
+    recipe: day.recipe ? (validateRecipes([day.recipe], {}).recipes[0] ?? null) : null,
+    uses: [],
+    locked: day.locked,
+  }));
+}
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const plan = await getMealPlan();
+    console.info('[api/meal-plan] response', {
+      requestId,
+      status: 200,
+      startDate: plan?.startDate ?? null,
+    });
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error('[api/meal-plan] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load the meal plan.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load the meal plan.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as BuildMealPlanRequest;
+    const pantry = body.pantry ?? [];
+    const keep = sanitizeKeptDays(body.keep);
+    const avoidTitles = Array.isArray(body.avoidTitles)
+      ? body.avoidTitles.filter((title): title is string => typeof title === 'string')
+      : [];
+    console.info('[api/meal-plan] request', {
+      requestId,
+      method: 'POST',
+      pantryCount: Array.isArray(pantry) ? pantry.length : 0,
+      kept: keep.length,
+      avoided: avoidTitles.length,
+    });
+
+    if (!Array.isArray(pantry) || pantry.length === 0) {
+      console.warn('[api/meal-plan] response', {
+        requestId,
+        status: 400,
+        error: 'Pantry inventory is required.',
+      });
+      return NextResponse.json({ error: 'Pantry inventory is required.' }, { status: 400 });
+    }
+
+    const profile = await getHouseholdProfile();
+    const constraints = normalizeRecipeConstraints(body.constraints);
+    const library = fallbackRecipes(pantry, { profile, constraints, limit: LIBRARY_CANDIDATES });
+    const startDate = todayDate();
+    const provider = getLlmProvider();
+
+    let modelRecipes: RecipeSuggestion[] = [];
+    let warning: string | undefined;
+    if (!provider) {
+      console.info('[api/meal-plan] candidates', {
+        requestId,
+        source: 'fallback',
+        reason: describeMissingProvider(),
+      });
+    } else {
+      const result = await generateModelRecipes(
+        provider,
+        {
+          pantry,
+          ranked: rankExpiringIngredients(pantry).slice(0, 10),
+          profile,
+          constraints,
+          minRecipes: MIN_MODEL_RECIPES,
+          maxRecipes: MAX_MODEL_RECIPES,
+          instructions: [
+            `These are dinner candidates for a ${MEAL_PLAN_DAYS}-day meal plan starting ${startDate}.`,
+            'Between them, use every pantry ingredient before its expiration date, and keep the dinners varied.',
+          ],
+        },
+        { requestId, prefix: '[api/meal-plan]' },
+      );
+      modelRecipes = result.recipes;
+      if (result.failedStatus !== undefined) {
+        warning = `Recipe model request failed with status ${result.failedStatus}; planned from the recipe library.`;
+      } else if (modelRecipes.length === 0) {
+        warning = 'Model recipes were unusable; planned from the recipe library.';
+      }
+    }
+
+    // Library recipes fill the days the model's dinners do not cover well.
+    const candidates = [
+      ...modelRecipes,
+      ...library.filter((recipe) => !modelRecipes.some((kept) => kept.title === recipe.title)),
+    ];
+    const { days, projectedWaste, dropped } = buildMealPlanDays({
+      pantry,
+      candidates,
+      startDate,
+      keep,
+      profile,
+      avoidTitles,
+    });
+    if (dropped.length > 0) {
+      const replaced = `${dropped.join(', ')} no longer fit the household profile and were replaced.`;
+      warning = warning ? `${warning} ${replaced}` : replaced;
+    }
+    const now = new Date().toISOString();
+    const plan = await saveMealPlan({
+      startDate,
+      days,
+      projectedWaste,
+      source: provider && modelRecipes.length > 0 ? provider.name : 'fallback',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    console.info('[api/meal-plan] response', {
+      requestId,
+      status: 200,
+      source: plan.source,
+      candidates: candidates.length,
+      plannedDays: plan.days.filter((day) => day.recipe).length,
+      droppedKeptDays: dropped.length,
+      projectedWaste: plan.projectedWaste.length,
+    });
+    return NextResponse.json({ plan, warning });
+  } catch (error) {
+    console.error('[api/meal-plan] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not build the meal plan.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not build the meal plan.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as LockMealPlanRequest;
+    console.info('[api/meal-plan] request', {
+      requestId,
+      method: 'PUT',
+    });
+
+    if (
+      !Array.isArray(body.lockedDates) ||
+      !body.lockedDates.every((date) => typeof date === 'string')
+    ) {
+      console.warn('[api/meal-plan] response', {
+        requestId,
+        status: 400,
+        error: 'lockedDates must be a list of dates.',
+      });
+      return NextResponse.json({ error: 'lockedDates must be a list of dates.' }, { status: 400 });
+    }
+
+    const plan = await setLockedDays(body.lockedDates);
+    if (!plan) {
+      console.warn('[api/meal-plan] response', {
+        requestId,
+        status: 404,
+        error: 'There is no meal plan yet.',
+      });
+      return NextResponse.json({ error: 'There is no meal plan yet.' }, { status: 404 });
+    }
+
+    console.info('[api/meal-plan] response', {
+      requestId,
+      status: 200,
+      locked: plan.days.filter((day) => day.locked).length,
+    });
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error('[api/meal-plan] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not save the meal plan.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not save the meal plan.' },
+      { status: 500 },
+    );
+  }
+}
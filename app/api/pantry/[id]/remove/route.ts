@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { isRemovalOutcome } from '@/lib/ledger';
+import { removePantryQuantity } from '@/lib/pantryStore';
+import type { RemovalOutcome } from '@/lib/types';
+
+type PantryItemContext = {
+  params: Promise<{ id: string }>;
+};
+
+type RemovePantryItemRequest = {
+  outcome?: RemovalOutcome;
+  quantity?: number;
+};
+
+export async function POST(request: Request, context: PantryItemContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    const body = (await request.json()) as RemovePantryItemRequest;
+    console.info('[api/pantry/:id/remove] request', {
+      requestId,
+      itemId: id,
+      outcome: body.outcome,
+      quantity: body.quantity ?? 'all',
+    });
+
+    if (!isRemovalOutcome(body.outcome)) {
+      console.warn('[api/pantry/:id/remove] response', {
+        requestId,
+        status: 400,
+        error: 'outcome must be one of consumed, wasted, donated, frozen.',
+      });
+      return NextResponse.json(
+        { error: 'outcome must be one of consumed, wasted, donated, frozen.' },
+        { status: 400 },
+      );
+    }
+
+    const requestedQuantity = body.quantity ?? Number.POSITIVE_INFINITY;
+    if (typeof requestedQuantity !== 'number' || Number.isNaN(requestedQuantity) || requestedQuantity <= 0) {
+      console.warn('[api/pantry/:id/remove] response', {
+        requestId,
+        status: 400,
+        error: 'quantity must be a positive number.',
+      });
+      return NextResponse.json({ error: 'quantity must be a positive number.' }, { status: 400 });
+    }
+
+    const outcome = body.outcome;
+    const removal = await removePantryQuantity(id, requestedQuantity, outcome);
+    if (!removal) {
+      console.warn('[api/pantry/:id/remove] response', {
+        requestId,
+        status: 404,
+        error: 'Pantry item not found.',
+      });
+      return NextResponse.json({ error: 'Pantry item not found.' }, { status: 404 });
+    }
+
+    const { entries } = removal;
+    console.info('[api/pantry/:id/remove] response', {
+      requestId,
+      status: 200,
+      outcome,
+      lots: entries.length,
+      quantity: entries.reduce((sum, entry) => sum + entry.quantity, 0),
+      remainingQuantity: removal.remaining?.quantity ?? 0,
+    });
+    return NextResponse.json({ item: removal.remaining, entries });
+  } catch (error) {
+    console.error('[api/pantry/:id/remove] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not remove pantry item.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not remove pantry item.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { deletePantryItem, updatePantryItem } from '@/lib/pantryStore';
+import { isUnit, UNITS } from '@/lib/units';
+import type { InventoryItemPatch } from '@/lib/types';
+
+type PantryItemContext = {
+  params: Promise<{ id: string }>;
+};
+
+type UpdatePantryItemRequest = {
+  patch?: InventoryItemPatch;
+};
+
+export async function PATCH(request: Request, context: PantryItemContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    const body = (await request.json()) as UpdatePantryItemRequest;
+    console.info('[api/pantry/:id] request', {
+      requestId,
+      method: 'PATCH',
+      itemId: id,
+      fields: body.patch ? Object.keys(body.patch) : [],
+    });
+
+    if (!body.patch || typeof body.patch !== 'object') {
+      console.warn('[api/pantry/:id] response', {
+        requestId,
+        status: 400,
+        error: 'patch is required.',
+      });
+      return NextResponse.json({ error: 'patch is required.' }, { status: 400 });
+    }
+
+    if (body.patch.unit !== undefined && !isUnit(body.patch.unit)) {
+      const error = `unit must be one of: ${UNITS.join(', ')}.`;
+      console.warn('[api/pantry/:id] response', { requestId, status: 400, error });
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const item = await updatePantryItem(id, body.patch);
+    if (!item) {
+      console.warn('[api/pantry/:id] response', {
+        requestId,
+        status: 404,
+        error: 'Pantry item not found or patch is invalid.',
+      });
+      return NextResponse.json(
+        { error: 'Pantry item not found or patch is invalid.' },
+        { status: 404 },
+      );
+    }
+
+    console.info('[api/pantry/:id] response', {
+      requestId,
+      status: 200,
+      itemId: item.id,
+    });
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error('[api/pantry/:id] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not update pantry item.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not update pantry item.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: PantryItemContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    console.info('[api/pantry/:id] request', {
+      requestId,
+      method: 'DELETE',
+      itemId: id,
+    });
+
+    const deleted = await deletePantryItem(id);
+    if (!deleted) {
+      console.warn('[api/pantry/:id] response', {
+        requestId,
+        status: 404,
+        error: 'Pantry item not found.',
+      });
+      return NextResponse.json({ error: 'Pantry item not found.' }, { status: 404 });
+    }
+
+    console.info('[api/pantry/:id] response', {
+      requestId,
+      status: 200,
+      itemId: id,
+    });
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('[api/pantry/:id] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not delete pantry item.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not delete pantry item.' },
+      { status: 500 },
+    );
+  }
+}
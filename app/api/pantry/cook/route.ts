@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { removePantryQuantities } from '@/lib/pantryStore';
+import type { CookedIngredient } from '@/lib/types';
+
+type CookRecipeRequest = {
+  recipeTitle?: unknown;
+  ingredients?: unknown;
+};
+
+function isCookedIngredient(value: unknown): value is CookedIngredient {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.itemId === 'string' &&
+    typeof candidate.quantity === 'number' &&
+    Number.isFinite(candidate.quantity) &&
+    candidate.quantity > 0
+  );
+}
+
+// Deducts everything a cooked recipe used in one write and records it as consumed.
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as CookRecipeRequest;
+    const recipeTitle = typeof body.recipeTitle === 'string' ? body.recipeTitle.trim() : '';
+    const ingredients = Array.isArray(body.ingredients) ? body.ingredients : [];
+    console.info('[api/pantry/cook] request', {
+      requestId,
+      recipeTitle,
+      ingredients: ingredients.length,
+    });
+
+    if (!recipeTitle || ingredients.length === 0 || !ingredients.every(isCookedIngredient)) {
+      console.warn('[api/pantry/cook] response', {
+        requestId,
+        status: 400,
+        error: 'recipeTitle and ingredients with an itemId and positive quantity are required.',
+      });
+      return NextResponse.json(
+        { error: 'recipeTitle and ingredients with an itemId and positive quantity are required.' },
+        { status: 400 },
+      );
+    }
+
+    const result = await removePantryQuantities(ingredients, recipeTitle);
+    if (!result) {
+      console.warn('[api/pantry/cook] response', {
+        requestId,
+        status: 409,
+        error: 'Some ingredients are no longer in the pantry in that amount. Refresh and try again.',
+      });
+      return NextResponse.json(
+        { error: 'Some ingredients are no longer in the pantry in that amount. Refresh and try again.' },
+        { status: 409 },
+      );
+    }
+
+    const entries = result.removals.flatMap((removal) => removal.entries);
+    console.info('[api/pantry/cook] response', {
+      requestId,
+      status: 200,
+      recipeTitle,
+      items: result.removals.length,
+      lots: entries.length,
+      emptied: result.removals.filter((removal) => !removal.remaining).length,
+    });
+    return NextResponse.json({ items: result.items, entries });
+  } catch (error) {
+    console.error('[api/pantry/cook] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not record cooked recipe.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not record cooked recipe.' },
+      { status: 500 },
+    );
+  }
+}
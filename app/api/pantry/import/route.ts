@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { isInventoryItem } from '@/lib/pantry';
+import { importPantryItems } from '@/lib/pantryStore';
+import { checkOffPurchasedItems } from '@/lib/shoppingListStore';
+
+type ImportPantryRequest = {
+  items?: unknown[];
+};
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as ImportPantryRequest;
+    const rawItems = Array.isArray(body.items) ? body.items : [];
+    const validItems = rawItems.filter(isInventoryItem);
+    console.info('[api/pantry/import] request', {
+      requestId,
+      rawItems: rawItems.length,
+      validItems: validItems.length,
+    });
+
+    if (validItems.length === 0) {
+      console.warn('[api/pantry/import] response', {
+        requestId,
+        status: 400,
+        error: 'items must contain at least one valid inventory item.',
+      });
+      return NextResponse.json(
+        { error: 'items must contain at least one valid inventory item.' },
+        { status: 400 },
+      );
+    }
+
+    const { items, imported } = await importPantryItems(validItems);
+    // Imported groceries were bought, so they come off the shopping list.
+    const checkedOff = await checkOffPurchasedItems(validItems);
+    console.info('[api/pantry/import] response', {
+      requestId,
+      status: 200,
+      imported,
+      total: items.length,
+      checkedOff,
+    });
+    return NextResponse.json({ items, imported, checkedOff });
+  } catch (error) {
+    console.error('[api/pantry/import] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not import pantry items.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not import pantry items.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { isInventoryItem } from '@/lib/pantry';
+import { createPantryItem, listPantryItems } from '@/lib/pantryStore';
+import { isUnit } from '@/lib/units';
+import type { InventoryItem } from '@/lib/types';
+
+type CreatePantryItemRequest = {
+  item?: InventoryItem;
+};
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const items = await listPantryItems();
+    console.info('[api/pantry] response', {
+      requestId,
+      status: 200,
+      items: items.length,
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('[api/pantry] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load pantry.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load pantry.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as CreatePantryItemRequest;
+    console.info('[api/pantry] request', {
+      requestId,
+      method: 'POST',
+      hasItem: Boolean(body.item),
+    });
+
+    if (!isInventoryItem(body.item) || !isUnit(body.item.unit)) {
+      console.warn('[api/pantry] response', {
+        requestId,
+        status: 400,
+        error: 'A valid inventory item is required.',
+      });
+      return NextResponse.json({ error: 'A valid inventory item is required.' }, { status: 400 });
+    }
+
+    const item = await createPantryItem(body.item);
+    console.info('[api/pantry] response', {
+      requestId,
+      status: 201,
+      itemId: item.id,
+    });
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error('[api/pantry] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not save pantry item.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not save pantry item.' },
+      { status: 500 },
+    );
+  }
+}
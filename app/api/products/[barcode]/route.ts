@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { listAliases } from '@/lib/aliasStore';
+import { findProduct, learnProduct } from '@/lib/productStore';
+import { normalizeBarcode } from '@/lib/products';
+import { canonicalizeIngredient } from '@/lib/shelfLife';
+import { isUnit } from '@/lib/units';
+
+type ProductContext = {
+  params: Promise<{ barcode: string }>;
+};
+
+type LearnProductBody = {
+  product?: {
+    name?: unknown;
+    canonicalName?: unknown;
+    packageQuantity?: unknown;
+    packageUnit?: unknown;
+  };
+};
+
+function invalidBarcode(requestId: string) {
+  console.warn('[api/products/:barcode] response', {
+    requestId,
+    status: 400,
+    error: 'Invalid barcode.',
+  });
+  return NextResponse.json({ error: 'Invalid barcode.' }, { status: 400 });
+}
+
+export async function GET(_request: Request, context: ProductContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { barcode: rawBarcode } = await context.params;
+    console.info('[api/products/:barcode] request', {
+      requestId,
+      method: 'GET',
+      barcode: rawBarcode,
+    });
+
+    const barcode = normalizeBarcode(rawBarcode);
+    if (!barcode) return invalidBarcode(requestId);
+
+    const product = await findProduct(barcode);
+    if (!product) {
+      console.warn('[api/products/:barcode] response', {
+        requestId,
+        status: 404,
+        error: 'Unknown product.',
+      });
+      return NextResponse.json({ error: 'Unknown product.' }, { status: 404 });
+    }
+
+    console.info('[api/products/:barcode] response', {
+      requestId,
+      status: 200,
+      barcode,
+      learned: product.learned,
+    });
+    return NextResponse.json({ product });
+  } catch (error) {
+    console.error('[api/products/:barcode] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not look up product.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not look up product.' },
+      { status: 500 },
+    );
+  }
+}
+
+// Teaches the app a barcode it did not know, named once by the household.
+export async function PUT(request: Request, context: ProductContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { barcode: rawBarcode } = await context.params;
+    const body = (await request.json()) as LearnProductBody;
+    console.info('[api/products/:barcode] request', {
+      requestId,
+      method: 'PUT',
+      barcode: rawBarcode,
+    });
+
+    const barcode = normalizeBarcode(rawBarcode);
+    if (!barcode) return invalidBarcode(requestId);
+
+    const name = typeof body.product?.name === 'string' ? body.product.name.trim() : '';
+    const canonicalName =
+      typeof body.product?.canonicalName === 'string' && body.product.canonicalName.trim()
+        ? body.product.canonicalName.trim()
+        : canonicalizeIngredient(name, await listAliases()).canonicalName;
+
+    const packageUnit = body.product?.packageUnit ?? 'item';
+    const product = isUnit(packageUnit)
+      ? await learnProduct({
+          barcode,
+          name,
+          canonicalName,
+          packageQuantity: Number(body.product?.packageQuantity ?? 1),
+          packageUnit,
+        })
+      : null;
+    if (!product) {
+      console.warn('[api/products/:barcode] response', {
+        requestId,
+        status: 400,
+        error: 'A product needs a name, a package quantity and a unit.',
+      });
+      return NextResponse.json(
+        { error: 'A product needs a name, a package quantity and a unit.' },
+        { status: 400 },
+      );
+    }
+
+    console.info('[api/products/:barcode] response', {
+      requestId,
+      status: 201,
+      barcode,
+      canonicalName: product.canonicalName,
+    });
+    return NextResponse.json({ product }, { status: 201 });
+  } catch (error) {
+    console.error('[api/products/:barcode] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not save product.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not save product.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { deleteReceiptDictionary } from '@/lib/receiptDictionaryStore';
+
+type ReceiptDictionaryContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Only user-added dictionaries can be deleted; the starter set ships with the app.
+export async function DELETE(_request: Request, context: ReceiptDictionaryContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    console.info('[api/receipt-dictionaries/:id] request', {
+      requestId,
+      method: 'DELETE',
+      dictionaryId: id,
+    });
+
+    const deleted = await deleteReceiptDictionary(id);
+    if (!deleted) {
+      console.warn('[api/receipt-dictionaries/:id] response', {
+        requestId,
+        status: 404,
+        error: 'Receipt dictionary not found.',
+      });
+      return NextResponse.json({ error: 'Receipt dictionary not found.' }, { status: 404 });
+    }
+
+    console.info('[api/receipt-dictionaries/:id] response', {
+      requestId,
+      status: 200,
+      dictionaryId: id,
+    });
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('[api/receipt-dictionaries/:id] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not delete receipt dictionary.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not delete receipt dictionary.' },
+      { status: 500 },
+    );
+  }
+}
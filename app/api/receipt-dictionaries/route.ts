@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import type { ReceiptDictionaryInput } from '@/lib/receiptDictionaries';
+import { listReceiptDictionaries, saveReceiptDictionary } from '@/lib/receiptDictionaryStore';
+
+type SaveDictionaryRequest = {
+  dictionary?: Partial<ReceiptDictionaryInput>;
+};
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const dictionaries = await listReceiptDictionaries();
+    console.info('[api/receipt-dictionaries] response', {
+      requestId,
+      status: 200,
+      dictionaries: dictionaries.length,
+    });
+    return NextResponse.json({ dictionaries });
+  } catch (error) {
+    console.error('[api/receipt-dictionaries] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load receipt dictionaries.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load receipt dictionaries.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as SaveDictionaryRequest;
+    console.info('[api/receipt-dictionaries] request', {
+      requestId,
+      method: 'POST',
+      merchant: body.dictionary?.merchant ?? null,
+    });
+
+    const dictionary = body.dictionary
+      ? await saveReceiptDictionary({
+          merchant: body.dictionary.merchant ?? '',
+          matchers: body.dictionary.matchers ?? [],
+          abbreviations: body.dictionary.abbreviations ?? {},
+        })
+      : null;
+    if (!dictionary) {
+      console.warn('[api/receipt-dictionaries] response', {
+        requestId,
+        status: 400,
+        error: 'A dictionary needs a merchant and at least one header matcher.',
+      });
+      return NextResponse.json(
+        { error: 'A dictionary needs a merchant and at least one header matcher.' },
+        { status: 400 },
+      );
+    }
+
+    console.info('[api/receipt-dictionaries] response', {
+      requestId,
+      status: 201,
+      dictionaryId: dictionary.id,
+      abbreviations: Object.keys(dictionary.abbreviations).length,
+    });
+    return NextResponse.json({ dictionary }, { status: 201 });
+  } catch (error) {
+    console.error('[api/receipt-dictionaries] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not save receipt dictionary.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not save receipt dictionary.' },
+      { status: 500 },
+    );
+  }
+}
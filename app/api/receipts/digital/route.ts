@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { detectDigitalReceiptFormat, extractDigitalReceiptText } from '@/lib/digitalReceipt';
+
+type DigitalReceiptRequest = {
+  fileName?: string;
+  contentType?: string;
+  // Pasted receipt text, HTML or raw email source.
+  text?: string;
+  // An uploaded file read as a data URL.
+  dataUrl?: string;
+};
+
+function decodeDataUrl(dataUrl: string): { contentType: string; content: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;,]*)(;base64)?,([\s\S]*)$/);
+  if (!match) return null;
+  return {
+    contentType: match[1],
+    content: match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3])),
+  };
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as DigitalReceiptRequest;
+    const upload = body.dataUrl ? decodeDataUrl(body.dataUrl) : null;
+    const content = upload?.content ?? (body.text?.trim() ? Buffer.from(body.text, 'utf8') : null);
+    console.info('[api/receipts/digital] request', {
+      requestId,
+      fileName: body.fileName ?? null,
+      contentType: body.contentType ?? upload?.contentType ?? null,
+      bytes: content?.length ?? 0,
+    });
+
+    if (!content) {
+      console.warn('[api/receipts/digital] response', {
+        requestId,
+        status: 400,
+        error: 'A receipt file or pasted text is required.',
+      });
+      return NextResponse.json(
+        { error: 'A receipt file or pasted text is required.' },
+        { status: 400 },
+      );
+    }
+
+    const format = detectDigitalReceiptFormat({
+      fileName: body.fileName,
+      contentType: body.contentType || upload?.contentType,
+      content,
+    });
+    const rawText = extractDigitalReceiptText(format, content);
+
+    if (!rawText) {
+      const error =
+        format === 'pdf'
+          ? 'No text found in this PDF. It may be a scanned image; use the photo scan instead.'
+          : 'No receipt text found in this file.';
+      console.warn('[api/receipts/digital] response', { requestId, status: 422, format, error });
+      return NextResponse.json({ error }, { status: 422 });
+    }
+
+    console.info('[api/receipts/digital] response', {
+      requestId,
+      status: 200,
+      format,
+      lines: rawText.split('\n').length,
+    });
+    return NextResponse.json({ format, rawText });
+  } catch (error) {
+    console.error('[api/receipts/digital] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not read digital receipt.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not read digital receipt.' },
+      { status: 500 },
+    );
+  }
+}
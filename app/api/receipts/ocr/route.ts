@@ -1,9 +1,100 @@
 import { NextResponse } from 'next/server';
+import { findAlias } from '@/lib/aliases';
+import { listAliases } from '@/lib/aliasStore';
+import { describeMissingProvider, getLlmProvider, parseJsonObject } from '@/lib/llm';
+import type { LlmJsonSchema } from '@/lib/llm';
+import { derivePriceFields, normalizeCurrency, toPrice, toUnitPrice } from '@/lib/pricing';
+import {
+  detectReceiptDictionary,
+  expandAbbreviations,
+  findReceiptDictionary,
+} from '@/lib/receiptDictionaries';
+import { listReceiptDictionaries } from '@/lib/receiptDictionaryStore';
+import { reconcileReceipt } from '@/lib/receiptParser';
 import { canonicalizeIngredient } from '@/lib/shelfLife';
-import type { ParsedReceiptItem } from '@/lib/types';
+import { parseUnit, UNITS } from '@/lib/units';
+import type { ParsedReceipt, ParsedReceiptItem } from '@/lib/types';
 
 type OcrRequest = {
   imageDataUrl?: string;
+  dictionaryId?: string;
+};
+
+const RECEIPT_JSON_SCHEMA: LlmJsonSchema = {
+  name: 'receipt_grocery_items',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      merchant: { type: ['string', 'null'] },
+      purchaseDate: { type: ['string', 'null'] },
+      subtotal: { type: ['number', 'null'] },
+      tax: { type: ['number', 'null'] },
+      total: { type: ['number', 'null'] },
+      currency: { type: ['string', 'null'] },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string' },
+            quantity: { type: 'number' },
+            unit: { type: 'string', enum: UNITS },
+            unitPrice: { type: ['number', 'null'] },
+            lineTotal: { type: ['number', 'null'] },
+            rawLine: { type: 'string' },
+          },
+          required: ['name', 'quantity', 'unit', 'unitPrice', 'lineTotal', 'rawLine'],
+        },
+      },
+    },
+    required: ['merchant', 'purchaseDate', 'subtotal', 'tax', 'total', 'currency', 'items'],
+  },
+};
+
+// Offline stand-in for the model: the same small receipt regardless of the uploaded image.
+const FIXTURE_RECEIPT = {
+  merchant: 'FIXTURE MARKET',
+  purchaseDate: '2024-03-02',
+  subtotal: 11.46,
+  tax: 0,
+  total: 11.46,
+  currency: 'USD',
+  items: [
+    {
+      name: 'Milk',
+      quantity: 1,
+      unit: 'gal',
+      unitPrice: 3.49,
+      lineTotal: 3.49,
+      rawLine: 'WHL MILK GAL 3.49',
+    },
+    {
+      name: 'Spinach',
+      quantity: 1,
+      unit: 'item',
+      unitPrice: 2.99,
+      lineTotal: 2.99,
+      rawLine: 'SPINACH 2.99',
+    },
+    {
+      name: 'Eggs',
+      quantity: 12,
+      unit: 'item',
+      unitPrice: null,
+      lineTotal: 2.99,
+      rawLine: 'EGGS DZ 2.99',
+    },
+    {
+      name: 'Chicken breast',
+      quantity: 1,
+      unit: 'lb',
+      unitPrice: 1.99,
+      lineTotal: 1.99,
+      rawLine: 'CHKN BRST 1.99',
+    },
+  ],
 };
 
 function normalizePurchaseDate(value: unknown): string | undefined {
@@ -19,24 +110,21 @@ function normalizePurchaseDate(value: unknown): string | undefined {
 export async function POST(request: Request) {
   const requestId = crypto.randomUUID().slice(0, 8);
   try {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      console.error('[api/receipts/ocr] response', {
-        requestId,
-        status: 500,
-        error: 'Missing OPENAI_API_KEY environment variable.',
-      });
-      return NextResponse.json({ error: 'Missing OPENAI_API_KEY environment variable.' }, { status: 500 });
+    const provider = getLlmProvider();
+    if (!provider) {
+      const error = `Receipt OCR is unavailable: ${describeMissingProvider()}.`;
+      console.error('[api/receipts/ocr] response', { requestId, status: 500, error });
+      return NextResponse.json({ error }, { status: 500 });
     }
 
-    const model = process.env.OPENAI_OCR_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini';
-
     const body = (await request.json()) as OcrRequest;
     const imageDataUrl = body.imageDataUrl?.trim();
+    const dictionaryId = body.dictionaryId?.trim() || undefined;
     console.info('[api/receipts/ocr] request', {
       requestId,
       hasImageDataUrl: Boolean(imageDataUrl),
       imagePrefix: imageDataUrl?.slice(0, 30),
+      dictionaryId: dictionaryId ?? null,
     });
 
     if (!imageDataUrl) {
@@ -59,98 +147,57 @@ export async function POST(request: Request) {
         { status: 400 },
       );
     }
+    const dictionaries = await listReceiptDictionaries();
+    const pickedDictionary = dictionaryId ? findReceiptDictionary(dictionaries, dictionaryId) : null;
+    if (dictionaryId && !pickedDictionary) {
+      console.warn('[api/receipts/ocr] response', {
+        requestId,
+        status: 400,
+        error: 'Unknown receipt dictionary.',
+      });
+      return NextResponse.json({ error: 'Unknown receipt dictionary.' }, { status: 400 });
+    }
+
     console.info('[api/receipts/ocr] outbound', {
       requestId,
-      target: 'openai.chat.completions',
-      model,
+      target: provider.name,
+      model: provider.modelFor('receipt-ocr'),
     });
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: [
-              'You extract only grocery line items from receipt images as structured JSON.',
-              'Return only purchased food/grocery product lines with quantity and unit.',
-              'Extract receipt purchase date as purchaseDate in ISO date format YYYY-MM-DD if visible, otherwise null.',
-              'Exclude store names, addresses, payment info, subtotal, tax, total, loyalty lines, coupons, and non-item metadata.',
-              'Use quantity as a number. If missing, use 1.',
-              "Use unit like 'item', 'lb', 'kg', 'oz', 'l', 'ml', 'pack'. If missing, use 'item'.",
-              'Keep rawLine concise and close to receipt wording.',
-              'Do not add explanations.',
-            ].join(' '),
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'Extract only grocery items. Include name, quantity, unit, and raw line text.',
-              },
-              { type: 'image_url', image_url: { url: imageDataUrl } },
-            ],
-          },
-        ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'receipt_grocery_items',
-            strict: true,
-            schema: {
-              type: 'object',
-              additionalProperties: false,
-              properties: {
-                purchaseDate: { type: ['string', 'null'] },
-                items: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    additionalProperties: false,
-                    properties: {
-                      name: { type: 'string' },
-                      quantity: { type: 'number' },
-                      unit: { type: 'string' },
-                      rawLine: { type: 'string' },
-                    },
-                    required: ['name', 'quantity', 'unit', 'rawLine'],
-                  },
-                },
-              },
-              required: ['purchaseDate', 'items'],
-            },
-          },
-        },
-      }),
+    const result = await provider.complete({
+      task: 'receipt-ocr',
+      system: [
+        'You extract only grocery line items from receipt images as structured JSON.',
+        'Return only purchased food/grocery product lines with quantity and unit.',
+        'Extract receipt purchase date as purchaseDate in ISO date format YYYY-MM-DD if visible, otherwise null.',
+        'Exclude store names, addresses, payment info, subtotal, tax, total, loyalty lines, coupons, and non-item metadata from items.',
+        'Report the store name as merchant and the printed subtotal, tax, and total amounts as plain numbers, each null if not visible.',
+        'Use quantity as a number. If missing, use 1.',
+        `Use unit as one of ${UNITS.map((unit) => `'${unit}'`).join(', ')}, keeping the amount as printed (500 g is quantity 500, unit 'g'). If missing, use 'item'.`,
+        'Use lineTotal for the amount charged for the line and unitPrice for the price of one unit, as plain numbers without currency symbols. Use null when not printed.',
+        "Use currency as the ISO 4217 code for the receipt, such as 'USD' or 'EUR', or null if unclear.",
+        'Keep rawLine concise and close to receipt wording.',
+        'Do not add explanations.',
+      ].join(' '),
+      prompt: 'Extract only grocery items. Include name, quantity, unit, prices, and raw line text.',
+      imageDataUrl,
+      jsonSchema: RECEIPT_JSON_SCHEMA,
+      fixture: () => FIXTURE_RECEIPT,
     });
     console.info('[api/receipts/ocr] inbound', {
       requestId,
-      source: 'openai.chat.completions',
-      status: response.status,
-      ok: response.ok,
+      source: provider.name,
+      status: result.ok ? 200 : result.status,
+      ok: result.ok,
     });
 
-    if (!response.ok) {
-      const detail = await response.text();
-      console.error('[api/receipts/ocr] response', {
-        requestId,
-        status: 502,
-        error: `OpenAI OCR failed: ${detail}`,
-      });
-      return NextResponse.json({ error: `OpenAI OCR failed: ${detail}` }, { status: 502 });
+    if (!result.ok) {
+      const error = `Receipt OCR failed: ${result.detail}`;
+      console.error('[api/receipts/ocr] response', { requestId, status: 502, error });
+      return NextResponse.json({ error }, { status: 502 });
     }
 
-    const payload = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-
-    const content = payload.choices?.[0]?.message?.content;
+    const content = result.text;
     if (!content) {
       console.error('[api/receipts/ocr] response', {
         requestId,
@@ -160,36 +207,50 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'No OCR text returned from model.' }, { status: 502 });
     }
 
-    let parsed: { purchaseDate?: unknown; items?: unknown } | null = null;
-    try {
-      parsed = JSON.parse(content) as { purchaseDate?: unknown; items?: unknown };
-    } catch {
-      parsed = null;
-    }
+    const parsed = parseJsonObject(content);
 
     const purchaseDate = normalizePurchaseDate(parsed?.purchaseDate);
+    const currency = normalizeCurrency(parsed?.currency);
     const rawItems = Array.isArray(parsed?.items) ? parsed.items : [];
+    const aliases = await listAliases();
+    const merchant = typeof parsed?.merchant === 'string' ? parsed.merchant.trim() || undefined : undefined;
+    const dictionary =
+      pickedDictionary ?? detectReceiptDictionary(dictionaries, merchant ? [merchant] : []);
     const items: ParsedReceiptItem[] = rawItems
-      .map((entry) => {
+      .map((entry): ParsedReceiptItem | null => {
         if (!entry || typeof entry !== 'object') return null;
         const candidate = entry as Record<string, unknown>;
         const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
         const quantityRaw = candidate.quantity;
         const quantity = typeof quantityRaw === 'number' ? quantityRaw : Number(quantityRaw);
-        const unit = typeof candidate.unit === 'string' ? candidate.unit.trim() : '';
+        const unit = typeof candidate.unit === 'string' ? parseUnit(candidate.unit) : null;
         const rawLine = typeof candidate.rawLine === 'string' ? candidate.rawLine.trim() : name;
+        const prices = derivePriceFields(quantity, {
+          unitPrice: toUnitPrice(candidate.unitPrice),
+          lineTotal: toPrice(candidate.lineTotal),
+        });
 
         if (!name || !Number.isFinite(quantity) || quantity <= 0) return null;
-        const { canonicalName, confidence } = canonicalizeIngredient(name);
+        const alias = findAlias(aliases, name);
+        const { canonicalName, confidence, candidates } = canonicalizeIngredient(
+          alias ? name : expandAbbreviations(name, dictionary),
+          aliases,
+        );
 
         return {
           rawLine: rawLine || name,
+          rawName: name,
           canonicalName,
-          displayName: name,
+          displayName: alias?.displayName ?? name,
           quantity,
-          unit: unit || 'item',
+          unit: unit ?? 'item',
           confidence,
+          ...(candidates.length > 1 ? { candidates } : {}),
           ...(purchaseDate ? { purchaseDate } : {}),
+          ...prices,
+          ...(currency && (prices.unitPrice !== undefined || prices.lineTotal !== undefined)
+            ? { currency }
+            : {}),
         } satisfies ParsedReceiptItem;
       })
       .filter((value): value is ParsedReceiptItem => value !== null);
@@ -205,19 +266,39 @@ export async function POST(request: Request) {
         { status: 502 },
       );
     }
+    const totals = {
+      subtotal: toPrice(parsed?.subtotal),
+      tax: toPrice(parsed?.tax),
+      total: toPrice(parsed?.total),
+    };
+    const receipt: ParsedReceipt = {
+      merchant,
+      purchaseDate,
+      ...totals,
+      currency,
+      ...(dictionary ? { dictionaryId: dictionary.id } : {}),
+      items,
+      reconciliation: reconcileReceipt(items, totals),
+    };
     console.info('[api/receipts/ocr] response', {
       requestId,
       status: 200,
+      merchant: merchant ?? null,
+      dictionaryId: dictionary?.id ?? null,
       purchaseDate: purchaseDate ?? null,
+      currency: currency ?? null,
       itemCount: items.length,
+      reconciliation: receipt.reconciliation.status,
     });
 
     return NextResponse.json({
       purchaseDate,
+      currency,
+      receipt,
       items,
       groceryLines: items.map((item) => item.rawLine),
       rawText: items.map((item) => item.rawLine).join('\n'),
-      model,
+      model: result.model,
     });
   } catch (error) {
     console.error('[api/receipts/ocr] response', {
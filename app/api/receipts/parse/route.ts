@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
-import { parseReceiptText } from '@/lib/receiptParser';
+import { listAliases } from '@/lib/aliasStore';
+import { findReceiptDictionary } from '@/lib/receiptDictionaries';
+import { listReceiptDictionaries } from '@/lib/receiptDictionaryStore';
+import { parseReceipt } from '@/lib/receiptParser';
 
 type ParseReceiptRequest = {
   rawText?: string;
+  dictionaryId?: string;
 };
 
 export async function POST(request: Request) {
@@ -10,9 +14,11 @@ export async function POST(request: Request) {
   try {
     const body = (await request.json()) as ParseReceiptRequest;
     const rawText = body.rawText?.trim() ?? '';
+    const dictionaryId = body.dictionaryId?.trim() || undefined;
     console.info('[api/receipts/parse] request', {
       requestId,
       rawTextLength: rawText.length,
+      dictionaryId: dictionaryId ?? null,
     });
 
     if (!rawText) {
@@ -24,16 +30,32 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'rawText is required.' }, { status: 400 });
     }
 
-    const items = parseReceiptText(rawText);
+    const dictionaries = await listReceiptDictionaries();
+    if (dictionaryId && !findReceiptDictionary(dictionaries, dictionaryId)) {
+      console.warn('[api/receipts/parse] response', {
+        requestId,
+        status: 400,
+        error: 'Unknown receipt dictionary.',
+      });
+      return NextResponse.json({ error: 'Unknown receipt dictionary.' }, { status: 400 });
+    }
+
+    const aliases = await listAliases();
+    const receipt = parseReceipt(rawText, { aliases, dictionaries, dictionaryId });
     console.info('[api/receipts/parse] response', {
       requestId,
       status: 200,
-      parsedItems: items.length,
+      parsedItems: receipt.items.length,
+      aliases: aliases.length,
+      merchant: receipt.merchant ?? null,
+      dictionaryId: receipt.dictionaryId ?? null,
+      reconciliation: receipt.reconciliation.status,
     });
 
     return NextResponse.json({
-      items,
-      totalParsedLines: items.length,
+      items: receipt.items,
+      totalParsedLines: receipt.items.length,
+      receipt,
     });
   } catch (error) {
     console.error('[api/receipts/parse] response', {
@@ -1,52 +1,109 @@
 import { NextResponse } from 'next/server';
+import { getHouseholdProfile } from '@/lib/householdProfileStore';
+import { describeMissingProvider, getLlmProvider } from '@/lib/llm';
+import type { LlmProviderName } from '@/lib/llm';
+import { normalizeRecipeConstraints } from '@/lib/recipeConstraints';
 import { fallbackRecipes, rankExpiringIngredients } from '@/lib/recipeFallback';
+import { generateModelRecipes } from '@/lib/recipeGeneration';
+import { encodeRecipeStreamEvent, RECIPE_STREAM_CONTENT_TYPE } from '@/lib/recipeStream';
+import type { RecipeStreamEvent } from '@/lib/recipeStream';
 import type { InventoryItem, RecipeSuggestion } from '@/lib/types';
 
 type RecipeRequest = {
   pantry?: InventoryItem[];
   preferences?: string;
+  constraints?: unknown;
 };
 
 type RecipeResponse = {
   recipes: RecipeSuggestion[];
   rankedIngredients: ReturnType<typeof rankExpiringIngredients>;
-  source: 'openai' | 'fallback';
+  source: LlmProviderName | 'fallback';
+  warning?: string;
 };
 
-function validateRecipes(raw: unknown): RecipeSuggestion[] {
-  if (!Array.isArray(raw)) return [];
+const MIN_RECIPES = 3;
+const MAX_RECIPES = 5;
+
+// Produces the response as stream events, whether or not the client asked for a stream. Model
+// recipes are sent as soon as each one is validated; fallback recipes are sent together.
+async function generateRecipeEvents(
+  pantry: InventoryItem[],
+  body: RecipeRequest,
+  requestId: string,
+  send: (event: RecipeStreamEvent) => void,
+): Promise<void> {
+  const ranked = rankExpiringIngredients(pantry).slice(0, 10);
+  send({ type: 'ranked', rankedIngredients: ranked });
+
+  const profile = await getHouseholdProfile();
+  const constraints = normalizeRecipeConstraints(body.constraints);
+  const provider = getLlmProvider();
+
+  const sendFallback = (reason: string, warning?: string) => {
+    const fallback = fallbackRecipes(pantry, { profile, constraints });
+    console.warn('[api/recipes] response', {
+      requestId,
+      status: 200,
+      source: 'fallback',
+      reason,
+      recipes: fallback.length,
+    });
+    fallback.forEach((recipe) => send({ type: 'recipe', recipe }));
+    send({ type: 'done', source: 'fallback', warning });
+  };
 
-  const valid = raw
-    .map((item) => {
-      if (!item || typeof item !== 'object') return null;
-      const candidate = item as Record<string, unknown>;
+  if (!provider) {
+    sendFallback(describeMissingProvider());
+    return;
+  }
 
-      if (
-        typeof candidate.title !== 'string' ||
-        !Array.isArray(candidate.pantryIngredientsUsed) ||
-        !Array.isArray(candidate.missingIngredients) ||
-        !Array.isArray(candidate.steps) ||
-        typeof candidate.estimatedCookingTimeMinutes !== 'number'
-      ) {
-        return null;
-      }
+  const { recipes, rejected, failedStatus } = await generateModelRecipes(
+    provider,
+    {
+      pantry,
+      ranked,
+      profile,
+      constraints,
+      preferences: body.preferences,
+      minRecipes: MIN_RECIPES,
+      maxRecipes: MAX_RECIPES,
+    },
+    { requestId, prefix: '[api/recipes]' },
+    (recipe) => send({ type: 'recipe', recipe }),
+  );
+
+  if (failedStatus !== undefined) {
+    sendFallback(
+      `${provider.name} status ${failedStatus}`,
+      `Recipe model request failed with status ${failedStatus}`,
+    );
+    return;
+  }
 
-      return {
-        title: candidate.title,
-        pantryIngredientsUsed: candidate.pantryIngredientsUsed.filter(
-          (value): value is string => typeof value === 'string',
-        ),
-        missingIngredients: candidate.missingIngredients.filter(
-          (value): value is string => typeof value === 'string',
-        ),
-        steps: candidate.steps.filter((value): value is string => typeof value === 'string'),
-        estimatedCookingTimeMinutes: candidate.estimatedCookingTimeMinutes,
-      } satisfies RecipeSuggestion;
-    })
-    .filter((value): value is RecipeSuggestion => value !== null)
-    .slice(0, 5);
+  if (recipes.length === 0) {
+    sendFallback(
+      rejected.length > 0 ? 'recipes broke household profile or constraints' : 'invalid recipe JSON',
+      rejected.length > 0
+        ? 'Model recipes did not fit the household profile or cooking limits; fallback used.'
+        : 'Model returned invalid recipe JSON; fallback used.',
+    );
+    return;
+  }
+
+  console.info('[api/recipes] response', {
+    requestId,
+    status: 200,
+    source: provider.name,
+    recipes: recipes.length,
+    rejected: rejected.length,
+  });
+  send({ type: 'done', source: provider.name });
+}
 
-  return valid;
+// Clients that accept NDJSON get one event per line as recipes are ready; others get one JSON body.
+function wantsStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes(RECIPE_STREAM_CONTENT_TYPE) ?? false;
 }
 
 export async function POST(request: Request) {
@@ -54,10 +111,13 @@ export async function POST(request: Request) {
   try {
     const body = (await request.json()) as RecipeRequest;
     const pantry = body.pantry ?? [];
+    const streaming = wantsStream(request);
     console.info('[api/recipes] request', {
       requestId,
       pantryCount: Array.isArray(pantry) ? pantry.length : 0,
       hasPreferences: Boolean(body.preferences?.trim()),
+      hasConstraints: Boolean(body.constraints),
+      streaming,
     });
 
     if (!Array.isArray(pantry) || pantry.length === 0) {
@@ -69,181 +129,54 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Pantry inventory is required.' }, { status: 400 });
     }
 
-    const ranked = rankExpiringIngredients(pantry).slice(0, 10);
-    const apiKey = process.env.OPENAI_API_KEY;
-    const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-
-    if (!apiKey) {
-      const fallback = fallbackRecipes(pantry);
-      const response: RecipeResponse = {
-        recipes: fallback,
-        rankedIngredients: ranked,
-        source: 'fallback',
-      };
-      console.warn('[api/recipes] response', {
-        requestId,
-        status: 200,
-        source: 'fallback',
-        reason: 'missing OPENAI_API_KEY',
-        recipes: fallback.length,
-      });
-      return NextResponse.json(response);
-    }
-
-    const prompt = [
-      'Generate 3 to 5 recipes as strict JSON only.',
-      'Use this schema:',
-      '{"recipes":[{"title":"string","pantryIngredientsUsed":["string"],"missingIngredients":["string"],"steps":["string"],"estimatedCookingTimeMinutes":number}]}',
-      'Prioritize ingredients with high urgency first to reduce food waste.',
-      `Ranked urgent ingredients: ${JSON.stringify(ranked)}`,
-      `Full pantry snapshot: ${JSON.stringify(pantry)}`,
-      `User preferences: ${body.preferences?.trim() || 'none'}`,
-      'Return JSON only. No markdown fences, no commentary.',
-    ].join('\n');
-
-    console.info('[api/recipes] outbound', {
-      requestId,
-      target: 'openai.chat.completions',
-      model,
-      rankedCount: ranked.length,
-    });
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a recipe assistant that returns valid JSON only and prioritizes ingredients close to expiration.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'recipe_suggestions',
-            strict: true,
-            schema: {
-              type: 'object',
-              additionalProperties: false,
-              properties: {
-                recipes: {
-                  type: 'array',
-                  minItems: 3,
-                  maxItems: 5,
-                  items: {
-                    type: 'object',
-                    additionalProperties: false,
-                    properties: {
-                      title: { type: 'string' },
-                      pantryIngredientsUsed: {
-                        type: 'array',
-                        items: { type: 'string' },
-                      },
-                      missingIngredients: {
-                        type: 'array',
-                        items: { type: 'string' },
-                      },
-                      steps: {
-                        type: 'array',
-                        minItems: 2,
-                        items: { type: 'string' },
-                      },
-                      estimatedCookingTimeMinutes: { type: 'number' },
-                    },
-                    required: [
-                      'title',
-                      'pantryIngredientsUsed',
-                      'missingIngredients',
-                      'steps',
-                      'estimatedCookingTimeMinutes',
-                    ],
-                  },
-                },
-              },
-              required: ['recipes'],
-            },
-          },
+    if (streaming) {
+      const encoder = new TextEncoder();
+      // Set once the client disconnects or cancels; the stream is closed then and takes no events.
+      let cancelled = false;
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: RecipeStreamEvent) => {
+            if (cancelled || request.signal.aborted) return;
+            controller.enqueue(encoder.encode(encodeRecipeStreamEvent(event)));
+          };
+          try {
+            await generateRecipeEvents(pantry, body, requestId, send);
+          } catch (error) {
+            const message =
+              error instanceof Error
+                ? error.message
+                : 'Could not generate recipes at this time. Please try again later.';
+            console.error('[api/recipes] stream', { requestId, error: message });
+            send({ type: 'error', error: message });
+          } finally {
+            if (!cancelled) controller.close();
+          }
+        },
+        cancel() {
+          cancelled = true;
+          console.info('[api/recipes] stream', { requestId, cancelled: true });
         },
-      }),
-    });
-    console.info('[api/recipes] inbound', {
-      requestId,
-      source: 'openai.chat.completions',
-      status: response.status,
-      ok: response.ok,
-    });
-
-    if (!response.ok) {
-      const fallback = fallbackRecipes(pantry);
-      console.warn('[api/recipes] response', {
-        requestId,
-        status: 200,
-        source: 'fallback',
-        reason: `openai status ${response.status}`,
-        recipes: fallback.length,
-      });
-      return NextResponse.json({
-        recipes: fallback,
-        rankedIngredients: ranked,
-        source: 'fallback',
-        warning: `OpenAI request failed with status ${response.status}`,
-      });
-    }
-
-    const payload = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-
-    const rawText = payload.choices?.[0]?.message?.content;
-    let parsed: unknown = null;
-
-    try {
-      parsed = rawText ? JSON.parse(rawText) : null;
-    } catch {
-      parsed = null;
-    }
-
-    const recipes = validateRecipes((parsed as { recipes?: unknown })?.recipes);
-
-    if (recipes.length === 0) {
-      const fallback = fallbackRecipes(pantry);
-      console.warn('[api/recipes] response', {
-        requestId,
-        status: 200,
-        source: 'fallback',
-        reason: 'invalid recipe JSON',
-        recipes: fallback.length,
       });
-      return NextResponse.json({
-        recipes: fallback,
-        rankedIngredients: ranked,
-        source: 'fallback',
-        warning: 'Model returned invalid recipe JSON; fallback used.',
+      return new Response(stream, {
+        headers: {
+          'Content-Type': `${RECIPE_STREAM_CONTENT_TYPE}; charset=utf-8`,
+          'Cache-Control': 'no-cache',
+        },
       });
     }
 
-    const recipeResponse: RecipeResponse = {
-      recipes,
-      rankedIngredients: ranked,
-      source: 'openai',
-    };
-    console.info('[api/recipes] response', {
-      requestId,
-      status: 200,
-      source: 'openai',
-      recipes: recipes.length,
+    const response: RecipeResponse = { recipes: [], rankedIngredients: [], source: 'fallback' };
+    await generateRecipeEvents(pantry, body, requestId, (event) => {
+      if (event.type === 'ranked') {
+        response.rankedIngredients = event.rankedIngredients;
+      } else if (event.type === 'recipe') {
+        response.recipes.push(event.recipe);
+      } else if (event.type === 'done') {
+        response.source = event.source;
+        response.warning = event.warning;
+      }
     });
-
-    return NextResponse.json(recipeResponse);
+    return NextResponse.json(response);
   } catch (error) {
     console.error('[api/recipes] response', {
       requestId,
@@ -1,29 +1,52 @@
 import { NextResponse } from 'next/server';
-import { canonicalizeIngredient, getShelfLifeDays } from '@/lib/shelfLife';
+import { listAliases } from '@/lib/aliasStore';
+import { describeMissingProvider, getLlmProvider, parseJsonObject } from '@/lib/llm';
+import type { LlmProviderName } from '@/lib/llm';
+import {
+  canonicalizeIngredient,
+  defaultStorageLocation,
+  getOpenedShelfLifeDays,
+  getShelfLifeDays,
+  isStorageLocation,
+} from '@/lib/shelfLife';
+import type { IngredientAlias, StorageLocation } from '@/lib/types';
 
 type ShelfLifeRequestItem = {
   name?: string;
   canonicalName?: string;
+  storageLocation?: StorageLocation;
 };
 
 type ShelfLifeRequest = {
   items?: ShelfLifeRequestItem[];
 };
 
+type NormalizedShelfLifeItem = {
+  canonicalName: string;
+  displayName: string;
+  storageLocation: StorageLocation;
+};
+
+type ShelfLifeByLocation = Record<string, Partial<Record<StorageLocation, number>>>;
+
 type ShelfLifeResponse = {
   shelfLifeByCanonical: Record<string, number>;
-  provider: 'openai' | 'fallback';
+  shelfLifeByLocation: ShelfLifeByLocation;
+  openedShelfLifeByCanonical: Record<string, number>;
+  provider: LlmProviderName | 'fallback';
   warning?: string;
   debug?: {
-    openaiRequestAttempted: boolean;
-    openaiResponseOk: boolean;
-    openaiMatchedItems: number;
+    llmRequestAttempted: boolean;
+    llmResponseOk: boolean;
+    llmMatchedItems: number;
   };
 };
 
-type OpenAiShelfLifeItem = {
+type LlmShelfLifeItem = {
   canonicalName?: string;
+  storageLocation?: string;
   shelfLifeDays?: number;
+  openedShelfLifeDays?: number;
 };
 
 function clampShelfLifeDays(value: unknown): number | null {
@@ -34,81 +57,63 @@ function clampShelfLifeDays(value: unknown): number | null {
   return rounded;
 }
 
-function parseJsonObject(text: string): Record<string, unknown> | null {
-  const trimmed = text.trim();
-  if (!trimmed) return null;
-
-  try {
-    const parsed = JSON.parse(trimmed) as unknown;
-    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
-  } catch {
-    const firstBrace = trimmed.indexOf('{');
-    const lastBrace = trimmed.lastIndexOf('}');
-    if (firstBrace < 0 || lastBrace <= firstBrace) return null;
-    const candidate = trimmed.slice(firstBrace, lastBrace + 1);
-    try {
-      const parsed = JSON.parse(candidate) as unknown;
-      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
-    } catch {
-      return null;
-    }
-  }
-}
-
-function normalizeItems(rawItems: ShelfLifeRequestItem[]): Array<{ canonicalName: string; displayName: string }> {
-  const unique = new Map<string, string>();
+function normalizeItems(
+  rawItems: ShelfLifeRequestItem[],
+  aliases: IngredientAlias[],
+): NormalizedShelfLifeItem[] {
+  const unique = new Map<string, NormalizedShelfLifeItem>();
 
   for (const item of rawItems) {
     const itemName = typeof item.name === 'string' ? item.name.trim() : '';
     const inputCanonical = typeof item.canonicalName === 'string' ? item.canonicalName.trim() : '';
-    const canonicalName = inputCanonical || canonicalizeIngredient(itemName).canonicalName;
+    const canonicalName = inputCanonical || canonicalizeIngredient(itemName, aliases).canonicalName;
     const normalizedCanonical = canonicalName.trim().toLowerCase();
     if (!normalizedCanonical) continue;
-    if (unique.has(normalizedCanonical)) continue;
-    unique.set(normalizedCanonical, itemName || normalizedCanonical);
+    const storageLocation = isStorageLocation(item.storageLocation)
+      ? item.storageLocation
+      : defaultStorageLocation(normalizedCanonical);
+    const key = `${normalizedCanonical}:${storageLocation}`;
+    if (unique.has(key)) continue;
+    unique.set(key, {
+      canonicalName: normalizedCanonical,
+      displayName: itemName || normalizedCanonical,
+      storageLocation,
+    });
   }
 
-  return Array.from(unique.entries()).map(([canonicalName, displayName]) => ({
-    canonicalName,
-    displayName,
-  }));
+  return Array.from(unique.values());
 }
 
-function buildFallbackShelfLife(items: Array<{ canonicalName: string }>): Record<string, number> {
-  return items.reduce<Record<string, number>>((acc, item) => {
-    acc[item.canonicalName] = getShelfLifeDays(item.canonicalName);
+function buildFallbackShelfLife(items: NormalizedShelfLifeItem[]): ShelfLifeByLocation {
+  return items.reduce<ShelfLifeByLocation>((acc, item) => {
+    acc[item.canonicalName] = {
+      ...acc[item.canonicalName],
+      [item.storageLocation]: getShelfLifeDays(item.canonicalName, item.storageLocation),
+    };
     return acc;
   }, {});
 }
 
-function extractOpenAIText(payload: unknown): string {
-  if (!payload || typeof payload !== 'object') return '';
-
-  const source = payload as {
-    output_text?: unknown;
-    output?: Array<{ content?: Array<{ type?: unknown; text?: unknown }> }>;
-  };
-
-  if (typeof source.output_text === 'string') {
-    return source.output_text;
-  }
+function buildFallbackOpenedShelfLife(items: NormalizedShelfLifeItem[]): Record<string, number> {
+  return items.reduce<Record<string, number>>((acc, item) => {
+    acc[item.canonicalName] = getOpenedShelfLifeDays(item.canonicalName);
+    return acc;
+  }, {});
+}
 
-  const output = Array.isArray(source.output) ? source.output : [];
-  return output
-    .flatMap((block) => (Array.isArray(block.content) ? block.content : []))
-    .map((part) => {
-      if (!part || typeof part !== 'object') return '';
-      const typedPart = part as { type?: unknown; text?: unknown };
-      if (
-        (typedPart.type === 'output_text' || typedPart.type === 'text') &&
-        typeof typedPart.text === 'string'
-      ) {
-        return typedPart.text;
-      }
-      return '';
-    })
-    .filter(Boolean)
-    .join('\n');
+// Keeps the single-number-per-ingredient view for callers that do not track locations;
+// the first requested location of each ingredient wins.
+function toShelfLifeByCanonical(
+  items: NormalizedShelfLifeItem[],
+  byLocation: ShelfLifeByLocation,
+): Record<string, number> {
+  return items.reduce<Record<string, number>>((acc, item) => {
+    const days = byLocation[item.canonicalName]?.[item.storageLocation];
+    if (!(item.canonicalName in acc) && typeof days === 'number') {
+      acc[item.canonicalName] = days;
+    }
+    return acc;
+  }, {});
 }
 
 export async function POST(request: Request) {
@@ -116,7 +121,7 @@ export async function POST(request: Request) {
   try {
     const body = (await request.json()) as ShelfLifeRequest;
     const rawItems = Array.isArray(body.items) ? body.items : [];
-    const items = normalizeItems(rawItems).slice(0, 30);
+    const items = normalizeItems(rawItems, await listAliases()).slice(0, 30);
     console.info('[api/shelf-life] request', {
       requestId,
       rawItems: rawItems.length,
@@ -133,128 +138,152 @@ export async function POST(request: Request) {
     }
 
     const fallback = buildFallbackShelfLife(items);
-    const openaiApiKey = process.env.OPENAI_API_KEY;
+    const openedFallback = buildFallbackOpenedShelfLife(items);
+    const provider = getLlmProvider();
     const debug = {
-      openaiRequestAttempted: false,
-      openaiResponseOk: false,
-      openaiMatchedItems: 0,
+      llmRequestAttempted: false,
+      llmResponseOk: false,
+      llmMatchedItems: 0,
     };
 
-    if (!openaiApiKey) {
+    if (!provider) {
+      const reason = describeMissingProvider();
       const response: ShelfLifeResponse = {
-        shelfLifeByCanonical: fallback,
+        shelfLifeByCanonical: toShelfLifeByCanonical(items, fallback),
+        shelfLifeByLocation: fallback,
+        openedShelfLifeByCanonical: openedFallback,
         provider: 'fallback',
-        warning: 'OPENAI_API_KEY is not configured, using local shelf-life defaults.',
+        warning: `${reason}, using local shelf-life defaults.`,
         debug,
       };
       console.warn('[api/shelf-life] response', {
         requestId,
         status: 200,
         provider: 'fallback',
-        reason: 'missing OPENAI_API_KEY',
+        reason,
         debug,
       });
       return NextResponse.json(response);
     }
 
     const prompt = [
-      'Find typical refrigerated shelf life in days for each grocery ingredient using current web sources.',
+      'Find typical shelf life in days for each grocery ingredient in the given storage location using current web sources.',
       'Return strict JSON only with this shape:',
-      '{"items":[{"canonicalName":"milk","shelfLifeDays":7}]}',
+      '{"items":[{"canonicalName":"milk","storageLocation":"fridge","shelfLifeDays":7,"openedShelfLifeDays":5}]}',
       'Rules:',
       '- canonicalName must match one of the requested canonical names exactly.',
-      '- shelfLifeDays must be an integer between 1 and 365.',
+      '- storageLocation must match the requested location: fridge, freezer, or pantry (room temperature shelf).',
+      '- shelfLifeDays is the unopened (sealed) shelf life and must be an integer between 1 and 365.',
+      '- openedShelfLifeDays is the shelf life once the package is opened or the item is cut, as an integer between 1 and 365.',
       '- no prose, markdown, or extra fields.',
       '',
       'Ingredients:',
-      ...items.map((item) => `- ${item.canonicalName} (${item.displayName})`),
+      ...items.map(
+        (item) => `- ${item.canonicalName} (${item.displayName}) stored in ${item.storageLocation}`,
+      ),
     ].join('\n');
 
-    debug.openaiRequestAttempted = true;
+    debug.llmRequestAttempted = true;
     console.info('[api/shelf-life] outbound', {
       requestId,
-      target: 'openai.responses',
-      model: process.env.OPENAI_SHELF_LIFE_MODEL || 'gpt-4.1-mini',
-      tool: 'web_search_preview',
+      target: provider.name,
+      model: provider.modelFor('shelf-life'),
+      webSearch: true,
       itemCount: items.length,
     });
 
-    const openAiResponse = await fetch('https://api.openai.com/v1/responses', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: process.env.OPENAI_SHELF_LIFE_MODEL || 'gpt-4.1-mini',
-        tools: [{ type: 'web_search' }],
-        input: prompt,
+    const result = await provider.complete({
+      task: 'shelf-life',
+      prompt,
+      webSearch: true,
+      fixture: () => ({
+        items: items.map((item) => ({
+          canonicalName: item.canonicalName,
+          storageLocation: item.storageLocation,
+          shelfLifeDays: getShelfLifeDays(item.canonicalName, item.storageLocation),
+          openedShelfLifeDays: getOpenedShelfLifeDays(item.canonicalName),
+        })),
       }),
     });
 
     console.info('[api/shelf-life] inbound', {
       requestId,
-      source: 'openai.responses',
-      status: openAiResponse.status,
-      ok: openAiResponse.ok,
+      source: provider.name,
+      status: result.ok ? 200 : result.status,
+      ok: result.ok,
     });
 
-    if (!openAiResponse.ok) {
-      const detail = await openAiResponse.text();
+    if (!result.ok) {
       const response: ShelfLifeResponse = {
-        shelfLifeByCanonical: fallback,
+        shelfLifeByCanonical: toShelfLifeByCanonical(items, fallback),
+        shelfLifeByLocation: fallback,
+        openedShelfLifeByCanonical: openedFallback,
         provider: 'fallback',
-        warning: `OpenAI web search failed: ${detail}`,
+        warning: `Shelf-life lookup failed: ${result.detail}`,
         debug,
       };
       console.warn('[api/shelf-life] response', {
         requestId,
         status: 200,
         provider: 'fallback',
-        reason: `openai status ${openAiResponse.status}`,
+        reason: `${provider.name} status ${result.status}`,
         debug,
       });
       return NextResponse.json(response);
     }
-    debug.openaiResponseOk = true;
+    debug.llmResponseOk = true;
 
-    const openAiPayload = (await openAiResponse.json()) as unknown;
-    console.info('[api/shelf-life] openai raw response', {
+    console.info('[api/shelf-life] llm raw response', {
       requestId,
-      payload: openAiPayload,
+      text: result.text,
     });
 
-    const contentText = extractOpenAIText(openAiPayload);
+    const contentText = result.text;
     const parsedObject = parseJsonObject(contentText);
     const parsedItemsRaw = parsedObject?.items;
-    const parsedItems = Array.isArray(parsedItemsRaw) ? (parsedItemsRaw as OpenAiShelfLifeItem[]) : [];
+    const parsedItems = Array.isArray(parsedItemsRaw) ? (parsedItemsRaw as LlmShelfLifeItem[]) : [];
 
-    const shelfLifeByCanonical = { ...fallback };
+    const shelfLifeByLocation: ShelfLifeByLocation = Object.fromEntries(
+      Object.entries(fallback).map(([canonicalName, byLocation]) => [canonicalName, { ...byLocation }]),
+    );
+    const openedShelfLifeByCanonical = { ...openedFallback };
     for (const parsedItem of parsedItems) {
       const canonicalNameRaw =
         typeof parsedItem.canonicalName === 'string' ? parsedItem.canonicalName.trim().toLowerCase() : '';
-      if (!canonicalNameRaw || !(canonicalNameRaw in shelfLifeByCanonical)) continue;
+      const requested = shelfLifeByLocation[canonicalNameRaw];
+      if (!canonicalNameRaw || !requested) continue;
+      const openedShelfLifeDays = clampShelfLifeDays(parsedItem.openedShelfLifeDays);
+      if (openedShelfLifeDays !== null) {
+        openedShelfLifeByCanonical[canonicalNameRaw] = openedShelfLifeDays;
+      }
+      const storageLocationRaw =
+        typeof parsedItem.storageLocation === 'string'
+          ? parsedItem.storageLocation.trim().toLowerCase()
+          : '';
+      if (!isStorageLocation(storageLocationRaw) || !(storageLocationRaw in requested)) continue;
       const shelfLifeDays = clampShelfLifeDays(parsedItem.shelfLifeDays);
       if (shelfLifeDays === null) continue;
-      shelfLifeByCanonical[canonicalNameRaw] = shelfLifeDays;
-      debug.openaiMatchedItems += 1;
+      requested[storageLocationRaw] = shelfLifeDays;
+      debug.llmMatchedItems += 1;
     }
 
     const warning =
-      debug.openaiMatchedItems === 0
-        ? 'OpenAI web search returned no usable shelf-life values; fallback defaults were used.'
+      debug.llmMatchedItems === 0
+        ? 'Shelf-life lookup returned no usable values; fallback defaults were used.'
         : undefined;
 
     const response: ShelfLifeResponse = {
-      shelfLifeByCanonical,
-      provider: 'openai',
+      shelfLifeByCanonical: toShelfLifeByCanonical(items, shelfLifeByLocation),
+      shelfLifeByLocation,
+      openedShelfLifeByCanonical,
+      provider: provider.name,
       warning,
       debug,
     };
     console.info('[api/shelf-life] response', {
       requestId,
       status: 200,
-      provider: 'openai',
+      provider: provider.name,
       warning: warning ?? null,
       debug,
     });
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { deleteShoppingItem, setShoppingItemChecked } from '@/lib/shoppingListStore';
+
+type ShoppingItemContext = {
+  params: Promise<{ id: string }>;
+};
+
+type UpdateShoppingItemRequest = {
+  checked?: unknown;
+};
+
+export async function PATCH(request: Request, context: ShoppingItemContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    const body = (await request.json()) as UpdateShoppingItemRequest;
+    console.info('[api/shopping-list/:id] request', {
+      requestId,
+      method: 'PATCH',
+      itemId: id,
+    });
+
+    if (typeof body.checked !== 'boolean') {
+      console.warn('[api/shopping-list/:id] response', {
+        requestId,
+        status: 400,
+        error: 'checked must be true or false.',
+      });
+      return NextResponse.json({ error: 'checked must be true or false.' }, { status: 400 });
+    }
+
+    const item = await setShoppingItemChecked(id, body.checked);
+    if (!item) {
+      console.warn('[api/shopping-list/:id] response', {
+        requestId,
+        status: 404,
+        error: 'Shopping list item not found.',
+      });
+      return NextResponse.json({ error: 'Shopping list item not found.' }, { status: 404 });
+    }
+
+    console.info('[api/shopping-list/:id] response', {
+      requestId,
+      status: 200,
+      itemId: id,
+      checked: item.checked,
+    });
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error('[api/shopping-list/:id] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not update shopping list item.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not update shopping list item.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: ShoppingItemContext) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const { id } = await context.params;
+    console.info('[api/shopping-list/:id] request', {
+      requestId,
+      method: 'DELETE',
+      itemId: id,
+    });
+
+    const deleted = await deleteShoppingItem(id);
+    if (!deleted) {
+      console.warn('[api/shopping-list/:id] response', {
+        requestId,
+        status: 404,
+        error: 'Shopping list item not found.',
+      });
+      return NextResponse.json({ error: 'Shopping list item not found.' }, { status: 404 });
+    }
+
+    console.info('[api/shopping-list/:id] response', {
+      requestId,
+      status: 200,
+      itemId: id,
+    });
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('[api/shopping-list/:id] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not delete shopping list item.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not delete shopping list item.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { addLowStockItems } from '@/lib/shoppingListStore';
+
+// Adds pantry items that are running low or were recently used up.
+export async function POST() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    console.info('[api/shopping-list/low-stock] request', {
+      requestId,
+      method: 'POST',
+    });
+    const { items, added } = await addLowStockItems();
+    console.info('[api/shopping-list/low-stock] response', {
+      requestId,
+      status: 200,
+      items: items.length,
+      added,
+    });
+    return NextResponse.json({ items, added });
+  } catch (error) {
+    console.error('[api/shopping-list/low-stock] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not update the shopping list.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not update the shopping list.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { isShoppingListEntry } from '@/lib/shoppingList';
+import {
+  addShoppingEntries,
+  clearCheckedShoppingItems,
+  listShoppingItems,
+} from '@/lib/shoppingListStore';
+
+type AddShoppingEntriesRequest = {
+  entries?: unknown;
+};
+
+export async function GET() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const items = await listShoppingItems();
+    console.info('[api/shopping-list] response', {
+      requestId,
+      status: 200,
+      items: items.length,
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('[api/shopping-list] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not load the shopping list.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not load the shopping list.' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    const body = (await request.json()) as AddShoppingEntriesRequest;
+    const entries = Array.isArray(body.entries) ? body.entries : [];
+    console.info('[api/shopping-list] request', {
+      requestId,
+      method: 'POST',
+      entries: entries.length,
+    });
+
+    if (entries.length === 0 || !entries.every(isShoppingListEntry)) {
+      console.warn('[api/shopping-list] response', {
+        requestId,
+        status: 400,
+        error: 'entries must list a canonicalName, with a positive quantity and unit when given.',
+      });
+      return NextResponse.json(
+        { error: 'entries must list a canonicalName, with a positive quantity and unit when given.' },
+        { status: 400 },
+      );
+    }
+
+    const items = await addShoppingEntries(entries);
+    console.info('[api/shopping-list] response', {
+      requestId,
+      status: 201,
+      items: items.length,
+    });
+    return NextResponse.json({ items }, { status: 201 });
+  } catch (error) {
+    console.error('[api/shopping-list] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not update the shopping list.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not update the shopping list.' },
+      { status: 500 },
+    );
+  }
+}
+
+// Clears the items that have been checked off.
+export async function DELETE() {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  try {
+    console.info('[api/shopping-list] request', {
+      requestId,
+      method: 'DELETE',
+    });
+    const items = await clearCheckedShoppingItems();
+    console.info('[api/shopping-list] response', {
+      requestId,
+      status: 200,
+      items: items.length,
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('[api/shopping-list] response', {
+      requestId,
+      status: 500,
+      error: error instanceof Error ? error.message : 'Could not update the shopping list.',
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Could not update the shopping list.' },
+      { status: 500 },
+    );
+  }
+}
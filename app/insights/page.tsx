@@ -0,0 +1,315 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { UNIT_SYSTEM_STORAGE_KEY } from '@/lib/constants';
+import { combineQuantityTotals } from '@/lib/insights';
+import type { QuantityTotal, WasteInsights, WasteTrend } from '@/lib/insights';
+import { formatMoney } from '@/lib/pricing';
+import { DEFAULT_UNIT_SYSTEM, formatQuantity, isUnitSystem } from '@/lib/units';
+import type { UnitSystem } from '@/lib/units';
+
+type InsightsApiPayload = Partial<WasteInsights> & {
+  error?: string;
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 28;
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+function formatMonth(month: string): string {
+  return new Intl.DateTimeFormat('en-US', { month: 'short', year: 'numeric' }).format(
+    new Date(`${month}-01T00:00:00Z`),
+  );
+}
+
+function formatTotals(totals: QuantityTotal[], unitSystem: UnitSystem): string {
+  if (totals.length === 0) return '0';
+  return totals.map((total) => formatQuantity(total.quantity, total.unit, unitSystem)).join(' + ');
+}
+
+// Months without a value keep their place on the x axis; the line joins the months either side.
+function chartPoints(values: Array<number | null>): string {
+  const step = values.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (values.length - 1) : 0;
+  return values
+    .flatMap((value, index) => {
+      if (value === null) return [];
+      const x = CHART_PADDING + step * index;
+      const y = CHART_HEIGHT - CHART_PADDING - value * (CHART_HEIGHT - CHART_PADDING * 2);
+      return [`${x.toFixed(1)},${y.toFixed(1)}`];
+    })
+    .join(' ');
+}
+
+function TrendChart({ trend }: { trend: WasteTrend }) {
+  if (trend.points.length === 0) {
+    return <p className="muted">No removals recorded yet.</p>;
+  }
+
+  const trendLabel =
+    trend.direction === 'improving'
+      ? 'Waste is going down.'
+      : trend.direction === 'worsening'
+        ? 'Waste is going up.'
+        : 'Waste is holding steady.';
+
+  return (
+    <div className="trendChart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Monthly waste rate with trend line"
+      >
+        <line
+          x1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y1={CHART_HEIGHT - CHART_PADDING}
+          y2={CHART_HEIGHT - CHART_PADDING}
+          className="trendAxis"
+        />
+        <polyline
+          points={chartPoints(trend.points.map((point) => point.wasteRate))}
+          className="trendActual"
+        />
+        <polyline
+          points={chartPoints(trend.points.map((point) => point.fitted))}
+          className="trendFitted"
+        />
+      </svg>
+      <p className="muted">
+        {trendLabel} Trend {trend.slopePerMonth > 0 ? '+' : ''}
+        {(trend.slopePerMonth * 100).toFixed(1)} points per month, from{' '}
+        {formatMonth(trend.points[0].month)} to {formatMonth(trend.points[trend.points.length - 1].month)}.
+      </p>
+    </div>
+  );
+}
+
+export default function InsightsPage() {
+  const [insights, setInsights] = useState<WasteInsights | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadInsights() {
+      const storedUnitSystem = window.localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY);
+      if (isUnitSystem(storedUnitSystem)) setUnitSystem(storedUnitSystem);
+      try {
+        console.info('[client] request', { endpoint: '/api/insights' });
+        const response = await fetch('/api/insights', { cache: 'no-store' });
+        console.info('[client] response', {
+          endpoint: '/api/insights',
+          status: response.status,
+          ok: response.ok,
+        });
+
+        const payload = (await response.json()) as InsightsApiPayload;
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Could not load insights.');
+        }
+        if (!cancelled) setInsights(payload as WasteInsights);
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : 'Could not load insights.');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    void loadInsights();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <main className="shell">
+      <section className="hero compact">
+        <p className="eyebrow">Waste Insights</p>
+        <h1>How much food are we rescuing?</h1>
+        <p>
+          Every item removed from the pantry is recorded as eaten, thrown out, donated, or frozen.
+          Waste rate is the share of eaten-or-thrown-out food that was thrown out.
+        </p>
+        <Link href="/" className="ghostButton">
+          Back to pantry
+        </Link>
+      </section>
+
+      {isLoading ? <p className="muted">Loading insights...</p> : null}
+
+      {insights ? (
+        <>
+          <section className="panel">
+            <h2>Overview</h2>
+            <div className="insightStats">
+              <p>
+                <strong>{formatPercent(insights.wasteRate)}</strong>
+                <span className="muted">waste rate</span>
+              </p>
+              <p>
+                <strong>{formatTotals(insights.totals.consumed, unitSystem)}</strong>
+                <span className="muted">eaten</span>
+              </p>
+              <p>
+                <strong>{formatTotals(insights.totals.wasted, unitSystem)}</strong>
+                <span className="muted">thrown out</span>
+              </p>
+              <p>
+                <strong>
+                  {formatTotals(
+                    combineQuantityTotals(insights.totals.donated, insights.totals.frozen),
+                    unitSystem,
+                  )}
+                </strong>
+                <span className="muted">donated or frozen</span>
+              </p>
+              <p>
+                <strong>
+                  {insights.wastedValue.length === 0
+                    ? formatMoney(0)
+                    : insights.wastedValue
+                        .map((value) => formatMoney(value.amount, value.currency))
+                        .join(' + ')}
+                </strong>
+                <span className="muted">spent on food thrown out</span>
+              </p>
+            </div>
+            <p className="muted">
+              Weights, volumes and counts are totalled separately, from {insights.entryCount}{' '}
+              removals. The waste rate combines them by how many removals each covers.
+              {insights.unpricedWastedCount > 0
+                ? ` ${insights.unpricedWastedCount} thrown-out item(s) had no price and are not counted in the cost.`
+                : ''}
+            </p>
+          </section>
+
+          <section className="panel">
+            <h2>Waste rate trend</h2>
+            <TrendChart trend={insights.trend} />
+          </section>
+
+          <section className="panel">
+            <h2>By month</h2>
+            {insights.byMonth.length === 0 ? (
+              <p className="muted">No removals recorded yet.</p>
+            ) : (
+              <table className="insightTable">
+                <thead>
+                  <tr>
+                    <th>Month</th>
+                    <th>Eaten</th>
+                    <th>Thrown out</th>
+                    <th>Waste rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {insights.byMonth.map((month) => (
+                    <tr key={month.month}>
+                      <td>{formatMonth(month.month)}</td>
+                      <td>{formatTotals(month.totals.consumed, unitSystem)}</td>
+                      <td>{formatTotals(month.totals.wasted, unitSystem)}</td>
+                      <td>
+                        {month.totals.consumed.length + month.totals.wasted.length > 0
+                          ? formatPercent(month.wasteRate)
+                          : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="grid">
+            <article className="panel">
+              <h2>Most often wasted</h2>
+              {insights.mostWasted.length === 0 ? (
+                <p className="muted">Nothing thrown out yet.</p>
+              ) : (
+                <ol className="insightList">
+                  {insights.mostWasted.map((ingredient) => (
+                    <li key={ingredient.canonicalName}>
+                      <strong>{ingredient.canonicalName}</strong> thrown out {ingredient.wastedCount}{' '}
+                      time(s), {formatPercent(ingredient.wasteRate)} waste rate
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </article>
+
+            <article className="panel">
+              <h2>By source</h2>
+              {insights.bySource.length === 0 ? (
+                <p className="muted">No removals recorded yet.</p>
+              ) : (
+                <table className="insightTable">
+                  <thead>
+                    <tr>
+                      <th>Source</th>
+                      <th>Eaten</th>
+                      <th>Thrown out</th>
+                      <th>Waste rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {insights.bySource.map((source) => (
+                      <tr key={source.source}>
+                        <td>{source.source}</td>
+                        <td>{formatTotals(source.totals.consumed, unitSystem)}</td>
+                        <td>{formatTotals(source.totals.wasted, unitSystem)}</td>
+                        <td>{formatPercent(source.wasteRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </article>
+          </section>
+
+          <section className="panel">
+            <h2>By ingredient</h2>
+            {insights.byIngredient.length === 0 ? (
+              <p className="muted">No removals recorded yet.</p>
+            ) : (
+              <table className="insightTable">
+                <thead>
+                  <tr>
+                    <th>Ingredient</th>
+                    <th>Eaten</th>
+                    <th>Thrown out</th>
+                    <th>Donated</th>
+                    <th>Frozen</th>
+                    <th>Waste rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {insights.byIngredient.map((ingredient) => (
+                    <tr key={ingredient.canonicalName}>
+                      <td>{ingredient.canonicalName}</td>
+                      <td>{formatTotals(ingredient.totals.consumed, unitSystem)}</td>
+                      <td>{formatTotals(ingredient.totals.wasted, unitSystem)}</td>
+                      <td>{formatTotals(ingredient.totals.donated, unitSystem)}</td>
+                      <td>{formatTotals(ingredient.totals.frozen, unitSystem)}</td>
+                      <td>{formatPercent(ingredient.wasteRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      ) : null}
+
+      {error ? <p className="errorText">{error}</p> : null}
+    </main>
+  );
+}
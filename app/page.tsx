@@ -2,10 +2,72 @@
 
 import Link from 'next/link';
 import { FormEvent, useEffect, useMemo, useState } from 'react';
-import { NOTIFIED_STORAGE_KEY } from '@/lib/constants';
-import { createInventoryItem, loadPantryFromStorage, savePantryToStorage } from '@/lib/pantry';
-import { canonicalizeIngredient, daysUntil } from '@/lib/shelfLife';
-import type { InventoryItem, RankedIngredient, RecipeSuggestion } from '@/lib/types';
+import {
+  NOTIFIED_STORAGE_KEY,
+  PANTRY_SYNCED_STORAGE_KEY,
+  UNIT_SYSTEM_STORAGE_KEY,
+} from '@/lib/constants';
+import { fetchAliases } from '@/lib/aliasApi';
+import { checkRecipeIngredients, planRecipeDeductions } from '@/lib/cooking';
+import type { CookingPlanLine } from '@/lib/cooking';
+import { ALLERGENS, DIETS, EMPTY_HOUSEHOLD_PROFILE } from '@/lib/householdProfile';
+import { fetchHouseholdProfile, saveHouseholdProfile } from '@/lib/householdProfileApi';
+import { REMOVAL_OUTCOMES } from '@/lib/ledger';
+import { formatMoney } from '@/lib/pricing';
+import { shoppingEntriesForRecipe } from '@/lib/shoppingList';
+import { addToShoppingList } from '@/lib/shoppingListApi';
+import {
+  buildMarkOpenedPatch,
+  buildStorageMovePatch,
+  createInventoryItem,
+  loadPantryFromStorage,
+  lotExpirationDate,
+  savePantryToStorage,
+} from '@/lib/pantry';
+import {
+  cookRecipe,
+  createPantryItem,
+  deletePantryItem,
+  fetchPantry,
+  importPantryItems,
+  removePantryQuantity,
+  updatePantryItem,
+} from '@/lib/pantryApi';
+import { EQUIPMENT } from '@/lib/recipeConstraints';
+import { rankExpiringIngredients } from '@/lib/recipeFallback';
+import { readRecipeStream, RECIPE_STREAM_CONTENT_TYPE } from '@/lib/recipeStream';
+import {
+  canonicalizeIngredient,
+  daysUntil,
+  defaultStorageLocation,
+  STORAGE_LOCATIONS,
+} from '@/lib/shelfLife';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  formatQuantity,
+  isUnitSystem,
+  normalizeQuantity,
+  UNIT_SYSTEMS,
+  UNITS,
+} from '@/lib/units';
+import type { UnitSystem } from '@/lib/units';
+import type { LlmProviderName } from '@/lib/llm';
+import type {
+  Allergen,
+  CookedIngredient,
+  Diet,
+  Equipment,
+  HouseholdProfile,
+  IngredientAlias,
+  InventoryItem,
+  InventoryItemPatch,
+  RankedIngredient,
+  RecipeConstraints,
+  RecipeSuggestion,
+  RemovalOutcome,
+  StorageLocation,
+  Unit,
+} from '@/lib/types';
 
 function formatDate(value: string): string {
   return new Intl.DateTimeFormat('en-US', {
@@ -19,60 +81,202 @@ function toDateInputValue(value: string): string {
   return new Date(value).toISOString().slice(0, 10);
 }
 
+const STORAGE_LOCATION_LABELS: Record<StorageLocation, string> = {
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+  pantry: 'Pantry shelf',
+};
+
+const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  us: 'US (lb, oz, gal)',
+  metric: 'Metric (kg, g, l)',
+};
+
+// Unit prices are stored per stored unit; this re-expresses them per displayed unit.
+function formatUnitPrice(item: InventoryItem, unitSystem: UnitSystem): string {
+  const display = normalizeQuantity(item.quantity, item.unit, unitSystem);
+  const unitPrice = (item.unitPrice ?? 0) * (item.quantity / display.quantity);
+  return `${formatMoney(unitPrice, item.currency)}/${display.unit}`;
+}
+
+const REMOVAL_OUTCOME_LABELS: Record<RemovalOutcome, string> = {
+  consumed: 'Eaten',
+  wasted: 'Thrown out',
+  donated: 'Donated',
+  frozen: 'Frozen for later',
+};
+
+// Only errors come back as plain JSON; recipes are streamed.
 type RecipeApiPayload = {
-  recipes?: RecipeSuggestion[];
-  rankedIngredients?: RankedIngredient[];
-  source?: 'openai' | 'fallback';
-  warning?: string;
   error?: string;
 };
 
 type ShelfLifeApiPayload = {
   shelfLifeByCanonical?: Record<string, number>;
-  provider?: 'openai' | 'fallback';
+  shelfLifeByLocation?: Record<string, Partial<Record<StorageLocation, number>>>;
+  openedShelfLifeByCanonical?: Record<string, number>;
+  provider?: LlmProviderName | 'fallback';
   warning?: string;
   debug?: {
-    openaiRequestAttempted: boolean;
-    openaiResponseOk: boolean;
-    openaiMatchedItems: number;
+    llmRequestAttempted: boolean;
+    llmResponseOk: boolean;
+    llmMatchedItems: number;
   };
   error?: string;
 };
 
+async function requestShelfLife(item: {
+  name: string;
+  canonicalName: string;
+  storageLocation: StorageLocation;
+}): Promise<ShelfLifeApiPayload> {
+  console.info('[client] request', {
+    endpoint: '/api/shelf-life',
+    item: item.name,
+    canonicalName: item.canonicalName,
+    storageLocation: item.storageLocation,
+  });
+  const response = await fetch('/api/shelf-life', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items: [item] }),
+  });
+  console.info('[client] response', {
+    endpoint: '/api/shelf-life',
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as ShelfLifeApiPayload;
+  console.info('[client] shelf-life payload', {
+    provider: payload.provider,
+    warning: payload.warning,
+    debug: payload.debug,
+  });
+  if (!response.ok) {
+    throw new Error(payload.error ?? 'Could not estimate shelf life.');
+  }
+  return payload;
+}
+
+function summarizeProfile(profile: HouseholdProfile): string {
+  const parts = [
+    ...profile.diets,
+    ...profile.allergens.map((allergen) => `no ${allergen}`),
+    ...(profile.dislikes.length > 0 ? [`${profile.dislikes.length} disliked`] : []),
+  ];
+  return parts.length > 0 ? `: ${parts.join(', ')}` : '';
+}
+
 export default function HomePage() {
   const [ingredients, setIngredients] = useState<InventoryItem[]>([]);
   const [hasHydratedPantry, setHasHydratedPantry] = useState(false);
+  const [isPantryOffline, setIsPantryOffline] = useState(false);
   const [name, setName] = useState('');
   const [quantity, setQuantity] = useState('');
-  const [unit, setUnit] = useState('');
+  const [unit, setUnit] = useState<Unit>('item');
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [storageLocation, setStorageLocation] = useState<StorageLocation | ''>('');
   const [expirationDate, setExpirationDate] = useState('');
   const [editQuantity, setEditQuantity] = useState<Record<string, string>>({});
   const [editExpiration, setEditExpiration] = useState<Record<string, string>>({});
   const [openEditorId, setOpenEditorId] = useState<string | null>(null);
+  const [openRemovalId, setOpenRemovalId] = useState<string | null>(null);
+  const [removalOutcome, setRemovalOutcome] = useState<Record<string, RemovalOutcome>>({});
+  const [removalQuantity, setRemovalQuantity] = useState<Record<string, string>>({});
   const [recipes, setRecipes] = useState<RecipeSuggestion[]>([]);
   const [rankedIngredients, setRankedIngredients] = useState<RankedIngredient[]>([]);
-  const [recipeSource, setRecipeSource] = useState<'openai' | 'fallback' | null>(null);
+  const [recipeSource, setRecipeSource] = useState<LlmProviderName | 'fallback' | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isAddingIngredient, setIsAddingIngredient] = useState(false);
   const [preferences, setPreferences] = useState('');
+  const [maxMinutes, setMaxMinutes] = useState('');
+  const [servings, setServings] = useState('');
+  const [equipment, setEquipment] = useState<Equipment[]>(EQUIPMENT);
+  const [cookingTitle, setCookingTitle] = useState<string | null>(null);
+  const [cookingPlan, setCookingPlan] = useState<CookingPlanLine[]>([]);
+  const [cookAmounts, setCookAmounts] = useState<Record<string, string>>({});
+  const [isCooking, setIsCooking] = useState(false);
+  const [shoppingAddedTitles, setShoppingAddedTitles] = useState<string[]>([]);
+  const [profile, setProfile] = useState<HouseholdProfile>(EMPTY_HOUSEHOLD_PROFILE);
+  const [dislikesInput, setDislikesInput] = useState('');
+  const [aliases, setAliases] = useState<IngredientAlias[]>([]);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    function syncPantryFromStorage() {
-      setIngredients(loadPantryFromStorage());
+    let cancelled = false;
+
+    async function syncPantryFromServer() {
+      const cached = loadPantryFromStorage();
+      try {
+        const remote = await fetchPantry();
+        const hasSynced = window.localStorage.getItem(PANTRY_SYNCED_STORAGE_KEY) === 'true';
+        // Pantries saved before server persistence existed are uploaded once.
+        const items =
+          !hasSynced && remote.length === 0 && cached.length > 0
+            ? await importPantryItems(cached)
+            : remote;
+        window.localStorage.setItem(PANTRY_SYNCED_STORAGE_KEY, 'true');
+        if (cancelled) return;
+        setIngredients(items);
+        setIsPantryOffline(false);
+      } catch {
+        if (cancelled) return;
+        setIngredients(cached);
+        setIsPantryOffline(true);
+      } finally {
+        if (!cancelled) setHasHydratedPantry(true);
+      }
+    }
+
+    setIngredients(loadPantryFromStorage());
+    const storedUnitSystem = window.localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY);
+    if (isUnitSystem(storedUnitSystem)) setUnitSystem(storedUnitSystem);
+    void syncPantryFromServer();
+
+    function handlePantryChange() {
+      void syncPantryFromServer();
     }
 
-    syncPantryFromStorage();
-    setHasHydratedPantry(true);
+    window.addEventListener('pantry:updated', handlePantryChange);
+    window.addEventListener('storage', handlePantryChange);
+    window.addEventListener('focus', handlePantryChange);
 
-    window.addEventListener('pantry:updated', syncPantryFromStorage);
-    window.addEventListener('storage', syncPantryFromStorage);
-    window.addEventListener('focus', syncPantryFromStorage);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('pantry:updated', handlePantryChange);
+      window.removeEventListener('storage', handlePantryChange);
+      window.removeEventListener('focus', handlePantryChange);
+    };
+  }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchHouseholdProfile()
+      .then((loaded) => {
+        if (cancelled) return;
+        setProfile(loaded);
+        setDislikesInput(loaded.dislikes.join(', '));
+      })
+      .catch((profileError) => {
+        console.warn('[client] household profile unavailable', {
+          error:
+            profileError instanceof Error ? profileError.message : 'Could not load household profile.',
+        });
+      });
+    // Names typed here resolve through the same learned aliases as scanned receipts.
+    fetchAliases()
+      .then((loaded) => {
+        if (!cancelled) setAliases(loaded);
+      })
+      .catch((aliasError) => {
+        console.warn('[client] aliases unavailable', {
+          error: aliasError instanceof Error ? aliasError.message : 'Could not load aliases.',
+        });
+      });
     return () => {
-      window.removeEventListener('pantry:updated', syncPantryFromStorage);
-      window.removeEventListener('storage', syncPantryFromStorage);
-      window.removeEventListener('focus', syncPantryFromStorage);
+      cancelled = true;
     };
   }, []);
 
@@ -142,54 +346,39 @@ export default function HomePage() {
       setIsAddingIngredient(true);
       const ingredientName = name.trim();
       const expirationDateOverride = expirationDate ? new Date(expirationDate).toISOString() : undefined;
-      const { canonicalName } = canonicalizeIngredient(ingredientName);
+      const { canonicalName } = canonicalizeIngredient(ingredientName, aliases);
+      const itemStorageLocation = storageLocation || defaultStorageLocation(canonicalName);
 
       let shelfLifeDaysOverride: number | undefined;
       if (!expirationDateOverride) {
-        console.info('[client] request', {
-          endpoint: '/api/shelf-life',
-          item: ingredientName,
+        const shelfLifePayload = await requestShelfLife({
+          name: ingredientName,
           canonicalName,
+          storageLocation: itemStorageLocation,
         });
-        const shelfLifeResponse = await fetch('/api/shelf-life', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            items: [{ name: ingredientName, canonicalName }],
-          }),
-        });
-        console.info('[client] response', {
-          endpoint: '/api/shelf-life',
-          status: shelfLifeResponse.status,
-          ok: shelfLifeResponse.ok,
-        });
-
-        const shelfLifePayload = (await shelfLifeResponse.json()) as ShelfLifeApiPayload;
-        console.info('[client] shelf-life payload', {
-          provider: shelfLifePayload.provider,
-          warning: shelfLifePayload.warning,
-          debug: shelfLifePayload.debug,
-        });
-        if (!shelfLifeResponse.ok) {
-          throw new Error(shelfLifePayload.error ?? 'Could not estimate shelf life.');
-        }
-
-        shelfLifeDaysOverride = shelfLifePayload.shelfLifeByCanonical?.[canonicalName];
+        shelfLifeDaysOverride =
+          shelfLifePayload.shelfLifeByLocation?.[canonicalName]?.[itemStorageLocation] ??
+          shelfLifePayload.shelfLifeByCanonical?.[canonicalName];
       }
 
       const newItem = createInventoryItem({
         name: ingredientName,
+        canonicalName,
         quantity: parsedQuantity,
-        unit: unit.trim() || 'item',
+        unit,
+        storageLocation: itemStorageLocation,
         source: 'manual',
         expirationDateOverride,
         shelfLifeDaysOverride,
       });
 
-      setIngredients((prev) => [newItem, ...prev]);
+      const savedItem = await createPantryItem(newItem);
+      // A matching pantry entry absorbs the new item as another lot.
+      setIngredients((prev) => [savedItem, ...prev.filter((item) => item.id !== savedItem.id)]);
       setName('');
       setQuantity('');
-      setUnit('');
+      setUnit('item');
+      setStorageLocation('');
       setExpirationDate('');
       setError(null);
     } catch (addError) {
@@ -199,24 +388,81 @@ export default function HomePage() {
     }
   }
 
-  function removeIngredient(id: string) {
-    setIngredients((prev) => prev.filter((ingredient) => ingredient.id !== id));
-    setOpenEditorId((prev) => (prev === id ? null : prev));
+  function changeUnitSystem(nextSystem: UnitSystem) {
+    setUnitSystem(nextSystem);
+    window.localStorage.setItem(UNIT_SYSTEM_STORAGE_KEY, nextSystem);
+  }
+
+  async function removeIngredient(id: string) {
+    try {
+      await deletePantryItem(id);
+      setIngredients((prev) => prev.filter((ingredient) => ingredient.id !== id));
+      setOpenEditorId((prev) => (prev === id ? null : prev));
+      setOpenRemovalId((prev) => (prev === id ? null : prev));
+      setError(null);
+    } catch (removeError) {
+      setError(removeError instanceof Error ? removeError.message : 'Could not delete ingredient.');
+    }
+  }
+
+  async function recordRemoval(id: string) {
+    const current = ingredients.find((item) => item.id === id);
+    if (!current) return;
+
+    const outcome = removalOutcome[id] ?? 'consumed';
+    const removedQuantity = Number(removalQuantity[id] ?? String(current.quantity));
+    if (Number.isNaN(removedQuantity) || removedQuantity <= 0) {
+      setError('Removed quantity must be a positive number.');
+      return;
+    }
+    if (removedQuantity > current.quantity) {
+      setError(
+        `Only ${formatQuantity(current.quantity, current.unit)} of ${current.displayName} is in the pantry.`,
+      );
+      return;
+    }
+
+    try {
+      const remaining = await removePantryQuantity(id, outcome, removedQuantity);
+      setIngredients((prev) =>
+        remaining
+          ? prev.map((item) => (item.id === id ? remaining : item))
+          : prev.filter((item) => item.id !== id),
+      );
+      setEditQuantity((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      setRemovalQuantity((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      setOpenRemovalId(null);
+      setError(null);
+    } catch (removeError) {
+      setError(removeError instanceof Error ? removeError.message : 'Could not remove ingredient.');
+    }
   }
 
   function confirmAndRemoveIngredient(id: string, displayName: string) {
-    const confirmed = window.confirm(`Delete "${displayName}" from pantry?`);
+    const confirmed = window.confirm(
+      `Delete "${displayName}" without recording what happened to it? Use this only for entries added by mistake.`,
+    );
     if (!confirmed) return;
-    removeIngredient(id);
+    void removeIngredient(id);
   }
 
-  function saveItemEdits(id: string) {
+  async function saveItemEdits(id: string) {
     const current = ingredients.find((item) => item.id === id);
     if (!current) return;
 
     const nextQuantityValue = editQuantity[id] ?? String(current.quantity);
-    const nextExpirationValue =
-      editExpiration[id] ?? toDateInputValue(current.overrideExpirationDate ?? current.computedExpirationDate);
+    const currentExpirationValue = toDateInputValue(
+      current.overrideExpirationDate ?? current.computedExpirationDate,
+    );
+    const nextExpirationValue = editExpiration[id] ?? currentExpirationValue;
 
     const nextQuantity = Number(nextQuantityValue);
     if (Number.isNaN(nextQuantity) || nextQuantity <= 0) {
@@ -224,20 +470,177 @@ export default function HomePage() {
       return;
     }
 
-    setIngredients((prev) =>
-      prev.map((item) => {
-        if (item.id !== id) return item;
-        return {
-          ...item,
-          quantity: nextQuantity,
-          overrideExpirationDate: nextExpirationValue
-            ? new Date(nextExpirationValue).toISOString()
-            : undefined,
-          updatedAt: new Date().toISOString(),
-        };
-      }),
+    // Unchanged fields are left out so lots keep their own quantities and expiration dates.
+    const patch: InventoryItemPatch = {};
+    if (nextQuantity !== current.quantity) patch.quantity = nextQuantity;
+    if (nextExpirationValue !== currentExpirationValue) {
+      patch.overrideExpirationDate = nextExpirationValue
+        ? new Date(nextExpirationValue).toISOString()
+        : null;
+    }
+
+    try {
+      const updated = await updatePantryItem(id, patch);
+      setIngredients((prev) => prev.map((item) => (item.id === id ? updated : item)));
+      setError(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Could not update ingredient.');
+    }
+  }
+
+  async function moveIngredient(id: string, nextLocation: StorageLocation) {
+    const current = ingredients.find((item) => item.id === id);
+    if (!current || current.storageLocation === nextLocation) return;
+
+    try {
+      const updated = await updatePantryItem(id, buildStorageMovePatch(current, nextLocation));
+      setIngredients((prev) => prev.map((item) => (item.id === id ? updated : item)));
+      setEditExpiration((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      setError(null);
+    } catch (moveError) {
+      setError(moveError instanceof Error ? moveError.message : 'Could not move ingredient.');
+    }
+  }
+
+  async function markIngredientOpened(id: string) {
+    const current = ingredients.find((item) => item.id === id);
+    if (!current || current.lots.every((lot) => lot.openedAt)) return;
+
+    try {
+      // Local opened shelf-life defaults apply when the estimate service is unavailable.
+      const shelfLifePayload = await requestShelfLife({
+        name: current.displayName,
+        canonicalName: current.canonicalName,
+        storageLocation: current.storageLocation,
+      }).catch(() => null);
+      const openedShelfLifeDaysOverride =
+        shelfLifePayload?.openedShelfLifeByCanonical?.[current.canonicalName];
+
+      const updated = await updatePantryItem(
+        id,
+        buildMarkOpenedPatch(current, { openedShelfLifeDaysOverride }),
+      );
+      setIngredients((prev) => prev.map((item) => (item.id === id ? updated : item)));
+      setError(null);
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : 'Could not mark ingredient opened.');
+    }
+  }
+
+  function toggleEquipment(item: Equipment) {
+    setEquipment((prev) =>
+      prev.includes(item) ? prev.filter((entry) => entry !== item) : [...prev, item],
     );
+  }
+
+  function toggleDiet(diet: Diet) {
+    setProfile((prev) => ({
+      ...prev,
+      diets: prev.diets.includes(diet)
+        ? prev.diets.filter((entry) => entry !== diet)
+        : [...prev.diets, diet],
+    }));
+  }
+
+  function toggleAllergen(allergen: Allergen) {
+    setProfile((prev) => ({
+      ...prev,
+      allergens: prev.allergens.includes(allergen)
+        ? prev.allergens.filter((entry) => entry !== allergen)
+        : [...prev.allergens, allergen],
+    }));
+  }
+
+  async function saveProfile() {
+    try {
+      setIsSavingProfile(true);
+      const saved = await saveHouseholdProfile({
+        ...profile,
+        dislikes: dislikesInput.split(','),
+      });
+      setProfile(saved);
+      setDislikesInput(saved.dislikes.join(', '));
+      setError(null);
+    } catch (profileError) {
+      setError(
+        profileError instanceof Error ? profileError.message : 'Could not save household profile.',
+      );
+    } finally {
+      setIsSavingProfile(false);
+    }
+  }
+
+  function openCookingPlan(recipe: RecipeSuggestion) {
+    const plan = planRecipeDeductions(recipe, ingredients);
+    setCookingTitle(recipe.title);
+    setCookingPlan(plan);
+    setCookAmounts(
+      Object.fromEntries(
+        plan.flatMap((line) => (line.item ? [[line.item.id, String(line.quantity)]] : [])),
+      ),
+    );
+  }
+
+  async function addRecipeToShoppingList(recipe: RecipeSuggestion) {
+    const entries = shoppingEntriesForRecipe(recipe);
+    if (entries.length === 0) return;
     setError(null);
+    try {
+      await addToShoppingList(entries);
+      setShoppingAddedTitles((prev) => [...prev, recipe.title]);
+    } catch (shoppingError) {
+      setError(
+        shoppingError instanceof Error ? shoppingError.message : 'Could not update the shopping list.',
+      );
+    }
+  }
+
+  function closeCookingPlan() {
+    setCookingTitle(null);
+    setCookingPlan([]);
+    setCookAmounts({});
+  }
+
+  async function cookSelectedRecipe() {
+    if (!cookingTitle) return;
+
+    const used: CookedIngredient[] = [];
+    for (const line of cookingPlan) {
+      if (!line.item) continue;
+      const amount = Number(cookAmounts[line.item.id] ?? '0');
+      if (Number.isNaN(amount) || amount < 0) {
+        setError('Cooked amounts must be zero or a positive number.');
+        return;
+      }
+      if (amount > line.item.quantity) {
+        setError(
+          `Only ${formatQuantity(line.item.quantity, line.item.unit)} of ${line.item.displayName} is in the pantry.`,
+        );
+        return;
+      }
+      if (amount > 0) used.push({ itemId: line.item.id, quantity: amount });
+    }
+    if (used.length === 0) {
+      setError('Set an amount for at least one ingredient, or cancel.');
+      return;
+    }
+
+    try {
+      setIsCooking(true);
+      const items = await cookRecipe(cookingTitle, used);
+      setIngredients(items);
+      setRankedIngredients(rankExpiringIngredients(items).slice(0, 10));
+      closeCookingPlan();
+      setError(null);
+    } catch (cookError) {
+      setError(cookError instanceof Error ? cookError.message : 'Could not record cooked recipe.');
+    } finally {
+      setIsCooking(false);
+    }
   }
 
   async function generateRecipe() {
@@ -246,6 +649,19 @@ export default function HomePage() {
       return;
     }
 
+    const constraints: RecipeConstraints = {};
+    if (maxMinutes.trim()) constraints.maxMinutes = Number(maxMinutes);
+    if (servings.trim()) constraints.servings = Number(servings);
+    // Every box ticked means any equipment will do.
+    if (equipment.length < EQUIPMENT.length) constraints.equipment = equipment;
+    if (
+      (constraints.maxMinutes !== undefined && !(constraints.maxMinutes > 0)) ||
+      (constraints.servings !== undefined && !(constraints.servings > 0))
+    ) {
+      setError('Max minutes and servings must be positive numbers.');
+      return;
+    }
+
     setIsGenerating(true);
     setError(null);
 
@@ -257,8 +673,8 @@ export default function HomePage() {
       });
       const response = await fetch('/api/recipes', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pantry: ingredients, preferences }),
+        headers: { 'Content-Type': 'application/json', Accept: RECIPE_STREAM_CONTENT_TYPE },
+        body: JSON.stringify({ pantry: ingredients, preferences, constraints }),
       });
       console.info('[client] response', {
         endpoint: '/api/recipes',
@@ -266,18 +682,26 @@ export default function HomePage() {
         ok: response.ok,
       });
 
-      const payload = (await response.json()) as RecipeApiPayload;
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const payload = (await response.json()) as RecipeApiPayload;
         throw new Error(payload.error ?? 'Recipe generation failed.');
       }
 
-      setRecipes(payload.recipes ?? []);
-      setRankedIngredients(payload.rankedIngredients ?? []);
-      setRecipeSource(payload.source ?? null);
-
-      if (payload.warning) {
-        setError(payload.warning);
-      }
+      // Cards are shown one by one as the server finishes each recipe.
+      setRecipes([]);
+      setRecipeSource(null);
+      await readRecipeStream(response.body, (event) => {
+        if (event.type === 'ranked') {
+          setRankedIngredients(event.rankedIngredients);
+        } else if (event.type === 'recipe') {
+          setRecipes((prev) => [...prev, event.recipe]);
+        } else if (event.type === 'done') {
+          setRecipeSource(event.source);
+          if (event.warning) setError(event.warning);
+        } else {
+          throw new Error(event.error);
+        }
+      });
     } catch (requestError) {
       setError(
         requestError instanceof Error
@@ -301,6 +725,15 @@ export default function HomePage() {
           <Link href="/scan" className="ghostButton">
             Receipt scanner
           </Link>
+          <Link href="/plan" className="ghostButton">
+            Meal plan
+          </Link>
+          <Link href="/shopping" className="ghostButton">
+            Shopping list
+          </Link>
+          <Link href="/insights" className="ghostButton">
+            Waste insights
+          </Link>
         </div>
       </section>
 
@@ -324,11 +757,27 @@ export default function HomePage() {
             </label>
             <label>
               Unit
-              <input
-                placeholder="kg, L, item"
-                value={unit}
-                onChange={(event) => setUnit(event.target.value)}
-              />
+              <select value={unit} onChange={(event) => setUnit(event.target.value as Unit)}>
+                {UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Storage
+              <select
+                value={storageLocation}
+                onChange={(event) => setStorageLocation(event.target.value as StorageLocation | '')}
+              >
+                <option value="">Auto</option>
+                {STORAGE_LOCATIONS.map((location) => (
+                  <option key={location} value={location}>
+                    {STORAGE_LOCATION_LABELS[location]}
+                  </option>
+                ))}
+              </select>
             </label>
             <label>
               Expiration override (optional)
@@ -345,7 +794,25 @@ export default function HomePage() {
         </article>
 
         <article className="panel pantryPanel">
-          <h2>My pantry</h2>
+          <div className="pantryHeader">
+            <h2>My pantry</h2>
+            <label className="inlineSetting">
+              Show quantities in
+              <select
+                value={unitSystem}
+                onChange={(event) => changeUnitSystem(event.target.value as UnitSystem)}
+              >
+                {UNIT_SYSTEMS.map((system) => (
+                  <option key={system} value={system}>
+                    {UNIT_SYSTEM_LABELS[system]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {isPantryOffline ? (
+              <p className="muted">Pantry server unavailable. Showing your last cached pantry.</p>
+            ) : null}
+          </div>
           <div className="pantryContent">
             {sortedIngredients.length === 0 ? (
               <p className="muted">No ingredients yet.</p>
@@ -365,12 +832,29 @@ export default function HomePage() {
                           {ingredient.displayName} ({ingredient.canonicalName})
                         </p>
                         <p className="muted">
-                          Bought {formatDate(ingredient.purchaseDate)} · source: {ingredient.source}
+                          {formatQuantity(ingredient.quantity, ingredient.unit, unitSystem)} · Bought{' '}
+                          {formatDate(ingredient.purchaseDate)} · source: {ingredient.source} ·{' '}
+                          {STORAGE_LOCATION_LABELS[ingredient.storageLocation]}
+                          {ingredient.openedAt ? ` · opened ${formatDate(ingredient.openedAt)}` : ''}
+                          {typeof ingredient.unitPrice === 'number'
+                            ? ` · ${formatUnitPrice(ingredient, unitSystem)}`
+                            : ''}
                         </p>
+                        {ingredient.lots.length > 1 ? (
+                          <ul className="lotList">
+                            {ingredient.lots.map((lot) => (
+                              <li key={lot.id} className="muted">
+                                {formatQuantity(lot.quantity, ingredient.unit, unitSystem)} bought{' '}
+                                {formatDate(lot.purchaseDate)}, use by {formatDate(lotExpirationDate(lot))}
+                                {lot.openedAt ? ' (opened)' : ''}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
                         {openEditorId === ingredient.id ? (
                           <div className="inlineEdits">
                             <label>
-                              Qty
+                              Qty ({ingredient.unit})
                               <input
                                 type="number"
                                 min="0"
@@ -399,14 +883,99 @@ export default function HomePage() {
                                 }
                               />
                             </label>
+                            <label>
+                              Stored in
+                              <select
+                                value={ingredient.storageLocation}
+                                onChange={(event) =>
+                                  void moveIngredient(
+                                    ingredient.id,
+                                    event.target.value as StorageLocation,
+                                  )
+                                }
+                              >
+                                {STORAGE_LOCATIONS.map((location) => (
+                                  <option key={location} value={location}>
+                                    {STORAGE_LOCATION_LABELS[location]}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
                             <div className="editActions">
                               <button
                                 type="button"
                                 className="primaryButton"
-                                onClick={() => saveItemEdits(ingredient.id)}
+                                onClick={() => void saveItemEdits(ingredient.id)}
                               >
                                 Save
                               </button>
+                              {ingredient.lots.every((lot) => lot.openedAt) ? null : (
+                                <button
+                                  type="button"
+                                  className="primaryButton"
+                                  onClick={() => void markIngredientOpened(ingredient.id)}
+                                >
+                                  Mark opened
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        ) : null}
+                        {openRemovalId === ingredient.id ? (
+                          <div className="inlineEdits">
+                            <label>
+                              What happened?
+                              <select
+                                value={removalOutcome[ingredient.id] ?? 'consumed'}
+                                onChange={(event) =>
+                                  setRemovalOutcome((prev) => ({
+                                    ...prev,
+                                    [ingredient.id]: event.target.value as RemovalOutcome,
+                                  }))
+                                }
+                              >
+                                {REMOVAL_OUTCOMES.map((outcome) => (
+                                  <option key={outcome} value={outcome}>
+                                    {REMOVAL_OUTCOME_LABELS[outcome]}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            <label>
+                              Qty ({ingredient.unit})
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={removalQuantity[ingredient.id] ?? String(ingredient.quantity)}
+                                onChange={(event) =>
+                                  setRemovalQuantity((prev) => ({
+                                    ...prev,
+                                    [ingredient.id]: event.target.value,
+                                  }))
+                                }
+                              />
+                            </label>
+                            {ingredient.lots.length > 1 ? (
+                              <p className="muted">Taken from the oldest lot first.</p>
+                            ) : null}
+                            <div className="editActions">
+                              <button
+                                type="button"
+                                className="primaryButton"
+                                onClick={() => void recordRemoval(ingredient.id)}
+                              >
+                                Record
+                              </button>
+                              <button
+                                type="button"
+                                className="dangerButton"
+                                onClick={() =>
+                                  confirmAndRemoveIngredient(ingredient.id, ingredient.displayName)
+                                }
+                              >
+                                Delete entry
+                              </button>
                             </div>
                           </div>
                         ) : null}
@@ -430,9 +999,9 @@ export default function HomePage() {
                         <button
                           type="button"
                           className="iconButton deleteIconButton"
-                          aria-label={`Delete ${ingredient.displayName}`}
+                          aria-label={`Remove ${ingredient.displayName}`}
                           onClick={() =>
-                            confirmAndRemoveIngredient(ingredient.id, ingredient.displayName)
+                            setOpenRemovalId((prev) => (prev === ingredient.id ? null : ingredient.id))
                           }
                         >
                           🗑
@@ -469,6 +1038,94 @@ export default function HomePage() {
           />
         </label>
 
+        <div className="recipeConstraints">
+          <label>
+            Max minutes
+            <input
+              type="number"
+              min="1"
+              placeholder="Any"
+              value={maxMinutes}
+              onChange={(event) => setMaxMinutes(event.target.value)}
+            />
+          </label>
+          <label>
+            Servings
+            <input
+              type="number"
+              min="1"
+              placeholder="As written"
+              value={servings}
+              onChange={(event) => setServings(event.target.value)}
+            />
+          </label>
+        </div>
+        <p className="muted">Equipment available</p>
+        <div className="checkboxGroup">
+          {EQUIPMENT.map((item) => (
+            <label key={item} className="checkboxLabel">
+              <input
+                type="checkbox"
+                checked={equipment.includes(item)}
+                onChange={() => toggleEquipment(item)}
+              />
+              {item}
+            </label>
+          ))}
+        </div>
+
+        <details className="collapsiblePanel">
+          <summary>Household profile{summarizeProfile(profile)}</summary>
+          <p className="muted">
+            Recipes that break these rules are never suggested, whether they come from the model or
+            the local library.
+          </p>
+          <div className="panelForm">
+            <p className="muted">Diets</p>
+            <div className="checkboxGroup">
+              {DIETS.map((diet) => (
+                <label key={diet} className="checkboxLabel">
+                  <input
+                    type="checkbox"
+                    checked={profile.diets.includes(diet)}
+                    onChange={() => toggleDiet(diet)}
+                  />
+                  {diet}
+                </label>
+              ))}
+            </div>
+            <p className="muted">Allergies</p>
+            <div className="checkboxGroup">
+              {ALLERGENS.map((allergen) => (
+                <label key={allergen} className="checkboxLabel">
+                  <input
+                    type="checkbox"
+                    checked={profile.allergens.includes(allergen)}
+                    onChange={() => toggleAllergen(allergen)}
+                  />
+                  {allergen}
+                </label>
+              ))}
+            </div>
+            <label>
+              Disliked ingredients (comma separated)
+              <input
+                placeholder="cilantro, mushroom"
+                value={dislikesInput}
+                onChange={(event) => setDislikesInput(event.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              className="primaryButton"
+              onClick={() => void saveProfile()}
+              disabled={isSavingProfile}
+            >
+              {isSavingProfile ? 'Saving...' : 'Save profile'}
+            </button>
+          </div>
+        </details>
+
         {rankedIngredients.length > 0 ? (
           <div className="rankedList">
             <p className="muted">Urgency ranking:</p>
@@ -492,19 +1149,112 @@ export default function HomePage() {
                 <p>
                   <strong>Missing:</strong> {recipe.missingIngredients.join(', ') || 'None'}
                 </p>
+                {recipe.ingredients.length > 0 ? (
+                  <ul className="recipeIngredients">
+                    {checkRecipeIngredients(recipe, ingredients).map(
+                      ({ ingredient, have, shortfall }, index) => (
+                        <li
+                          key={`${ingredient.canonicalName}-${index}`}
+                          className={shortfall ? 'shortfall' : undefined}
+                        >
+                          {ingredient.canonicalName}: have{' '}
+                          {have ? formatQuantity(have.quantity, have.unit, unitSystem) : 'none'} / need{' '}
+                          {formatQuantity(ingredient.quantity, ingredient.unit, unitSystem)}
+                          {shortfall ? ' (short)' : ''}
+                        </li>
+                      ),
+                    )}
+                  </ul>
+                ) : null}
                 <p>
-                  <strong>Time:</strong> {recipe.estimatedCookingTimeMinutes} min
+                  <strong>Time:</strong> {recipe.estimatedCookingTimeMinutes} min ·{' '}
+                  <strong>Serves:</strong> {recipe.servings} · <strong>Equipment:</strong>{' '}
+                  {recipe.equipment.join(', ') || 'none'}
                 </p>
                 <ol>
                   {recipe.steps.map((step) => (
                     <li key={step}>{step}</li>
                   ))}
                 </ol>
+                {cookingTitle === recipe.title ? (
+                  <div className="cookPlan">
+                    <p className="muted">Amounts to take out of the pantry (0 keeps an item):</p>
+                    {cookingPlan.map((line) =>
+                      line.item ? (
+                        <label key={line.item.id} className="cookPlanLine">
+                          {line.ingredientName}: {line.item.displayName} (
+                          {formatQuantity(line.item.quantity, line.item.unit)} left)
+                          <span className="cookPlanAmount">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              max={line.item.quantity}
+                              value={cookAmounts[line.item.id] ?? '0'}
+                              onChange={(event) => {
+                                const itemId = line.item?.id;
+                                if (!itemId) return;
+                                setCookAmounts((prev) => ({ ...prev, [itemId]: event.target.value }));
+                              }}
+                            />
+                            {line.item.unit}
+                          </span>
+                          {line.needsAmount ? (
+                            <span className="muted">
+                              No recipe amount in {line.item.unit}; enter how much you used.
+                            </span>
+                          ) : null}
+                        </label>
+                      ) : (
+                        <p key={line.ingredientName} className="muted">
+                          {line.ingredientName}: not in the pantry
+                        </p>
+                      ),
+                    )}
+                    <div className="rowButtons">
+                      <button
+                        type="button"
+                        className="primaryButton"
+                        onClick={() => void cookSelectedRecipe()}
+                        disabled={isCooking}
+                      >
+                        {isCooking ? 'Updating pantry...' : 'Deduct from pantry'}
+                      </button>
+                      <button type="button" className="primaryButton" onClick={closeCookingPlan}>
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="rowButtons">
+                    <button
+                      type="button"
+                      className="primaryButton"
+                      onClick={() => openCookingPlan(recipe)}
+                    >
+                      Cook this
+                    </button>
+                    {shoppingEntriesForRecipe(recipe).length > 0 ? (
+                      <button
+                        type="button"
+                        className="primaryButton"
+                        onClick={() => void addRecipeToShoppingList(recipe)}
+                        disabled={shoppingAddedTitles.includes(recipe.title)}
+                      >
+                        {shoppingAddedTitles.includes(recipe.title)
+                          ? 'On the shopping list'
+                          : 'Add missing to shopping list'}
+                      </button>
+                    ) : null}
+                  </div>
+                )}
               </article>
             ))}
           </div>
         ) : (
-          <p className="muted">No recipes generated yet.</p>
+          <p className="muted">
+            {isGenerating ? 'Waiting for the first recipe...' : 'No recipes generated yet.'}
+          </p>
         )}
 
         {recipeSource ? <p className="muted">Recipe source: {recipeSource}</p> : null}
@@ -0,0 +1,342 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { UNIT_SYSTEM_STORAGE_KEY } from '@/lib/constants';
+import { buildMealPlan, fetchMealPlan, saveLockedDays } from '@/lib/mealPlanApi';
+import { loadPantryFromStorage } from '@/lib/pantry';
+import { fetchPantry } from '@/lib/pantryApi';
+import { EQUIPMENT } from '@/lib/recipeConstraints';
+import { shoppingEntriesForMealPlan } from '@/lib/shoppingList';
+import { addToShoppingList } from '@/lib/shoppingListApi';
+import { DEFAULT_UNIT_SYSTEM, formatQuantity, isUnitSystem } from '@/lib/units';
+import type { UnitSystem } from '@/lib/units';
+import type {
+  Equipment,
+  InventoryItem,
+  MealPlan,
+  MealPlanDay,
+  RecipeConstraints,
+} from '@/lib/types';
+
+function formatDay(date: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
+export default function MealPlanPage() {
+  const [pantry, setPantry] = useState<InventoryItem[]>([]);
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [maxMinutes, setMaxMinutes] = useState('');
+  const [servings, setServings] = useState('');
+  const [equipment, setEquipment] = useState<Equipment[]>(EQUIPMENT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyDate, setBusyDate] = useState<string | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [shoppingMessage, setShoppingMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadPlan() {
+      const storedUnitSystem = window.localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY);
+      if (isUnitSystem(storedUnitSystem)) setUnitSystem(storedUnitSystem);
+      try {
+        const [items, saved] = await Promise.all([
+          fetchPantry().catch(() => loadPantryFromStorage()),
+          fetchMealPlan(),
+        ]);
+        if (cancelled) return;
+        setPantry(items);
+        setPlan(saved);
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : 'Could not load the meal plan.');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    void loadPlan();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function toggleEquipment(item: Equipment) {
+    setEquipment((prev) =>
+      prev.includes(item) ? prev.filter((entry) => entry !== item) : [...prev, item],
+    );
+  }
+
+  function readConstraints(): RecipeConstraints | null {
+    const constraints: RecipeConstraints = {};
+    if (maxMinutes.trim()) constraints.maxMinutes = Number(maxMinutes);
+    if (servings.trim()) constraints.servings = Number(servings);
+    // Every box ticked means any equipment will do.
+    if (equipment.length < EQUIPMENT.length) constraints.equipment = equipment;
+    if (
+      (constraints.maxMinutes !== undefined && !(constraints.maxMinutes > 0)) ||
+      (constraints.servings !== undefined && !(constraints.servings > 0))
+    ) {
+      setError('Max minutes and servings must be positive numbers.');
+      return null;
+    }
+    return constraints;
+  }
+
+  async function rebuildPlan(keep: MealPlanDay[], avoidTitles: string[], date: string | null) {
+    if (pantry.length === 0) {
+      setError('Add ingredients to the pantry before planning meals.');
+      return;
+    }
+    const constraints = readConstraints();
+    if (!constraints) return;
+
+    setIsBuilding(true);
+    setBusyDate(date);
+    setError(null);
+    try {
+      const result = await buildMealPlan({ pantry, constraints, keep, avoidTitles });
+      setPlan(result.plan);
+      setWarning(result.warning ?? null);
+    } catch (buildError) {
+      setError(buildError instanceof Error ? buildError.message : 'Could not build the meal plan.');
+    } finally {
+      setIsBuilding(false);
+      setBusyDate(null);
+    }
+  }
+
+  function regeneratePlan() {
+    void rebuildPlan(plan?.days.filter((day) => day.locked) ?? [], [], null);
+  }
+
+  // Every other day is kept as it is, so only this one gets a new dinner.
+  function swapDay(day: MealPlanDay) {
+    if (!plan) return;
+    void rebuildPlan(
+      plan.days.filter((entry) => entry.date !== day.date),
+      day.recipe ? [day.recipe.title] : [],
+      day.date,
+    );
+  }
+
+  async function toggleLock(day: MealPlanDay) {
+    if (!plan) return;
+    const lockedDates = plan.days
+      .filter((entry) => (entry.date === day.date ? !entry.locked : entry.locked))
+      .map((entry) => entry.date);
+    setBusyDate(day.date);
+    setError(null);
+    try {
+      setPlan(await saveLockedDays(lockedDates));
+    } catch (lockError) {
+      setError(lockError instanceof Error ? lockError.message : 'Could not save the meal plan.');
+    } finally {
+      setBusyDate(null);
+    }
+  }
+
+  async function addPlanToShoppingList() {
+    if (!plan) return;
+    const entries = shoppingEntriesForMealPlan(plan);
+    if (entries.length === 0) {
+      setShoppingMessage('Every dinner can be cooked from the pantry.');
+      return;
+    }
+    setError(null);
+    try {
+      await addToShoppingList(entries);
+      setShoppingMessage(`Added ${entries.length} missing ingredient(s) to the shopping list.`);
+    } catch (shoppingError) {
+      setError(
+        shoppingError instanceof Error ? shoppingError.message : 'Could not update the shopping list.',
+      );
+    }
+  }
+
+  return (
+    <main className="shell">
+      <section className="hero compact">
+        <p className="eyebrow">Meal Plan</p>
+        <h1>A week of dinners that uses the pantry up</h1>
+        <p>
+          Each dinner is picked so ingredients are cooked before they expire. Lock the days you like,
+          swap the ones you do not, and rebuild the rest.
+        </p>
+        <Link href="/" className="ghostButton">
+          Back to pantry
+        </Link>
+      </section>
+
+      <section className="panel recipePanel">
+        <div className="recipeHeader">
+          <h2>Next 7 days</h2>
+          <button
+            type="button"
+            className="primaryButton"
+            onClick={regeneratePlan}
+            disabled={isBuilding || isLoading}
+          >
+            {isBuilding && !busyDate ? 'Planning...' : plan ? 'Regenerate unlocked days' : 'Plan the week'}
+          </button>
+        </div>
+
+        <div className="recipeConstraints">
+          <label>
+            Max minutes
+            <input
+              type="number"
+              min="1"
+              placeholder="Any"
+              value={maxMinutes}
+              onChange={(event) => setMaxMinutes(event.target.value)}
+            />
+          </label>
+          <label>
+            Servings
+            <input
+              type="number"
+              min="1"
+              placeholder="As written"
+              value={servings}
+              onChange={(event) => setServings(event.target.value)}
+            />
+          </label>
+        </div>
+        <p className="muted">Equipment available</p>
+        <div className="checkboxGroup">
+          {EQUIPMENT.map((item) => (
+            <label key={item} className="checkboxLabel">
+              <input
+                type="checkbox"
+                checked={equipment.includes(item)}
+                onChange={() => toggleEquipment(item)}
+              />
+              {item}
+            </label>
+          ))}
+        </div>
+
+        {isLoading ? <p className="muted">Loading meal plan...</p> : null}
+        {!isLoading && !plan ? (
+          <p className="muted">No plan yet. {pantry.length} pantry item(s) to plan around.</p>
+        ) : null}
+        {warning ? <p className="warningText">{warning}</p> : null}
+
+        {plan ? (
+          <div className="recipeCards">
+            {plan.days.map((day) => (
+              <article key={day.date} className={day.locked ? 'recipeCard locked' : 'recipeCard'}>
+                <p className="eyebrow">
+                  {formatDay(day.date)}
+                  {day.locked ? ' · locked' : ''}
+                </p>
+                {day.recipe ? (
+                  <>
+                    <h3>{day.recipe.title}</h3>
+                    <p>
+                      <strong>Uses:</strong>{' '}
+                      {day.uses
+                        .map(
+                          (use) =>
+                            `${use.displayName} ${formatQuantity(use.quantity, use.unit, unitSystem)}`,
+                        )
+                        .join(', ') || 'nothing from the pantry'}
+                    </p>
+                    <p>
+                      <strong>Missing:</strong> {day.recipe.missingIngredients.join(', ') || 'None'}
+                    </p>
+                    <p>
+                      <strong>Time:</strong> {day.recipe.estimatedCookingTimeMinutes} min ·{' '}
+                      <strong>Serves:</strong> {day.recipe.servings}
+                    </p>
+                    <details>
+                      <summary>Steps</summary>
+                      <ol>
+                        {day.recipe.steps.map((step) => (
+                          <li key={step}>{step}</li>
+                        ))}
+                      </ol>
+                    </details>
+                  </>
+                ) : (
+                  <p className="muted">No recipe fits the pantry for this day.</p>
+                )}
+                <div className="rowButtons">
+                  <button
+                    type="button"
+                    className="primaryButton"
+                    onClick={() => void toggleLock(day)}
+                    disabled={busyDate !== null || isBuilding}
+                  >
+                    {day.locked ? 'Unlock' : 'Lock'}
+                  </button>
+                  <button
+                    type="button"
+                    className="primaryButton"
+                    onClick={() => swapDay(day)}
+                    disabled={day.locked || busyDate !== null || isBuilding}
+                  >
+                    {busyDate === day.date && isBuilding ? 'Swapping...' : 'Swap'}
+                  </button>
+                </div>
+              </article>
+            ))}
+          </div>
+        ) : null}
+
+        {plan ? (
+          <>
+            <div className="rowButtons">
+              <button
+                type="button"
+                className="primaryButton"
+                onClick={() => void addPlanToShoppingList()}
+              >
+                Add missing ingredients to shopping list
+              </button>
+              <Link href="/shopping" className="primaryButton">
+                Open shopping list
+              </Link>
+            </div>
+            {shoppingMessage ? <p className="muted">{shoppingMessage}</p> : null}
+            <p className="muted">
+              Planned {new Date(plan.updatedAt).toLocaleString()} · Recipe source: {plan.source}
+            </p>
+          </>
+        ) : null}
+      </section>
+
+      {plan ? (
+        <section className="panel">
+          <h2>Projected waste</h2>
+          {plan.projectedWaste.length === 0 ? (
+            <p className="muted">Every ingredient expiring this week has a dinner that uses it.</p>
+          ) : (
+            <ul className="insightList">
+              {plan.projectedWaste.map((entry) => (
+                <li key={entry.itemId}>
+                  <strong>{entry.displayName}</strong>{' '}
+                  {formatQuantity(entry.quantity, entry.unit, unitSystem)} left unused, expires{' '}
+                  {formatDay(entry.expiresOn)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ) : null}
+
+      {error ? <p className="errorText">{error}</p> : null}
+    </main>
+  );
+}
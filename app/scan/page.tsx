@@ -3,43 +3,134 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { ChangeEvent, useEffect, useRef, useState } from 'react';
-import { PARSED_RECEIPT_STORAGE_KEY } from '@/lib/constants';
-import { createInventoryItem, loadPantryFromStorage, savePantryToStorage } from '@/lib/pantry';
-import { canonicalizeIngredient } from '@/lib/shelfLife';
-import type { ParsedReceiptItem } from '@/lib/types';
+import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { deleteAlias, fetchAliases, saveAliases } from '@/lib/aliasApi';
+import type { AliasCorrection } from '@/lib/aliases';
+import { PARSED_RECEIPT_STORAGE_KEY, PARSED_RECEIPT_SUMMARY_STORAGE_KEY } from '@/lib/constants';
+import { createInventoryItem, savePantryToStorage } from '@/lib/pantry';
+import { importPantryItems } from '@/lib/pantryApi';
+import { learnProduct, lookupProduct } from '@/lib/productApi';
+import {
+  formatMoney,
+  normalizeCurrency,
+  roundMoney,
+  roundUnitPrice,
+  toPrice,
+  toUnitPrice,
+} from '@/lib/pricing';
+import {
+  createReceiptDictionary,
+  deleteReceiptDictionary,
+  fetchReceiptDictionaries,
+} from '@/lib/receiptDictionaryApi';
+import { parseAbbreviationLines } from '@/lib/receiptDictionaries';
+import { reconcileReceipt } from '@/lib/receiptParser';
+import { canonicalizeIngredient, defaultStorageLocation } from '@/lib/shelfLife';
+import { UNITS } from '@/lib/units';
+import type { LlmProviderName } from '@/lib/llm';
+import type {
+  IngredientAlias,
+  ParsedReceipt,
+  ParsedReceiptItem,
+  Product,
+  ReceiptDictionary,
+  StorageLocation,
+  Unit,
+} from '@/lib/types';
+
+type ReceiptSummary = Omit<ParsedReceipt, 'items' | 'reconciliation'>;
 
 type ParseResponse = {
   items?: ParsedReceiptItem[];
+  receipt?: ParsedReceipt;
   error?: string;
 };
 
 type OcrResponse = {
   purchaseDate?: string;
+  receipt?: ParsedReceipt;
   rawText?: string;
   groceryLines?: string[];
   items?: ParsedReceiptItem[];
   error?: string;
 };
 
+type DigitalReceiptResponse = {
+  format?: 'eml' | 'html' | 'pdf' | 'text';
+  rawText?: string;
+  error?: string;
+};
+
 type ShelfLifeResponse = {
   shelfLifeByCanonical?: Record<string, number>;
-  provider?: 'openai' | 'fallback';
+  shelfLifeByLocation?: Record<string, Partial<Record<StorageLocation, number>>>;
+  provider?: LlmProviderName | 'fallback';
   warning?: string;
   debug?: {
-    openaiRequestAttempted: boolean;
-    openaiResponseOk: boolean;
-    openaiMatchedItems: number;
+    llmRequestAttempted: boolean;
+    llmResponseOk: boolean;
+    llmMatchedItems: number;
   };
   error?: string;
 };
 
-type EditableReceiptItem = ParsedReceiptItem & {
+// BarcodeDetector is not in the TypeScript DOM types yet.
+type DetectedBarcode = { rawValue: string };
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+};
+
+type CameraMode = 'receipt' | 'barcode';
+
+const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+const BARCODE_SCAN_INTERVAL_MS = 400;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  return (window as Window & { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+type ParsedMatch = Pick<ParsedReceiptItem, 'canonicalName' | 'displayName'>;
+
+type StoredReceiptItem = ParsedReceiptItem & {
+  // What the parser matched, so edits can be learned as aliases on import.
+  parsedAs?: ParsedMatch;
+};
+
+type EditableReceiptItem = StoredReceiptItem & {
   localId: string;
 };
 
-function withLocalIds(items: ParsedReceiptItem[]): EditableReceiptItem[] {
-  return items.map((item) => ({ ...item, localId: crypto.randomUUID() }));
+function withLocalIds(items: StoredReceiptItem[]): EditableReceiptItem[] {
+  return items.map((item) => ({
+    ...item,
+    parsedAs: item.parsedAs ?? { canonicalName: item.canonicalName, displayName: item.displayName },
+    localId: crypto.randomUUID(),
+  }));
+}
+
+function aliasCorrections(items: EditableReceiptItem[]): AliasCorrection[] {
+  return items.flatMap((item) => {
+    const displayName = item.displayName.trim();
+    if (!item.rawName || !item.parsedAs) return [];
+    if (
+      item.canonicalName === item.parsedAs.canonicalName &&
+      displayName === item.parsedAs.displayName
+    ) {
+      return [];
+    }
+    return [{ rawName: item.rawName, canonicalName: item.canonicalName, displayName }];
+  });
+}
+
+function toReceiptSummary(receipt: ParsedReceipt | undefined): ReceiptSummary | null {
+  if (!receipt) return null;
+  const { merchant, purchaseDate, subtotal, tax, total, currency, dictionaryId } = receipt;
+  return { merchant, purchaseDate, subtotal, tax, total, currency, dictionaryId };
+}
+
+function priceInputValue(value: number | undefined): string {
+  return value === undefined ? '' : String(value);
 }
 
 export default function ScanPage() {
@@ -47,6 +138,7 @@ export default function ScanPage() {
   const fallbackCameraInputRef = useRef<HTMLInputElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const cameraStreamRef = useRef<MediaStream | null>(null);
+  const addBarcodeRef = useRef<(code: string) => Promise<void>>(async () => undefined);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [parsedItems, setParsedItems] = useState<EditableReceiptItem[]>([]);
@@ -56,13 +148,30 @@ export default function ScanPage() {
   const [error, setError] = useState<string | null>(null);
   const [importedCount, setImportedCount] = useState(0);
   const [receiptPurchaseDate, setReceiptPurchaseDate] = useState<string | null>(null);
+  const [receiptSummary, setReceiptSummary] = useState<ReceiptSummary | null>(null);
   const [manualName, setManualName] = useState('');
   const [manualQuantity, setManualQuantity] = useState('1');
-  const [manualUnit, setManualUnit] = useState('item');
+  const [manualUnit, setManualUnit] = useState<Unit>('item');
   const [isStartingCamera, setIsStartingCamera] = useState(false);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('receipt');
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [newProductName, setNewProductName] = useState('');
+  const [newProductQuantity, setNewProductQuantity] = useState('1');
+  const [newProductUnit, setNewProductUnit] = useState<Unit>('item');
+  const [aliases, setAliases] = useState<IngredientAlias[]>([]);
+  const [digitalReceiptText, setDigitalReceiptText] = useState('');
+  const [isReadingDigitalReceipt, setIsReadingDigitalReceipt] = useState(false);
+  const [dictionaries, setDictionaries] = useState<ReceiptDictionary[]>([]);
+  // Empty means detect the store from the receipt header.
+  const [dictionaryId, setDictionaryId] = useState('');
+  const [newDictionaryMerchant, setNewDictionaryMerchant] = useState('');
+  const [newDictionaryMatchers, setNewDictionaryMatchers] = useState('');
+  const [newDictionaryAbbreviations, setNewDictionaryAbbreviations] = useState('');
 
-  function stopCamera(updateState = true) {
+  const stopCamera = useCallback((updateState = true) => {
     if (cameraStreamRef.current) {
       for (const track of cameraStreamRef.current.getTracks()) {
         track.stop();
@@ -75,15 +184,22 @@ export default function ScanPage() {
     if (updateState) {
       setIsCameraOpen(false);
     }
-  }
+  }, []);
 
-  async function startCamera() {
+  async function startCamera(mode: CameraMode = 'receipt') {
     if (!navigator.mediaDevices?.getUserMedia) {
-      fallbackCameraInputRef.current?.click();
+      if (mode === 'receipt') fallbackCameraInputRef.current?.click();
+      else setError('Camera is not available in this browser. Type the barcode number instead.');
+      return;
+    }
+    if (mode === 'barcode' && !getBarcodeDetector()) {
+      setError('This browser cannot read barcodes from the camera. Type the barcode number instead.');
       return;
     }
 
     try {
+      stopCamera();
+      setCameraMode(mode);
       setIsStartingCamera(true);
       setError(null);
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -95,7 +211,7 @@ export default function ScanPage() {
       setIsCameraOpen(true);
     } catch {
       setError('Could not access camera. Check browser permission and device camera settings.');
-      fallbackCameraInputRef.current?.click();
+      if (mode === 'receipt') fallbackCameraInputRef.current?.click();
     } finally {
       setIsStartingCamera(false);
     }
@@ -160,7 +276,7 @@ export default function ScanPage() {
     return () => {
       stopCamera(false);
     };
-  }, []);
+  }, [stopCamera]);
 
   useEffect(() => {
     if (!isCameraOpen || !videoRef.current || !cameraStreamRef.current) {
@@ -173,12 +289,70 @@ export default function ScanPage() {
     });
   }, [isCameraOpen]);
 
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!isCameraOpen || cameraMode !== 'barcode' || !BarcodeDetector) {
+      return;
+    }
+
+    const detector = new BarcodeDetector({ formats: BARCODE_FORMATS });
+    let isDetecting = false;
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (isDetecting || !video || video.readyState < 2) return;
+      isDetecting = true;
+      detector
+        .detect(video)
+        .then((barcodes) => {
+          const code = barcodes[0]?.rawValue;
+          if (!code) return;
+          window.clearInterval(timer);
+          stopCamera();
+          void addBarcodeRef.current(code);
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          isDetecting = false;
+        });
+    }, BARCODE_SCAN_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [isCameraOpen, cameraMode, stopCamera]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAliases()
+      .then((loaded) => {
+        if (!cancelled) setAliases(loaded);
+      })
+      .catch((aliasError) => {
+        console.warn('[client] aliases unavailable', {
+          error: aliasError instanceof Error ? aliasError.message : 'Could not load aliases.',
+        });
+      });
+    fetchReceiptDictionaries()
+      .then((loaded) => {
+        if (!cancelled) setDictionaries(loaded);
+      })
+      .catch((dictionaryError) => {
+        console.warn('[client] receipt dictionaries unavailable', {
+          error:
+            dictionaryError instanceof Error
+              ? dictionaryError.message
+              : 'Could not load receipt dictionaries.',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   useEffect(() => {
     const cached = window.localStorage.getItem(PARSED_RECEIPT_STORAGE_KEY);
     if (!cached) return;
 
     try {
-      const parsed = JSON.parse(cached) as ParsedReceiptItem[];
+      const parsed = JSON.parse(cached) as StoredReceiptItem[];
       if (Array.isArray(parsed)) {
         setParsedItems(withLocalIds(parsed));
         const purchaseDate = parsed.find((item) => item.purchaseDate)?.purchaseDate;
@@ -190,17 +364,44 @@ export default function ScanPage() {
     } catch {
       window.localStorage.removeItem(PARSED_RECEIPT_STORAGE_KEY);
     }
+
+    const cachedSummary = window.localStorage.getItem(PARSED_RECEIPT_SUMMARY_STORAGE_KEY);
+    if (!cachedSummary) return;
+    try {
+      setReceiptSummary(JSON.parse(cachedSummary) as ReceiptSummary);
+    } catch {
+      window.localStorage.removeItem(PARSED_RECEIPT_SUMMARY_STORAGE_KEY);
+    }
   }, []);
 
   useEffect(() => {
-    const serializableItems: ParsedReceiptItem[] = parsedItems.map((item) => ({
+    if (!receiptSummary) {
+      window.localStorage.removeItem(PARSED_RECEIPT_SUMMARY_STORAGE_KEY);
+      return;
+    }
+    window.localStorage.setItem(PARSED_RECEIPT_SUMMARY_STORAGE_KEY, JSON.stringify(receiptSummary));
+  }, [receiptSummary]);
+
+  const reconciliation = useMemo(
+    () => (receiptSummary ? reconcileReceipt(parsedItems, receiptSummary) : null),
+    [parsedItems, receiptSummary],
+  );
+
+  useEffect(() => {
+    const serializableItems: StoredReceiptItem[] = parsedItems.map((item) => ({
       rawLine: item.rawLine,
+      rawName: item.rawName,
       canonicalName: item.canonicalName,
       displayName: item.displayName,
       quantity: item.quantity,
       unit: item.unit,
       confidence: item.confidence,
+      candidates: item.candidates,
       purchaseDate: item.purchaseDate,
+      unitPrice: item.unitPrice,
+      lineTotal: item.lineTotal,
+      currency: item.currency,
+      parsedAs: item.parsedAs,
     }));
     if (serializableItems.length === 0) {
       window.localStorage.removeItem(PARSED_RECEIPT_STORAGE_KEY);
@@ -234,11 +435,12 @@ export default function ScanPage() {
       console.info('[client] request', {
         endpoint: '/api/receipts/parse',
         rawTextLength: text.trim().length,
+        dictionaryId: dictionaryId || null,
       });
       const response = await fetch('/api/receipts/parse', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ rawText: text }),
+        body: JSON.stringify({ rawText: text, dictionaryId: dictionaryId || undefined }),
       });
       console.info('[client] response', {
         endpoint: '/api/receipts/parse',
@@ -253,6 +455,10 @@ export default function ScanPage() {
 
       const nextItems = payload.items ?? [];
       setParsedItems(withLocalIds(nextItems));
+      setReceiptSummary(toReceiptSummary(payload.receipt));
+      if (payload.receipt?.purchaseDate) {
+        setReceiptPurchaseDate(payload.receipt.purchaseDate);
+      }
       window.localStorage.setItem(PARSED_RECEIPT_STORAGE_KEY, JSON.stringify(nextItems));
       setError(null);
     } catch (parseError) {
@@ -260,6 +466,53 @@ export default function ScanPage() {
     }
   }
 
+  // Emailed, HTML and PDF receipts already contain text, so they skip OCR and go straight to the
+  // text parser.
+  async function importDigitalReceipt(file: File | null) {
+    const pasted = digitalReceiptText.trim();
+    if (!file && !pasted) {
+      setError('Choose a receipt file or paste the receipt first.');
+      return;
+    }
+
+    setIsReadingDigitalReceipt(true);
+    setError(null);
+    try {
+      const body = file
+        ? { fileName: file.name, contentType: file.type, dataUrl: await fileToDataUrl(file) }
+        : { text: pasted };
+      console.info('[client] request', {
+        endpoint: '/api/receipts/digital',
+        fileName: file?.name ?? null,
+        pastedLength: file ? 0 : pasted.length,
+      });
+      const response = await fetch('/api/receipts/digital', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      console.info('[client] response', {
+        endpoint: '/api/receipts/digital',
+        status: response.status,
+        ok: response.ok,
+      });
+
+      const payload = (await response.json()) as DigitalReceiptResponse;
+      if (!response.ok || !payload.rawText) {
+        throw new Error(payload.error ?? 'Could not read digital receipt.');
+      }
+
+      setReceiptPurchaseDate(null);
+      await parseReceiptFromText(payload.rawText);
+      setHasCompletedOcr(true);
+      setDigitalReceiptText('');
+    } catch (digitalError) {
+      setError(digitalError instanceof Error ? digitalError.message : 'Could not read digital receipt.');
+    } finally {
+      setIsReadingDigitalReceipt(false);
+    }
+  }
+
   async function extractOcrText() {
     if (!selectedFile) {
       setError('Select a receipt image first.');
@@ -274,12 +527,13 @@ export default function ScanPage() {
       console.info('[client] request', {
         endpoint: '/api/receipts/ocr',
         hasImageDataUrl: Boolean(imageDataUrl),
+        dictionaryId: dictionaryId || null,
       });
 
       const response = await fetch('/api/receipts/ocr', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ imageDataUrl }),
+        body: JSON.stringify({ imageDataUrl, dictionaryId: dictionaryId || undefined }),
       });
       console.info('[client] response', {
         endpoint: '/api/receipts/ocr',
@@ -299,6 +553,7 @@ export default function ScanPage() {
           purchaseDate: item.purchaseDate ?? payload.purchaseDate,
         }));
         setParsedItems(withLocalIds(normalizedItems));
+        setReceiptSummary(toReceiptSummary(payload.receipt));
         window.localStorage.setItem(PARSED_RECEIPT_STORAGE_KEY, JSON.stringify(normalizedItems));
         setReceiptPurchaseDate(payload.purchaseDate ?? null);
         setError(null);
@@ -328,6 +583,95 @@ export default function ScanPage() {
     );
   }
 
+  function renameParsedItem(localId: string, displayName: string) {
+    const { canonicalName, confidence, candidates } = canonicalizeIngredient(displayName, aliases);
+    updateParsedItem(localId, {
+      displayName,
+      canonicalName,
+      confidence,
+      candidates: candidates.length > 1 ? candidates : undefined,
+    });
+  }
+
+  function updateParsedQuantity(item: EditableReceiptItem, quantity: number) {
+    updateParsedItem(item.localId, {
+      quantity,
+      lineTotal:
+        item.unitPrice !== undefined && Number.isFinite(quantity)
+          ? roundMoney(item.unitPrice * quantity)
+          : item.lineTotal,
+    });
+  }
+
+  function updateParsedUnitPrice(item: EditableReceiptItem, value: string) {
+    const unitPrice = toUnitPrice(value);
+    updateParsedItem(item.localId, {
+      unitPrice,
+      lineTotal: unitPrice === undefined ? undefined : roundMoney(unitPrice * item.quantity),
+    });
+  }
+
+  function updateParsedLineTotal(item: EditableReceiptItem, value: string) {
+    const lineTotal = toPrice(value);
+    updateParsedItem(item.localId, {
+      lineTotal,
+      unitPrice:
+        lineTotal === undefined || item.quantity <= 0
+          ? undefined
+          : roundUnitPrice(lineTotal / item.quantity),
+    });
+  }
+
+  async function addDictionary() {
+    const merchant = newDictionaryMerchant.trim();
+    const matchers = newDictionaryMatchers
+      .split(',')
+      .map((matcher) => matcher.trim())
+      .filter(Boolean);
+    if (!merchant || matchers.length === 0) {
+      setError('A store dictionary needs a store name and at least one header match.');
+      return;
+    }
+
+    try {
+      const dictionary = await createReceiptDictionary({
+        merchant,
+        matchers,
+        abbreviations: parseAbbreviationLines(newDictionaryAbbreviations),
+      });
+      setDictionaries((prev) => [dictionary, ...prev]);
+      setNewDictionaryMerchant('');
+      setNewDictionaryMatchers('');
+      setNewDictionaryAbbreviations('');
+      setError(null);
+    } catch (dictionaryError) {
+      setError(
+        dictionaryError instanceof Error ? dictionaryError.message : 'Could not save receipt dictionary.',
+      );
+    }
+  }
+
+  async function removeDictionary(id: string) {
+    try {
+      await deleteReceiptDictionary(id);
+      setDictionaries((prev) => prev.filter((dictionary) => dictionary.id !== id));
+      if (dictionaryId === id) setDictionaryId('');
+    } catch (dictionaryError) {
+      setError(
+        dictionaryError instanceof Error ? dictionaryError.message : 'Could not delete receipt dictionary.',
+      );
+    }
+  }
+
+  async function removeAlias(id: string) {
+    try {
+      await deleteAlias(id);
+      setAliases((prev) => prev.filter((alias) => alias.id !== id));
+    } catch (aliasError) {
+      setError(aliasError instanceof Error ? aliasError.message : 'Could not delete alias.');
+    }
+  }
+
   function removeParsedItem(localId: string) {
     setParsedItems((prev) => prev.filter((item) => item.localId !== localId));
   }
@@ -335,7 +679,7 @@ export default function ScanPage() {
   function addManualItem() {
     const name = manualName.trim();
     const quantity = Number(manualQuantity);
-    const unit = manualUnit.trim() || 'item';
+    const unit = manualUnit;
 
     if (!name) {
       setError('Manual item name is required.');
@@ -347,7 +691,7 @@ export default function ScanPage() {
       return;
     }
 
-    const { canonicalName } = canonicalizeIngredient(name);
+    const { canonicalName } = canonicalizeIngredient(name, aliases);
     const newItem: EditableReceiptItem = {
       localId: crypto.randomUUID(),
       rawLine: `${name} ${quantity} ${unit}`,
@@ -366,6 +710,84 @@ export default function ScanPage() {
     setError(null);
   }
 
+  function addProductItem(product: Product) {
+    const newItem: EditableReceiptItem = {
+      localId: crypto.randomUUID(),
+      rawLine: `barcode ${product.barcode}`,
+      canonicalName: product.canonicalName,
+      displayName: product.name,
+      quantity: product.packageQuantity,
+      unit: product.packageUnit,
+      confidence: 1,
+      purchaseDate: receiptPurchaseDate ?? undefined,
+    };
+    setParsedItems((prev) => [newItem, ...prev]);
+  }
+
+  async function addBarcode(code: string) {
+    const barcode = code.trim();
+    if (!barcode) {
+      setError('Barcode number is required.');
+      return;
+    }
+
+    try {
+      setIsLookingUpBarcode(true);
+      setError(null);
+      const product = await lookupProduct(barcode);
+      if (product) {
+        addProductItem(product);
+        setUnknownBarcode(null);
+      } else {
+        setUnknownBarcode(barcode);
+        setNewProductName('');
+        setNewProductQuantity('1');
+        setNewProductUnit('item');
+      }
+      setBarcodeInput('');
+    } catch (barcodeError) {
+      setError(barcodeError instanceof Error ? barcodeError.message : 'Could not look up barcode.');
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  }
+
+  // The scan loop reads the latest addBarcode through a ref, so it only restarts when the camera
+  // opens or changes mode.
+  useEffect(() => {
+    addBarcodeRef.current = addBarcode;
+  });
+
+  async function nameUnknownProduct() {
+    if (!unknownBarcode) return;
+    const name = newProductName.trim();
+    const packageQuantity = Number(newProductQuantity);
+    if (!name) {
+      setError('Product name is required.');
+      return;
+    }
+    if (Number.isNaN(packageQuantity) || packageQuantity <= 0) {
+      setError('Package quantity must be a positive number.');
+      return;
+    }
+
+    try {
+      setIsLookingUpBarcode(true);
+      setError(null);
+      const product = await learnProduct(unknownBarcode, {
+        name,
+        packageQuantity,
+        packageUnit: newProductUnit,
+      });
+      addProductItem(product);
+      setUnknownBarcode(null);
+    } catch (productError) {
+      setError(productError instanceof Error ? productError.message : 'Could not save product.');
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  }
+
   async function importToPantry() {
     const validatedItems = parsedItems.filter(
       (item) => item.displayName.trim().length > 0 && Number.isFinite(item.quantity) && item.quantity > 0,
@@ -376,9 +798,15 @@ export default function ScanPage() {
       return;
     }
 
+    if (reconciliation?.status === 'mismatch') {
+      const confirmed = window.confirm(
+        'The items do not add up to the receipt subtotal, so some lines were probably missed. Import anyway?',
+      );
+      if (!confirmed) return;
+    }
+
     try {
       setIsImporting(true);
-      const existing = loadPantryFromStorage();
       console.info('[client] request', {
         endpoint: '/api/shelf-life',
         items: validatedItems.length,
@@ -390,6 +818,7 @@ export default function ScanPage() {
           items: validatedItems.map((item) => ({
             name: item.displayName,
             canonicalName: item.canonicalName,
+            storageLocation: defaultStorageLocation(item.canonicalName),
           })),
         }),
       });
@@ -406,6 +835,7 @@ export default function ScanPage() {
         debug: shelfLifePayload.debug,
       });
       const shelfLifeByCanonical = shelfLifePayload.shelfLifeByCanonical ?? {};
+      const shelfLifeByLocation = shelfLifePayload.shelfLifeByLocation ?? {};
       if (!shelfLifeResponse.ok) {
         throw new Error(shelfLifePayload.error ?? 'Failed to retrieve shelf-life data.');
       }
@@ -413,16 +843,34 @@ export default function ScanPage() {
       const imported = validatedItems.map((item) =>
         createInventoryItem({
           name: item.displayName,
+          canonicalName: item.canonicalName,
           quantity: item.quantity,
           unit: item.unit || 'item',
           purchaseDate: item.purchaseDate ?? receiptPurchaseDate ?? undefined,
-          shelfLifeDaysOverride: shelfLifeByCanonical[item.canonicalName],
+          unitPrice: item.unitPrice,
+          lineTotal: item.lineTotal,
+          currency: item.currency,
+          shelfLifeDaysOverride:
+            shelfLifeByLocation[item.canonicalName]?.[defaultStorageLocation(item.canonicalName)] ??
+            shelfLifeByCanonical[item.canonicalName],
           source: 'receipt',
         }),
       );
 
-      savePantryToStorage([...imported, ...existing]);
+      const pantry = await importPantryItems(imported);
+      savePantryToStorage(pantry);
+
+      const corrections = aliasCorrections(validatedItems);
+      if (corrections.length > 0) {
+        // The import already succeeded; a failed alias save only means fixing the item again.
+        await saveAliases(corrections).catch((aliasError) => {
+          console.warn('[client] aliases not saved', {
+            error: aliasError instanceof Error ? aliasError.message : 'Could not save aliases.',
+          });
+        });
+      }
       window.localStorage.removeItem(PARSED_RECEIPT_STORAGE_KEY);
+      setReceiptSummary(null);
       setImportedCount(imported.length);
       setError(null);
       router.push('/');
@@ -460,6 +908,14 @@ export default function ScanPage() {
           >
             {isStartingCamera ? 'Opening camera...' : 'Use camera'}
           </button>
+          <button
+            type="button"
+            className="primaryButton uploadButton"
+            onClick={() => void startCamera('barcode')}
+            disabled={isStartingCamera}
+          >
+            Scan barcodes
+          </button>
         </div>
         <input
           id="receipt-upload"
@@ -481,10 +937,15 @@ export default function ScanPage() {
         {isCameraOpen ? (
           <div className="previewWrapper">
             <video ref={videoRef} className="previewImage" playsInline muted />
+            {cameraMode === 'barcode' ? (
+              <p className="muted">Point the camera at a product barcode.</p>
+            ) : null}
             <div className="rowButtons">
-              <button type="button" className="primaryButton" onClick={() => void captureFromCamera()}>
-                Capture photo
-              </button>
+              {cameraMode === 'receipt' ? (
+                <button type="button" className="primaryButton" onClick={() => void captureFromCamera()}>
+                  Capture photo
+                </button>
+              ) : null}
               <button type="button" className="ghostButton" onClick={() => stopCamera()}>
                 Cancel camera
               </button>
@@ -507,6 +968,114 @@ export default function ScanPage() {
           <p className="muted">No receipt image selected.</p>
         )}
 
+        <details className="collapsiblePanel">
+          <summary>Add by barcode</summary>
+          <p className="muted">
+            Use &quot;Scan barcodes&quot; above, or type the number printed under the barcode.
+          </p>
+          <div className="panelForm">
+            <label>
+              Barcode (EAN or UPC)
+              <input
+                inputMode="numeric"
+                value={barcodeInput}
+                onChange={(event) => setBarcodeInput(event.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              className="primaryButton"
+              onClick={() => void addBarcode(barcodeInput)}
+              disabled={isLookingUpBarcode}
+            >
+              {isLookingUpBarcode ? 'Looking up...' : 'Add product'}
+            </button>
+          </div>
+          {unknownBarcode ? (
+            <div className="panelForm">
+              <p className="muted">
+                Barcode {unknownBarcode} is not known yet. Name it once and it will be recognized next
+                time.
+              </p>
+              <label>
+                Product name
+                <input value={newProductName} onChange={(event) => setNewProductName(event.target.value)} />
+              </label>
+              <label>
+                Package quantity
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={newProductQuantity}
+                  onChange={(event) => setNewProductQuantity(event.target.value)}
+                />
+              </label>
+              <label>
+                Unit
+                <select
+                  value={newProductUnit}
+                  onChange={(event) => setNewProductUnit(event.target.value as Unit)}
+                >
+                  {UNITS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="primaryButton"
+                onClick={() => void nameUnknownProduct()}
+                disabled={isLookingUpBarcode}
+              >
+                Save and add
+              </button>
+            </div>
+          ) : null}
+        </details>
+
+        <details className="collapsiblePanel">
+          <summary>Import a digital receipt</summary>
+          <p className="muted">
+            Emailed (.eml), HTML or PDF receipts are read directly, without OCR.
+          </p>
+          <div className="panelForm">
+            <label htmlFor="digital-receipt-upload" className="primaryButton uploadButton">
+              {isReadingDigitalReceipt ? 'Reading receipt...' : 'Choose receipt file'}
+            </label>
+            <input
+              id="digital-receipt-upload"
+              type="file"
+              accept=".eml,.html,.htm,.pdf,.txt,message/rfc822,text/html,application/pdf,text/plain"
+              className="hiddenInput"
+              disabled={isReadingDigitalReceipt}
+              onChange={(event) => {
+                const file = event.target.files?.[0] ?? null;
+                event.target.value = '';
+                if (file) void importDigitalReceipt(file);
+              }}
+            />
+            <label>
+              Or paste the receipt email, HTML or text
+              <textarea
+                rows={4}
+                value={digitalReceiptText}
+                onChange={(event) => setDigitalReceiptText(event.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              className="primaryButton"
+              onClick={() => void importDigitalReceipt(null)}
+              disabled={isReadingDigitalReceipt}
+            >
+              {isReadingDigitalReceipt ? 'Reading receipt...' : 'Read pasted receipt'}
+            </button>
+          </div>
+        </details>
+
         <label>
           Parsed grocery items
           <p className="muted">
@@ -518,6 +1087,53 @@ export default function ScanPage() {
             Detected purchase date: {new Date(receiptPurchaseDate).toLocaleDateString('en-US')}
           </p>
         ) : null}
+        {receiptSummary ? (
+          <p className="muted">
+            {[
+              receiptSummary.merchant ? `Store: ${receiptSummary.merchant}` : null,
+              receiptSummary.dictionaryId
+                ? `Abbreviations: ${
+                    dictionaries.find((dictionary) => dictionary.id === receiptSummary.dictionaryId)
+                      ?.merchant ?? receiptSummary.dictionaryId
+                  }`
+                : null,
+              receiptSummary.subtotal !== undefined
+                ? `Subtotal ${formatMoney(receiptSummary.subtotal, receiptSummary.currency)}`
+                : null,
+              receiptSummary.tax !== undefined
+                ? `Tax ${formatMoney(receiptSummary.tax, receiptSummary.currency)}`
+                : null,
+              receiptSummary.total !== undefined
+                ? `Total ${formatMoney(receiptSummary.total, receiptSummary.currency)}`
+                : null,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        ) : null}
+        {reconciliation?.status === 'mismatch' && reconciliation.expectedSubtotal !== undefined ? (
+          <p className="warningText">
+            Items add up to {formatMoney(reconciliation.itemsTotal, receiptSummary?.currency)}, but the
+            receipt subtotal is {formatMoney(reconciliation.expectedSubtotal, receiptSummary?.currency)}.
+            Some lines were probably missed
+            {reconciliation.unpricedItemCount > 0
+              ? ` or ${reconciliation.unpricedItemCount} item(s) are missing a price`
+              : ''}
+            . Add or fix them before importing.
+          </p>
+        ) : null}
+
+        <label className="inlineSetting">
+          Store abbreviations
+          <select value={dictionaryId} onChange={(event) => setDictionaryId(event.target.value)}>
+            <option value="">Detect from receipt</option>
+            {dictionaries.map((dictionary) => (
+              <option key={dictionary.id} value={dictionary.id}>
+                {dictionary.merchant}
+              </option>
+            ))}
+          </select>
+        </label>
 
         <div className="rowButtons">
           <button
@@ -556,7 +1172,13 @@ export default function ScanPage() {
             </label>
             <label>
               Unit
-              <input value={manualUnit} onChange={(event) => setManualUnit(event.target.value)} />
+              <select value={manualUnit} onChange={(event) => setManualUnit(event.target.value as Unit)}>
+                {UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
             </label>
             <button type="button" className="primaryButton" onClick={addManualItem}>
               Add item
@@ -568,14 +1190,12 @@ export default function ScanPage() {
           <ul className="ingredientList">
             {parsedItems.map((item) => (
               <li key={item.localId} className="ingredientCard">
-                <div className="receiptItemEditor">
+                <div className="receiptItemEditor priced">
                   <label>
                     Item
                     <input
                       value={item.displayName}
-                      onChange={(event) =>
-                        updateParsedItem(item.localId, { displayName: event.target.value })
-                      }
+                      onChange={(event) => renameParsedItem(item.localId, event.target.value)}
                     />
                   </label>
                   <label>
@@ -585,16 +1205,59 @@ export default function ScanPage() {
                       min="0"
                       step="0.01"
                       value={item.quantity}
+                      onChange={(event) => updateParsedQuantity(item, Number(event.target.value))}
+                    />
+                  </label>
+                  <label>
+                    Unit
+                    <select
+                      value={item.unit}
                       onChange={(event) =>
-                        updateParsedItem(item.localId, { quantity: Number(event.target.value) })
+                        updateParsedItem(item.localId, { unit: event.target.value as Unit })
                       }
+                    >
+                      {UNITS.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Unit price
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={priceInputValue(item.unitPrice)}
+                      onChange={(event) => updateParsedUnitPrice(item, event.target.value)}
                     />
                   </label>
                   <label>
-                    Unit
+                    Line total
                     <input
-                      value={item.unit}
-                      onChange={(event) => updateParsedItem(item.localId, { unit: event.target.value })}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={priceInputValue(item.lineTotal)}
+                      onChange={(event) => updateParsedLineTotal(item, event.target.value)}
+                    />
+                  </label>
+                  <label>
+                    Currency
+                    <input
+                      placeholder="USD"
+                      value={item.currency ?? ''}
+                      onChange={(event) =>
+                        updateParsedItem(item.localId, {
+                          currency: event.target.value.toUpperCase() || undefined,
+                        })
+                      }
+                      onBlur={(event) =>
+                        updateParsedItem(item.localId, {
+                          currency: normalizeCurrency(event.target.value),
+                        })
+                      }
                     />
                   </label>
                   <button
@@ -608,12 +1271,116 @@ export default function ScanPage() {
                 <p className="muted">
                   Parsed as {item.canonicalName} · confidence {(item.confidence * 100).toFixed(0)}%
                 </p>
+                {item.candidates && item.candidates.length > 1 ? (
+                  <div className="candidateList">
+                    <span className="muted">Or match as:</span>
+                    {item.candidates
+                      .filter((candidate) => candidate.canonicalName !== item.canonicalName)
+                      .map((candidate) => (
+                        <button
+                          key={candidate.canonicalName}
+                          type="button"
+                          className="candidateButton"
+                          onClick={() =>
+                            updateParsedItem(item.localId, {
+                              canonicalName: candidate.canonicalName,
+                              confidence: candidate.confidence,
+                            })
+                          }
+                        >
+                          {candidate.canonicalName} ({(candidate.confidence * 100).toFixed(0)}%)
+                        </button>
+                      ))}
+                  </div>
+                ) : null}
               </li>
             ))}
           </ul>
         ) : null}
 
         {importedCount > 0 ? <p className="muted">Imported {importedCount} items to pantry.</p> : null}
+
+        <details className="collapsiblePanel">
+          <summary>Store dictionaries</summary>
+          <p className="muted">
+            Each store abbreviates differently. A dictionary is used when its header match appears at
+            the top of the receipt, or when you pick it above.
+          </p>
+          <ul>
+            {dictionaries.map((dictionary) => (
+              <li key={dictionary.id}>
+                <span>
+                  <strong>{dictionary.merchant}</strong> ·{' '}
+                  {Object.keys(dictionary.abbreviations).length} abbreviations
+                  {dictionary.builtIn ? ' · built in' : ''}
+                </span>
+                {dictionary.builtIn ? null : (
+                  <button
+                    type="button"
+                    className="dangerButton"
+                    onClick={() => void removeDictionary(dictionary.id)}
+                  >
+                    Delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="panelForm">
+            <label>
+              Store name
+              <input
+                value={newDictionaryMerchant}
+                onChange={(event) => setNewDictionaryMerchant(event.target.value)}
+              />
+            </label>
+            <label>
+              Header match (comma separated)
+              <input
+                placeholder="corner grocer, cg market"
+                value={newDictionaryMatchers}
+                onChange={(event) => setNewDictionaryMatchers(event.target.value)}
+              />
+            </label>
+            <label>
+              Abbreviations, one per line
+              <textarea
+                rows={4}
+                placeholder={'CHKN = chicken\nGV ='}
+                value={newDictionaryAbbreviations}
+                onChange={(event) => setNewDictionaryAbbreviations(event.target.value)}
+              />
+            </label>
+            <button type="button" className="primaryButton" onClick={() => void addDictionary()}>
+              Add dictionary
+            </button>
+          </div>
+        </details>
+
+        {aliases.length > 0 ? (
+          <details className="collapsiblePanel">
+            <summary>Household aliases ({aliases.length})</summary>
+            <p className="muted">
+              Learned from your corrections. Receipt text matching an alias skips automatic matching.
+            </p>
+            <ul>
+              {aliases.map((alias) => (
+                <li key={alias.id}>
+                  <span>
+                    <strong>{alias.rawName}</strong> → {alias.displayName} ({alias.canonicalName})
+                  </span>
+                  <button
+                    type="button"
+                    className="dangerButton"
+                    onClick={() => void removeAlias(alias.id)}
+                  >
+                    Forget
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        ) : null}
       </section>
 
       {error ? <p className="errorText">{error}</p> : null}
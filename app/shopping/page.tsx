@@ -0,0 +1,250 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { UNIT_SYSTEM_STORAGE_KEY } from '@/lib/constants';
+import {
+  formatShoppingListMarkdown,
+  formatShoppingListText,
+  groupShoppingList,
+} from '@/lib/shoppingList';
+import {
+  addLowStockToShoppingList,
+  clearCheckedShoppingItems,
+  deleteShoppingItem,
+  fetchShoppingList,
+  setShoppingItemChecked,
+} from '@/lib/shoppingListApi';
+import { DEFAULT_UNIT_SYSTEM, formatQuantity, isUnitSystem } from '@/lib/units';
+import type { UnitSystem } from '@/lib/units';
+import type { ShoppingListItem } from '@/lib/types';
+
+function downloadFile(name: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ShoppingListPage() {
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadList() {
+      const storedUnitSystem = window.localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY);
+      if (isUnitSystem(storedUnitSystem)) setUnitSystem(storedUnitSystem);
+      try {
+        const list = await fetchShoppingList();
+        if (!cancelled) setItems(list);
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error ? loadError.message : 'Could not load the shopping list.',
+          );
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    void loadList();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function toggleItem(item: ShoppingListItem) {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      const updated = await setShoppingItemChecked(item.id, !item.checked);
+      setItems((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+    } catch (updateError) {
+      setError(
+        updateError instanceof Error ? updateError.message : 'Could not update shopping list item.',
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function removeItem(id: string) {
+    setBusyId(id);
+    setError(null);
+    try {
+      await deleteShoppingItem(id);
+      setItems((prev) => prev.filter((entry) => entry.id !== id));
+    } catch (deleteError) {
+      setError(
+        deleteError instanceof Error ? deleteError.message : 'Could not delete shopping list item.',
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function addLowStock() {
+    setBusyId('low-stock');
+    setError(null);
+    setNotice(null);
+    try {
+      const { items: list, added } = await addLowStockToShoppingList();
+      setItems(list);
+      setNotice(
+        added > 0 ? `Added ${added} low-stock item(s).` : 'Nothing in the pantry is running low.',
+      );
+    } catch (lowStockError) {
+      setError(
+        lowStockError instanceof Error ? lowStockError.message : 'Could not update the shopping list.',
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function clearChecked() {
+    setBusyId('checked');
+    setError(null);
+    try {
+      setItems(await clearCheckedShoppingItems());
+    } catch (clearError) {
+      setError(
+        clearError instanceof Error ? clearError.message : 'Could not update the shopping list.',
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const checkedCount = items.filter((item) => item.checked).length;
+
+  return (
+    <main className="shell">
+      <section className="hero compact">
+        <p className="eyebrow">Shopping List</p>
+        <h1>What to pick up next time</h1>
+        <p>
+          Missing ingredients added from recipes and the meal plan, and pantry staples running low,
+          merged by ingredient. Items are checked off when a receipt with them is imported.
+        </p>
+        <Link href="/" className="ghostButton">
+          Back to pantry
+        </Link>
+      </section>
+
+      <section className="panel">
+        <div className="recipeHeader">
+          <h2>
+            {items.length - checkedCount} to buy
+            {checkedCount > 0 ? ` · ${checkedCount} checked` : ''}
+          </h2>
+          <div className="rowButtons">
+            <button
+              type="button"
+              className="primaryButton"
+              onClick={() => void addLowStock()}
+              disabled={busyId !== null}
+            >
+              Add low stock
+            </button>
+            <button
+              type="button"
+              className="primaryButton"
+              onClick={() =>
+                downloadFile(
+                  'shopping-list.txt',
+                  formatShoppingListText(items, unitSystem),
+                  'text/plain',
+                )
+              }
+              disabled={items.length === checkedCount}
+            >
+              Export text
+            </button>
+            <button
+              type="button"
+              className="primaryButton"
+              onClick={() =>
+                downloadFile(
+                  'shopping-list.md',
+                  formatShoppingListMarkdown(items, unitSystem),
+                  'text/markdown',
+                )
+              }
+              disabled={items.length === 0}
+            >
+              Export Markdown
+            </button>
+            <button
+              type="button"
+              className="dangerButton"
+              onClick={() => void clearChecked()}
+              disabled={checkedCount === 0 || busyId !== null}
+            >
+              Clear checked
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? <p className="muted">Loading shopping list...</p> : null}
+        {notice ? <p className="muted">{notice}</p> : null}
+        {!isLoading && items.length === 0 ? (
+          <p className="muted">
+            Nothing to buy. Add missing ingredients from a recipe card or the meal plan, or add what
+            is running low.
+          </p>
+        ) : null}
+
+        {groupShoppingList(items).map((group) => (
+          <div key={group.category} className="shoppingGroup">
+            <h3>{group.category}</h3>
+            <ul className="shoppingList">
+              {group.items.map((item) => (
+                <li key={item.id} className={item.checked ? 'shoppingItem checked' : 'shoppingItem'}>
+                  <label className="checkboxLabel">
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      onChange={() => void toggleItem(item)}
+                      disabled={busyId === item.id}
+                    />
+                    <span>
+                      <strong>{item.canonicalName}</strong>
+                      {item.amounts.length > 0
+                        ? ` · ${item.amounts
+                            .map((amount) => formatQuantity(amount.quantity, amount.unit, unitSystem))
+                            .join(' + ')}`
+                        : ''}
+                      {item.sources.length > 0 ? (
+                        <span className="muted"> · for {item.sources.join(', ')}</span>
+                      ) : null}
+                    </span>
+                  </label>
+                  <button
+                    type="button"
+                    className="dangerButton"
+                    onClick={() => void removeItem(item.id)}
+                    disabled={busyId === item.id}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </section>
+
+      {error ? <p className="errorText">{error}</p> : null}
+    </main>
+  );
+}
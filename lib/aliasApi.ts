@@ -0,0 +1,56 @@
+import type { AliasCorrection } from '@/lib/aliases';
+import type { IngredientAlias } from '@/lib/types';
+
+type AliasApiPayload = {
+  aliases?: IngredientAlias[];
+  deleted?: boolean;
+  error?: string;
+};
+
+async function requestAliases(
+  endpoint: string,
+  init: RequestInit,
+  fallbackError: string,
+): Promise<AliasApiPayload> {
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as AliasApiPayload;
+  if (!response.ok) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return payload;
+}
+
+export async function fetchAliases(): Promise<IngredientAlias[]> {
+  const payload = await requestAliases('/api/aliases', { cache: 'no-store' }, 'Could not load aliases.');
+  return payload.aliases ?? [];
+}
+
+export async function saveAliases(corrections: AliasCorrection[]): Promise<IngredientAlias[]> {
+  const payload = await requestAliases(
+    '/api/aliases',
+    { method: 'POST', body: JSON.stringify({ aliases: corrections }) },
+    'Could not save aliases.',
+  );
+  return payload.aliases ?? [];
+}
+
+export async function deleteAlias(id: string): Promise<void> {
+  await requestAliases(
+    `/api/aliases/${encodeURIComponent(id)}`,
+    { method: 'DELETE' },
+    'Could not delete alias.',
+  );
+}
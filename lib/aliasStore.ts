@@ -0,0 +1,45 @@
+import { aliasKey, isIngredientAlias } from '@/lib/aliases';
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import type { AliasCorrection } from '@/lib/aliases';
+import type { IngredientAlias } from '@/lib/types';
+
+const ALIASES_FILE = 'aliases';
+
+function sanitize(stored: unknown): IngredientAlias[] {
+  return Array.isArray(stored) ? stored.filter(isIngredientAlias) : [];
+}
+
+export async function listAliases(): Promise<IngredientAlias[]> {
+  return sanitize(await readJsonFile<unknown>(ALIASES_FILE, []));
+}
+
+// A later correction of the same receipt text replaces the earlier rule.
+export function saveAliases(corrections: AliasCorrection[]): Promise<IngredientAlias[]> {
+  return updateJsonFile<unknown, IngredientAlias[]>(ALIASES_FILE, [], (stored) => {
+    const aliases = sanitize(stored);
+    const now = new Date().toISOString();
+    const saved: IngredientAlias[] = [];
+
+    for (const correction of corrections) {
+      const key = aliasKey(correction.rawName);
+      const index = aliases.findIndex((alias) => aliasKey(alias.rawName) === key);
+      const alias: IngredientAlias =
+        index === -1
+          ? { id: crypto.randomUUID(), ...correction, createdAt: now, updatedAt: now }
+          : { ...aliases[index], ...correction, updatedAt: now };
+      if (index === -1) aliases.unshift(alias);
+      else aliases[index] = alias;
+      saved.push(alias);
+    }
+
+    return { next: aliases, result: saved };
+  });
+}
+
+export function deleteAlias(id: string): Promise<boolean> {
+  return updateJsonFile<unknown, boolean>(ALIASES_FILE, [], (stored) => {
+    const aliases = sanitize(stored);
+    const remaining = aliases.filter((alias) => alias.id !== id);
+    return { next: remaining, result: remaining.length !== aliases.length };
+  });
+}
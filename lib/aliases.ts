@@ -0,0 +1,25 @@
+import { catalogKey } from '@/lib/ingredientCatalog';
+import type { IngredientAlias } from '@/lib/types';
+
+export type AliasCorrection = Pick<IngredientAlias, 'rawName' | 'canonicalName' | 'displayName'>;
+
+export function isIngredientAlias(value: unknown): value is IngredientAlias {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.rawName === 'string' &&
+    typeof candidate.canonicalName === 'string' &&
+    typeof candidate.displayName === 'string'
+  );
+}
+
+export function aliasKey(rawName: string): string {
+  return catalogKey(rawName);
+}
+
+export function findAlias(aliases: IngredientAlias[], rawName: string): IngredientAlias | null {
+  const key = aliasKey(rawName);
+  if (!key) return null;
+  return aliases.find((alias) => aliasKey(alias.rawName) === key) ?? null;
+}
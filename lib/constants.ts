@@ -1,3 +1,7 @@
 export const PANTRY_STORAGE_KEY = 'kitchen-knightmare-pantry-v2';
 export const NOTIFIED_STORAGE_KEY = 'kitchen-knightmare-notified-v1';
 export const PARSED_RECEIPT_STORAGE_KEY = 'kitchen-knightmare-last-parsed-receipt-v1';
+export const PANTRY_SYNCED_STORAGE_KEY = 'kitchen-knightmare-pantry-synced-v1';
+export const UNIT_SYSTEM_STORAGE_KEY = 'kitchen-knightmare-unit-system-v1';
+export const DEFAULT_CURRENCY = 'USD';
+export const PARSED_RECEIPT_SUMMARY_STORAGE_KEY = 'kitchen-knightmare-last-parsed-receipt-summary-v1';
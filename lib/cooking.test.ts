@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { planRecipeDeductions } from '@/lib/cooking';
+import { createInventoryItem } from '@/lib/pantry';
+import type { RecipeIngredient, RecipeSuggestion } from '@/lib/types';
+
+function recipe(ingredients: RecipeIngredient[], pantryIngredientsUsed: string[]): RecipeSuggestion {
+  return {
+    title: 'Test recipe',
+    ingredients,
+    pantryIngredientsUsed,
+    missingIngredients: [],
+    steps: [],
+    estimatedCookingTimeMinutes: 20,
+    servings: 2,
+    equipment: [],
+  };
+}
+
+const butter = createInventoryItem({ name: 'Butter', quantity: 250, unit: 'g', source: 'manual' });
+const eggs = createInventoryItem({ name: 'Eggs', quantity: 6, unit: 'item', source: 'manual' });
+
+describe('planRecipeDeductions', () => {
+  it('sums recipe lines that draw on the same pantry item', () => {
+    const plan = planRecipeDeductions(
+      recipe(
+        [
+          { canonicalName: 'butter', quantity: 30, unit: 'g', fromPantry: true },
+          { canonicalName: 'butter', quantity: 10, unit: 'g', fromPantry: true },
+          { canonicalName: 'egg', quantity: 2, unit: 'item', fromPantry: true },
+        ],
+        ['butter', 'eggs'],
+      ),
+      [butter, eggs],
+    );
+    expect(plan.map(({ item, quantity, needsAmount }) => [item?.id, quantity, needsAmount])).toEqual([
+      [butter.id, 40, false],
+      [eggs.id, 2, false],
+    ]);
+  });
+
+  it('converts the recipe amount to the item unit and caps it at what is left', () => {
+    const [line] = planRecipeDeductions(
+      recipe([{ canonicalName: 'butter', quantity: 1, unit: 'kg', fromPantry: true }], ['butter']),
+      [butter],
+    );
+    expect(line).toMatchObject({ item: butter, quantity: 250, needsAmount: false });
+  });
+
+  it('starts amounts that do not convert at zero and asks for them', () => {
+    const [line] = planRecipeDeductions(
+      recipe([{ canonicalName: 'butter', quantity: 2, unit: 'item', fromPantry: true }], ['butter']),
+      [butter],
+    );
+    expect(line).toMatchObject({ item: butter, quantity: 0, needsAmount: true });
+  });
+
+  it('lists used pantry ingredients that are not in the pantry', () => {
+    const plan = planRecipeDeductions(recipe([], ['spinach']), [butter]);
+    expect(plan).toEqual([{ ingredientName: 'spinach', item: null, quantity: 0, needsAmount: false }]);
+  });
+});
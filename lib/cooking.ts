@@ -0,0 +1,131 @@
+import { catalogKey, ingredientSatisfies } from '@/lib/ingredientCatalog';
+import { soonestExpirationDate } from '@/lib/pantry';
+import { canonicalizeIngredient } from '@/lib/shelfLife';
+import { convertQuantity } from '@/lib/units';
+import type { InventoryItem, RecipeIngredient, RecipeSuggestion, Unit } from '@/lib/types';
+
+export type IngredientAvailability = {
+  ingredient: RecipeIngredient;
+  // What the pantry holds, in the recipe's unit when the units convert. Null when nothing matches.
+  have: { quantity: number; unit: Unit } | null;
+  shortfall: boolean;
+};
+
+export type CookingPlanLine = {
+  // The recipe lines drawing on the item, as the recipe names them.
+  ingredientName: string;
+  item: InventoryItem | null;
+  quantity: number;
+  // True when a recipe amount is missing or does not convert to the item's unit, so the cook has
+  // to enter it.
+  needsAmount: boolean;
+};
+
+function matchingItems(pantry: InventoryItem[], canonicalName: string): InventoryItem[] {
+  return pantry.filter((item) => ingredientSatisfies(item.canonicalName, canonicalName));
+}
+
+// Compares each recipe ingredient with the pantry. Amounts in units that do not convert, such as
+// items against pounds, are shown as they are and never counted as a shortfall.
+export function checkRecipeIngredients(
+  recipe: RecipeSuggestion,
+  pantry: InventoryItem[],
+): IngredientAvailability[] {
+  return recipe.ingredients.map((ingredient) => {
+    const items = matchingItems(pantry, ingredient.canonicalName);
+    if (items.length === 0) return { ingredient, have: null, shortfall: true };
+
+    const converted = items.flatMap((item) => {
+      const quantity = convertQuantity(item.quantity, item.unit, ingredient.unit);
+      return quantity === null ? [] : [quantity];
+    });
+    if (converted.length === 0) {
+      const [first] = items;
+      return { ingredient, have: { quantity: first.quantity, unit: first.unit }, shortfall: false };
+    }
+
+    const quantity = Number(converted.reduce((sum, value) => sum + value, 0).toFixed(3));
+    return {
+      ingredient,
+      have: { quantity, unit: ingredient.unit },
+      shortfall: quantity < ingredient.quantity,
+    };
+  });
+}
+
+// One recipe line's draw on a pantry item, in the item's unit. Null when the units do not convert.
+type LineDraw = {
+  ingredientName: string;
+  item: InventoryItem | null;
+  quantity: number | null;
+};
+
+// Picks the pantry item each recipe line comes from, soonest expiring first, and sums the lines
+// that draw on the same item, so "butter" for the sauce and for the pan come off one item together.
+// A line whose amount does not convert to the item's unit adds nothing and flags the item for the
+// cook to fill in. Recipe names from a model are free text, so they are canonicalized before
+// matching.
+export function planRecipeDeductions(
+  recipe: RecipeSuggestion,
+  pantry: InventoryItem[],
+): CookingPlanLine[] {
+  const bySoonest = [...pantry].sort(
+    (a, b) => Date.parse(soonestExpirationDate(a)) - Date.parse(soonestExpirationDate(b)),
+  );
+  const findItem = (names: string[]) =>
+    bySoonest.find((item) => names.some((name) => ingredientSatisfies(item.canonicalName, name))) ??
+    null;
+
+  const draws: LineDraw[] = recipe.ingredients.flatMap((ingredient): LineDraw[] => {
+    const item = findItem([ingredient.canonicalName]);
+    if (!item) {
+      return ingredient.fromPantry
+        ? [{ ingredientName: ingredient.canonicalName, item: null, quantity: null }]
+        : [];
+    }
+    return [
+      {
+        ingredientName: ingredient.canonicalName,
+        item,
+        quantity: convertQuantity(ingredient.quantity, ingredient.unit, item.unit),
+      },
+    ];
+  });
+
+  // Pantry ingredients the model named without a structured line still get an amount to fill in.
+  for (const ingredientName of recipe.pantryIngredientsUsed) {
+    const { canonicalName } = canonicalizeIngredient(ingredientName);
+    const item = findItem([canonicalName, ingredientName]);
+    const covered = draws.some((draw) =>
+      item
+        ? draw.item?.id === item.id
+        : !draw.item && catalogKey(draw.ingredientName) === catalogKey(canonicalName),
+    );
+    if (!covered) draws.push({ ingredientName, item, quantity: null });
+  }
+
+  const lines: CookingPlanLine[] = [];
+  for (const draw of draws) {
+    const line = draw.item ? lines.find((entry) => entry.item?.id === draw.item?.id) : undefined;
+    if (!line) {
+      lines.push({
+        ingredientName: draw.ingredientName,
+        item: draw.item,
+        quantity: draw.quantity ?? 0,
+        needsAmount: draw.item !== null && draw.quantity === null,
+      });
+      continue;
+    }
+    if (!line.ingredientName.split(', ').includes(draw.ingredientName)) {
+      line.ingredientName = `${line.ingredientName}, ${draw.ingredientName}`;
+    }
+    line.quantity += draw.quantity ?? 0;
+    line.needsAmount ||= draw.quantity === null;
+  }
+
+  return lines.map((line) =>
+    line.item
+      ? { ...line, quantity: Number(Math.min(line.quantity, line.item.quantity).toFixed(3)) }
+      : line,
+  );
+}
@@ -0,0 +1,86 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import {
+  detectDigitalReceiptFormat,
+  extractEmailReceiptText,
+  extractHtmlReceiptText,
+  extractPdfReceiptText,
+} from '@/lib/digitalReceipt';
+
+function table(header: string[], row: string[]): string {
+  const cells = (tag: string, values: string[]) =>
+    values.map((value) => `<${tag}>${value}</${tag}>`).join('');
+  return `<table><tr>${cells('th', header)}</tr><tr>${cells('td', row)}</tr></table>`;
+}
+
+describe('extractHtmlReceiptText', () => {
+  it('decodes entities and keeps out-of-range references as written', () => {
+    expect(extractHtmlReceiptText('<p>Milk &amp; Honey &#36;2.99</p>')).toBe('Milk & Honey $2.99');
+    expect(extractHtmlReceiptText('<p>Milk &#99999999; 2.99</p>')).toBe('Milk &#99999999; 2.99');
+  });
+
+  it('puts table columns in name, quantity, price order', () => {
+    expect(
+      extractHtmlReceiptText(table(['Total', 'Item', 'Qty'], ['1.36', 'Bananas', '2.31 lb'])),
+    ).toBe('Bananas 2.31 lb 1.36');
+  });
+
+  it('reads an Amount column as the price when it holds money and as a quantity otherwise', () => {
+    expect(extractHtmlReceiptText(table(['Item', 'Qty', 'Amount'], ['Bananas', '3', '$1.77']))).toBe(
+      'Bananas 3 x $1.77',
+    );
+    expect(extractHtmlReceiptText(table(['Item', 'Amount'], ['Bananas', '1.36']))).toBe(
+      'Bananas 1.36',
+    );
+    expect(
+      extractHtmlReceiptText(table(['Item', 'Amount', 'Total'], ['Bananas', '2', '1.36'])),
+    ).toBe('Bananas 2 x 1.36');
+  });
+});
+
+describe('extractEmailReceiptText', () => {
+  it('prefers the HTML part and decodes quoted-printable bodies', () => {
+    const email = [
+      'From: orders@example.com',
+      'Subject: Your receipt',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'Plain copy',
+      '--b1',
+      'Content-Type: text/html',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<table><tr><td>Eggs</td><td>3.=',
+      '49</td></tr></table>',
+      '--b1--',
+    ].join('\r\n');
+    expect(extractEmailReceiptText(email)).toBe('Eggs 3.49');
+  });
+});
+
+describe('extractPdfReceiptText', () => {
+  it('reads text shown in compressed content streams, one line per text line', () => {
+    const content = 'BT /F1 12 Tf 72 700 Td (Milk) Tj 100 0 Td (2.99) Tj 0 -14 Td [(Br) -20 (ead)] TJ ET';
+    const stream = deflateSync(Buffer.from(content, 'latin1'));
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+      stream,
+      Buffer.from('\nendstream\nendobj\n%%EOF'),
+    ]);
+    expect(extractPdfReceiptText(pdf)).toBe('Milk 2.99\nBread');
+  });
+});
+
+describe('detectDigitalReceiptFormat', () => {
+  it('tells formats apart by content, type and file name', () => {
+    expect(detectDigitalReceiptFormat({ content: Buffer.from('%PDF-1.7') })).toBe('pdf');
+    expect(
+      detectDigitalReceiptFormat({ content: Buffer.from('From: a@b.c\nSubject: Receipt\n\nHi') }),
+    ).toBe('eml');
+    expect(detectDigitalReceiptFormat({ fileName: 'r.html', content: Buffer.from('x') })).toBe('html');
+    expect(detectDigitalReceiptFormat({ content: Buffer.from('MILK 2.99') })).toBe('text');
+  });
+});
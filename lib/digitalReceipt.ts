@@ -0,0 +1,337 @@
+import { inflateSync } from 'node:zlib';
+
+export type DigitalReceiptFormat = 'eml' | 'html' | 'pdf' | 'text';
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  euro: '€',
+  pound: '£',
+};
+
+export function detectDigitalReceiptFormat(params: {
+  fileName?: string;
+  contentType?: string;
+  content: Buffer;
+}): DigitalReceiptFormat {
+  const fileName = params.fileName?.toLowerCase() ?? '';
+  const contentType = params.contentType?.toLowerCase() ?? '';
+  const head = params.content.subarray(0, 2048).toString('latin1');
+
+  if (head.startsWith('%PDF') || contentType === 'application/pdf' || fileName.endsWith('.pdf')) {
+    return 'pdf';
+  }
+  if (
+    contentType === 'message/rfc822' ||
+    fileName.endsWith('.eml') ||
+    (/^(?:[\w-]+:.*\r?\n)+/.test(head) &&
+      /^(?:from|subject|mime-version|content-type):/im.test(head))
+  ) {
+    return 'eml';
+  }
+  if (contentType.includes('html') || /\.html?$/.test(fileName) || /<(?:html|body|table)\b/i.test(head)) {
+    return 'html';
+  }
+  return 'text';
+}
+
+const MAX_CODE_POINT = 0x10ffff;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      // Out-of-range references such as &#99999999; are left as written.
+      return Number.isInteger(value) && value <= MAX_CODE_POINT ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlToPlainText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:p|div|li|h\d|tr|table|section)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// "Amount" is a quantity on some receipts and the line price on others, so its cells decide.
+type TableColumn = 'name' | 'quantity' | 'unitPrice' | 'total' | 'amount';
+
+const COLUMN_HEADERS: Array<[TableColumn, RegExp]> = [
+  ['quantity', /^(?:qty|quantity|weight|count)\b/i],
+  ['unitPrice', /^(?:unit\s*price|price\s*each|each|price\s*\/|@)/i],
+  ['total', /^(?:total|line\s*total|subtotal|price|cost|amount\s*paid)\b/i],
+  ['amount', /^amount\b/i],
+  ['name', /^(?:item|items|description|product|name|article)\b/i],
+];
+
+// A currency sign, or a bare two-decimal number when no other column holds the price.
+function looksLikePrice(value: string, hasTotalColumn: boolean): boolean {
+  return /[$€£]/.test(value) || (!hasTotalColumn && /^-?\d+[.,]\d{2}$/.test(value));
+}
+
+function readHeaderColumns(cells: string[]): Array<TableColumn | null> | null {
+  const columns = cells.map(
+    (cell) => COLUMN_HEADERS.find(([, pattern]) => pattern.test(cell.trim()))?.[0] ?? null,
+  );
+  return columns.includes('name') ? columns : null;
+}
+
+// Writes one table row as a receipt line the text parser understands, e.g.
+// "Bananas 2.31 lb @ 0.59 1.36", whatever order the columns are in.
+function tableRowToLine(cells: string[], columns: Array<TableColumn | null> | null): string {
+  if (!columns) return cells.join(' ');
+
+  const cell = (column: TableColumn) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? '' : (cells[index] ?? '').trim();
+  };
+  const amountCell = cell('amount');
+  const amountIsPrice = looksLikePrice(amountCell, columns.includes('total'));
+  const quantity = cell('quantity') || (amountIsPrice ? '' : amountCell);
+  const total = cell('total') || (amountIsPrice ? amountCell : '');
+  const unitPrice = cell('unitPrice');
+  const amount =
+    quantity && unitPrice
+      ? `${quantity} @ ${unitPrice}`
+      : /^\d+$/.test(quantity)
+        ? `${quantity} x`
+        : quantity;
+  return [cell('name'), amount, total].filter(Boolean).join(' ');
+}
+
+// HTML receipts usually list items in a table. Each row becomes one line, and when a header row
+// names the columns they are put in the name, quantity, price order the text parser expects.
+export function extractHtmlReceiptText(html: string): string {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '');
+  const lines: string[] = [];
+  let lastIndex = 0;
+
+  for (const table of body.matchAll(/<table\b[\s\S]*?<\/table>/gi)) {
+    lines.push(htmlToPlainText(body.slice(lastIndex, table.index)));
+    lastIndex = (table.index ?? 0) + table[0].length;
+
+    let columns: Array<TableColumn | null> | null = null;
+    for (const row of table[0].matchAll(/<tr\b[\s\S]*?<\/tr>/gi)) {
+      // Nested layout tables are flattened by reading only the innermost cells.
+      const cells = [...row[0].matchAll(/<t([hd])\b[^>]*>((?:(?!<t[hd]\b)[\s\S])*?)<\/t\1>/gi)].map(
+        (match) => htmlToPlainText(match[2]).replace(/\n/g, ' '),
+      );
+      if (cells.every((value) => !value)) continue;
+
+      const header = readHeaderColumns(cells);
+      if (header) {
+        columns = header;
+        continue;
+      }
+      lines.push(tableRowToLine(cells, columns));
+    }
+  }
+  lines.push(htmlToPlainText(body.slice(lastIndex)));
+
+  return lines
+    .flatMap((line) => line.split('\n'))
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const joined = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let index = 0; index < joined.length; index += 1) {
+    const hex = joined.slice(index + 1, index + 3);
+    if (joined[index] === '=' && /^[\da-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(joined.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+type MimePart = {
+  contentType: string;
+  body: string;
+};
+
+function splitHeaders(raw: string): { headers: Record<string, string>; body: string } {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const head = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return { headers, body };
+}
+
+function readMimeParts(raw: string): MimePart[] {
+  const { headers, body } = splitHeaders(raw);
+  const contentType = headers['content-type'] ?? 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    return body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((part) => !part.startsWith('--'))
+      .flatMap((part) => readMimeParts(part.replace(/^\r?\n/, '')));
+  }
+
+  const encoding = (headers['content-transfer-encoding'] ?? '').toLowerCase();
+  const decoded =
+    encoding === 'base64'
+      ? Buffer.from(body.replace(/\s+/g, ''), 'base64')
+      : encoding === 'quoted-printable'
+        ? decodeQuotedPrintable(body)
+        : Buffer.from(body, 'utf8');
+  return [{ contentType: contentType.split(';')[0].trim().toLowerCase(), body: decoded.toString('utf8') }];
+}
+
+// Prefers the HTML part when it holds a table, since that keeps the line-item columns apart.
+export function extractEmailReceiptText(raw: string): string {
+  const parts = readMimeParts(raw);
+  const html = parts.find((part) => part.contentType === 'text/html');
+  const plain = parts.find((part) => part.contentType === 'text/plain');
+  if (html && (/<table\b/i.test(html.body) || !plain)) return extractHtmlReceiptText(html.body);
+  return plain?.body.trim() ?? '';
+}
+
+function decodePdfString(literal: string): string {
+  return literal.replace(/\\(\d{1,3}|[\s\S])/g, (_match, escaped: string) => {
+    if (/^\d+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    return { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[escaped] ?? escaped;
+  });
+}
+
+function decodePdfHexString(hex: string): string {
+  const clean = hex.replace(/\s+/g, '');
+  const padded = clean.length % 2 === 0 ? clean : `${clean}0`;
+  return Buffer.from(padded, 'hex').toString('latin1');
+}
+
+// Reads the text drawn by one content stream: strings shown with Tj, TJ, ' and ", with a line
+// break wherever the text position moves to a new line.
+function readContentStreamText(content: string): string {
+  const tokens = content.matchAll(
+    /\((?:\\[\s\S]|[^\\)])*\)|<[\da-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g,
+  );
+  let line = '';
+  const lines: string[] = [];
+  const operands: string[] = [];
+  let inArray = false;
+  let arrayText = '';
+
+  const breakLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  for (const [token] of tokens) {
+    if (token === '[') {
+      inArray = true;
+      arrayText = '';
+      continue;
+    }
+    if (token === ']') {
+      inArray = false;
+      operands.push(`(${arrayText.replace(/[()\\]/g, '\\$&')})`);
+      continue;
+    }
+    if (inArray) {
+      if (token.startsWith('(')) arrayText += decodePdfString(token.slice(1, -1));
+      else if (token.startsWith('<')) arrayText += decodePdfHexString(token.slice(1, -1));
+      // Large negative kerning inside TJ is how PDFs print the gap between words.
+      else if (Number(token) < -200) arrayText += ' ';
+      continue;
+    }
+    if (/^[(</]/.test(token) || /^-?\d*\.?\d+$/.test(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const shown = operands.filter((operand) => operand.startsWith('(') || operand.startsWith('<'));
+    const text = shown
+      .map((operand) =>
+        operand.startsWith('(')
+          ? decodePdfString(operand.slice(1, -1))
+          : decodePdfHexString(operand.slice(1, -1)),
+      )
+      .join('');
+
+    if (token === 'Tj' || token === 'TJ') {
+      line += text;
+    } else if (token === "'" || token === '"') {
+      breakLine();
+      line += text;
+    } else if (token === 'T*' || token === 'ET') {
+      breakLine();
+    } else if (token === 'Td' || token === 'TD') {
+      const [tx, ty] = operands.slice(-2).map(Number);
+      if (ty !== 0) breakLine();
+      else if (tx > 0) line += ' ';
+    } else if (token === 'Tm') {
+      breakLine();
+    }
+    operands.length = 0;
+  }
+  breakLine();
+  return lines.join('\n');
+}
+
+// Extracts text from PDFs that contain real text, such as downloaded order receipts. Scanned
+// PDFs have nothing to extract and need the photo path instead.
+export function extractPdfReceiptText(pdf: Buffer): string {
+  const raw = pdf.toString('latin1');
+  const texts: string[] = [];
+
+  for (const match of raw.matchAll(/<<((?:(?!>>\s*stream)[\s\S])*?)>>\s*stream\r?\n/g)) {
+    const dictionary = match[1];
+    if (/\/Subtype\s*\/(?:Image|XML)|\/Type\s*\/(?:XObject|Metadata|XRef|ObjStm)/.test(dictionary)) continue;
+
+    const start = (match.index ?? 0) + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) continue;
+    let data = pdf.subarray(start, end);
+
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const content = data.toString('latin1');
+    if (!/\bBT\b/.test(content)) continue;
+    texts.push(readContentStreamText(content));
+  }
+
+  return texts.filter(Boolean).join('\n');
+}
+
+export function extractDigitalReceiptText(format: DigitalReceiptFormat, content: Buffer): string {
+  if (format === 'pdf') return extractPdfReceiptText(content);
+  const text = content.toString('utf8');
+  if (format === 'eml') return extractEmailReceiptText(text);
+  if (format === 'html') return extractHtmlReceiptText(text);
+  return text.trim();
+}
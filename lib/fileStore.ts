@@ -0,0 +1,51 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const DATA_DIR = process.env.KITCHEN_DATA_DIR || path.join(process.cwd(), '.data');
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function filePathFor(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(filePathFor(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+async function writeJsonFile<T>(name: string, value: T): Promise<void> {
+  const target = filePathFor(name);
+  const temporary = `${target}.${process.pid}.tmp`;
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(temporary, JSON.stringify(value, null, 2), 'utf8');
+  await rename(temporary, target);
+}
+
+// Read-modify-write calls for the same file are chained so concurrent requests
+// cannot overwrite each other's changes.
+export function updateJsonFile<T, R>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => { next: T; result: R } | Promise<{ next: T; result: R }>,
+): Promise<R> {
+  const previous = writeQueues.get(name) ?? Promise.resolve();
+  const run = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJsonFile(name, fallback);
+      const { next, result } = await updater(current);
+      await writeJsonFile(name, next);
+      return result;
+    });
+
+  writeQueues.set(name, run);
+  return run;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ingredientViolations, recipeViolations } from '@/lib/householdProfile';
+import type { HouseholdProfile, RecipeSuggestion } from '@/lib/types';
+
+function profile(overrides: Partial<HouseholdProfile>): HouseholdProfile {
+  return { diets: [], allergens: [], dislikes: [], ...overrides };
+}
+
+const vegetarian = profile({ diets: ['vegetarian'] });
+
+describe('ingredientViolations', () => {
+  it('keeps keyword restrictions on names the catalog files under a neutral entry', () => {
+    expect(ingredientViolations('chicken broth', vegetarian)).toEqual([
+      'chicken broth is not vegetarian',
+    ]);
+    expect(ingredientViolations('chicken stock', vegetarian)).toHaveLength(1);
+    expect(ingredientViolations('vegetable broth', vegetarian)).toEqual([]);
+  });
+
+  it('does not read a sauce as the dish it is served with', () => {
+    const glutenFree = profile({ diets: ['gluten-free'] });
+    expect(ingredientViolations('pasta sauce', glutenFree)).toEqual([]);
+    expect(ingredientViolations('pasta', glutenFree)).toEqual(['pasta is not gluten-free']);
+  });
+
+  it('does not let a compound pass as its head', () => {
+    expect(ingredientViolations('peanut butter', profile({ allergens: ['peanut'] }))).toEqual([
+      'peanut butter contains peanut (allergen)',
+    ]);
+    expect(ingredientViolations('peanut butter', profile({ allergens: ['milk'] }))).toEqual([]);
+    expect(ingredientViolations('almond milk', profile({ diets: ['dairy-free'] }))).toEqual([]);
+    expect(ingredientViolations('almond milk', profile({ allergens: ['tree nut'] }))).toHaveLength(1);
+  });
+
+  it('checks every name a pantry item goes by', () => {
+    const peanut = profile({ allergens: ['peanut'] });
+    expect(ingredientViolations('butter', peanut)).toEqual([]);
+    expect(ingredientViolations(['Peanut Butter', 'butter'], peanut)).toEqual([
+      'Peanut Butter contains peanut (allergen)',
+    ]);
+  });
+
+  it('matches multi-word and plural dislikes', () => {
+    expect(ingredientViolations('green pepper', profile({ dislikes: ['green pepper'] }))).toEqual([
+      'green pepper is disliked',
+    ]);
+    expect(ingredientViolations('Stuffed Mushrooms', profile({ dislikes: ['mushroom'] }))).toEqual([
+      'Stuffed Mushrooms is disliked',
+    ]);
+    expect(ingredientViolations('red pepper', profile({ dislikes: ['green pepper'] }))).toEqual([]);
+  });
+
+  it('treats a kind of a disliked catalog ingredient as disliked', () => {
+    expect(ingredientViolations('cheddar', profile({ dislikes: ['cheese'] }))).toEqual([
+      'cheddar is disliked',
+    ]);
+  });
+});
+
+describe('recipeViolations', () => {
+  const recipe: RecipeSuggestion = {
+    title: 'Peanut Noodles',
+    ingredients: [{ canonicalName: 'pasta', quantity: 200, unit: 'g', fromPantry: true }],
+    pantryIngredientsUsed: ['pasta'],
+    missingIngredients: [],
+    steps: [],
+    estimatedCookingTimeMinutes: 20,
+    servings: 2,
+    equipment: [],
+  };
+
+  it('checks the title as well as the ingredients', () => {
+    expect(recipeViolations(recipe, profile({ allergens: ['peanut'] }))).toEqual([
+      'Peanut Noodles contains peanut (allergen)',
+    ]);
+  });
+
+  it('finds nothing without profile constraints', () => {
+    expect(recipeViolations(recipe, profile({}))).toEqual([]);
+  });
+});
@@ -0,0 +1,268 @@
+import { getCatalogEntry, ingredientLineage, ingredientSatisfies } from '@/lib/ingredientCatalog';
+import {
+  CATALOG_MATCH_CONFIDENCE,
+  canonicalizeIngredient,
+  tokenizeIngredientName,
+} from '@/lib/shelfLife';
+import type { Allergen, Diet, HouseholdProfile, RecipeSuggestion } from '@/lib/types';
+
+type IngredientTag =
+  | 'meat'
+  | 'pork'
+  | 'fish'
+  | 'shellfish'
+  | 'dairy'
+  | 'egg'
+  | 'gluten'
+  | 'soy'
+  | 'sesame'
+  | 'peanut'
+  | 'tree nut'
+  | 'alcohol'
+  | 'honey';
+
+export const DIETS: Diet[] = [
+  'vegetarian',
+  'vegan',
+  'pescatarian',
+  'halal',
+  'kosher',
+  'gluten-free',
+  'dairy-free',
+];
+
+export const ALLERGENS: Allergen[] = [
+  'milk',
+  'egg',
+  'fish',
+  'shellfish',
+  'peanut',
+  'tree nut',
+  'wheat',
+  'soy',
+  'sesame',
+];
+
+export const EMPTY_HOUSEHOLD_PROFILE: HouseholdProfile = { diets: [], allergens: [], dislikes: [] };
+
+const FORBIDDEN_BY_DIET: Record<Diet, IngredientTag[]> = {
+  vegetarian: ['meat', 'pork', 'fish', 'shellfish'],
+  vegan: ['meat', 'pork', 'fish', 'shellfish', 'dairy', 'egg', 'honey'],
+  pescatarian: ['meat', 'pork'],
+  halal: ['pork', 'alcohol'],
+  kosher: ['pork', 'shellfish'],
+  'gluten-free': ['gluten'],
+  'dairy-free': ['dairy'],
+};
+
+const TAG_BY_ALLERGEN: Record<Allergen, IngredientTag> = {
+  milk: 'dairy',
+  egg: 'egg',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  peanut: 'peanut',
+  'tree nut': 'tree nut',
+  wheat: 'gluten',
+  soy: 'soy',
+  sesame: 'sesame',
+};
+
+// Catalog ingredients carrying each tag. Children inherit it, so bacon is pork because pork is.
+const TAGGED_CATALOG_INGREDIENTS: Record<IngredientTag, string[]> = {
+  meat: ['chicken', 'beef', 'pork', 'turkey'],
+  pork: ['pork'],
+  fish: ['fish', 'anchovy paste'],
+  shellfish: ['shrimp'],
+  dairy: ['milk', 'cream', 'butter', 'cheese', 'yogurt', 'sour cream', 'ice cream', 'pesto'],
+  egg: ['egg', 'mayonnaise'],
+  gluten: ['bread', 'pasta', 'flour', 'tortilla', 'soy sauce'],
+  soy: ['tofu', 'soy sauce', 'soy milk', 'peanut sauce'],
+  sesame: ['hummus'],
+  peanut: ['peanut butter', 'peanut sauce'],
+  'tree nut': ['almond milk', 'pesto'],
+  alcohol: [],
+  honey: [],
+};
+
+// Words that give away a tag in any name, including catalog names filed under a neutral entry
+// ("chicken stock" is broth) and model output the catalog does not know.
+const TAG_KEYWORDS: Record<IngredientTag, string[]> = {
+  meat: ['beef', 'chicken', 'pork', 'lamb', 'veal', 'turkey', 'duck', 'ham', 'bacon', 'sausage',
+    'prosciutto', 'salami', 'pepperoni', 'chorizo', 'steak', 'gelatin'],
+  pork: ['pork', 'ham', 'bacon', 'prosciutto', 'pepperoni', 'chorizo', 'lard', 'pancetta'],
+  fish: ['fish', 'salmon', 'tuna', 'cod', 'anchovy', 'anchovies', 'sardine', 'tilapia', 'halibut',
+    'trout'],
+  shellfish: ['shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop'],
+  dairy: ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'ghee', 'whey', 'parmesan', 'mozzarella',
+    'cheddar', 'feta', 'ricotta'],
+  egg: ['egg', 'eggs', 'mayonnaise', 'mayo'],
+  gluten: ['wheat', 'flour', 'bread', 'pasta', 'noodle', 'noodles', 'spaghetti', 'couscous',
+    'barley', 'rye', 'breadcrumbs', 'tortilla', 'tortillas'],
+  soy: ['soy', 'tofu', 'edamame', 'tempeh', 'miso'],
+  sesame: ['sesame', 'tahini', 'hummus'],
+  peanut: ['peanut', 'peanuts'],
+  'tree nut': ['almond', 'almonds', 'walnut', 'walnuts', 'cashew', 'cashews', 'pecan', 'pecans',
+    'pistachio', 'pistachios', 'hazelnut', 'hazelnuts', 'macadamia'],
+  alcohol: ['wine', 'beer', 'rum', 'vodka', 'bourbon', 'whiskey', 'sake', 'mirin', 'brandy'],
+  honey: ['honey'],
+};
+
+// Plant-based products named after what they replace.
+const PLANT_BASED_WORDS = [
+  'almond',
+  'oat',
+  'soy',
+  'soya',
+  'coconut',
+  'rice',
+  'peanut',
+  'cashew',
+  'vegan',
+];
+
+// Dishes a sauce is named after but not made from: "pasta sauce" has no pasta in it.
+const SERVED_WITH_WORDS = ['pasta', 'spaghetti', 'noodle', 'noodles'];
+
+function keywordTokens(name: string): string[] {
+  const tokens = tokenizeIngredientName(name);
+  return tokens.filter(
+    (token, index) => !(SERVED_WITH_WORDS.includes(token) && tokens[index + 1] === 'sauce'),
+  );
+}
+
+// The catalog name when the match is exact or a synonym. Fuzzy matches are not trusted here:
+// "peanut butter" must not pass as butter.
+function confidentCatalogName(name: string): string | null {
+  const { canonicalName, confidence } = canonicalizeIngredient(name);
+  return confidence >= CATALOG_MATCH_CONFIDENCE && getCatalogEntry(canonicalName) !== null
+    ? canonicalName
+    : null;
+}
+
+// Catalog tags and keyword tags are merged, so a catalog match can add a restriction but never
+// remove one: "chicken broth" is the catalog's broth and still meat.
+function ingredientTags(name: string): Set<IngredientTag> {
+  const catalogName = confidentCatalogName(name);
+  const lineage = catalogName ? ingredientLineage(catalogName).map((entry) => entry.canonicalName) : [];
+  const tokens = keywordTokens(name);
+  const keywordTags = new Set<IngredientTag>();
+  const tags = new Set<IngredientTag>();
+
+  for (const [tag, roots] of Object.entries(TAGGED_CATALOG_INGREDIENTS) as Array<
+    [IngredientTag, string[]]
+  >) {
+    if (roots.some((root) => lineage.includes(root))) tags.add(tag);
+    if (TAG_KEYWORDS[tag].some((keyword) => tokens.includes(keyword))) keywordTags.add(tag);
+  }
+
+  // "Almond milk" is not dairy, but only the keywords are overruled; catalog tags stand.
+  if (tokens.some((token) => PLANT_BASED_WORDS.includes(token))) keywordTags.delete('dairy');
+  keywordTags.forEach((tag) => tags.add(tag));
+  return tags;
+}
+
+// Good enough to line up plurals with their singular: "mushrooms", "tomatoes", "berries".
+function singularToken(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && /(?:ch|sh|x|o)es$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+function singularTokens(value: string): string[] {
+  return tokenizeIngredientName(value).map(singularToken);
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  if (sequence.length === 0) return false;
+  for (let start = 0; start + sequence.length <= tokens.length; start += 1) {
+    if (sequence.every((token, offset) => tokens[start + offset] === token)) return true;
+  }
+  return false;
+}
+
+// A name is disliked when the dislike's words appear in it in order ("green pepper" in "diced
+// green peppers"), or when both match the catalog and the name is the dislike or a kind of it.
+function isDisliked(name: string, dislike: string): boolean {
+  if (containsSequence(singularTokens(name), singularTokens(dislike))) return true;
+  const catalogName = confidentCatalogName(name);
+  const dislikedName = confidentCatalogName(dislike);
+  return (
+    catalogName !== null && dislikedName !== null && ingredientSatisfies(catalogName, dislikedName)
+  );
+}
+
+export function isHouseholdProfile(value: unknown): value is HouseholdProfile {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    Array.isArray(candidate.diets) &&
+    Array.isArray(candidate.allergens) &&
+    Array.isArray(candidate.dislikes)
+  );
+}
+
+// Keeps only known diets and allergens and trimmed, de-duplicated dislikes.
+export function normalizeHouseholdProfile(value: unknown): HouseholdProfile {
+  if (!isHouseholdProfile(value)) return EMPTY_HOUSEHOLD_PROFILE;
+  const dislikes = value.dislikes
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return {
+    diets: DIETS.filter((diet) => value.diets.includes(diet)),
+    allergens: ALLERGENS.filter((allergen) => value.allergens.includes(allergen)),
+    dislikes: [...new Set(dislikes)],
+    ...(typeof value.updatedAt === 'string' ? { updatedAt: value.updatedAt } : {}),
+  };
+}
+
+export function hasProfileConstraints(profile: HouseholdProfile): boolean {
+  return profile.diets.length + profile.allergens.length + profile.dislikes.length > 0;
+}
+
+// Reasons the ingredient breaks the profile, e.g. "contains peanut (allergen)". Empty when allowed.
+// Pass every name the ingredient goes by, such as a pantry item's display and canonical names: a
+// receipt line stored as butter may still read "Peanut Butter". Reasons use the first name.
+export function ingredientViolations(names: string | string[], profile: HouseholdProfile): string[] {
+  const allNames = [...new Set(typeof names === 'string' ? [names] : names)].filter(Boolean);
+  const [name] = allNames;
+  if (!name) return [];
+  const tags = new Set(allNames.flatMap((entry) => [...ingredientTags(entry)]));
+  const reasons: string[] = [];
+
+  for (const allergen of profile.allergens) {
+    if (tags.has(TAG_BY_ALLERGEN[allergen])) reasons.push(`${name} contains ${allergen} (allergen)`);
+  }
+  for (const diet of profile.diets) {
+    if (FORBIDDEN_BY_DIET[diet].some((tag) => tags.has(tag))) reasons.push(`${name} is not ${diet}`);
+  }
+  for (const dislike of profile.dislikes) {
+    if (allNames.some((entry) => isDisliked(entry, dislike))) reasons.push(`${name} is disliked`);
+  }
+  return reasons;
+}
+
+// Checks every ingredient name the recipe uses, and its title, which often names what the
+// ingredient list leaves vague ("Peanut Noodles").
+export function recipeViolations(recipe: RecipeSuggestion, profile: HouseholdProfile): string[] {
+  if (!hasProfileConstraints(profile)) return [];
+  const names = new Set([
+    recipe.title,
+    ...recipe.ingredients.map((ingredient) => ingredient.canonicalName),
+    ...recipe.pantryIngredientsUsed,
+    ...recipe.missingIngredients,
+  ]);
+  return [...names].flatMap((name) => ingredientViolations(name, profile));
+}
+
+// Plain-language limits for the model prompt.
+export function describeProfileConstraints(profile: HouseholdProfile): string[] {
+  return [
+    ...profile.diets.map((diet) => `Every recipe must be ${diet}.`),
+    ...profile.allergens.map((allergen) => `No ingredient may contain ${allergen} (allergy).`),
+    ...(profile.dislikes.length > 0
+      ? [`Never use these disliked ingredients: ${profile.dislikes.join(', ')}.`]
+      : []),
+  ];
+}
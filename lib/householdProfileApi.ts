@@ -0,0 +1,43 @@
+import type { HouseholdProfile } from '@/lib/types';
+
+type HouseholdProfilePayload = {
+  profile?: HouseholdProfile;
+  error?: string;
+};
+
+async function requestHouseholdProfile(
+  init: RequestInit,
+  fallbackError: string,
+): Promise<HouseholdProfile> {
+  const endpoint = '/api/household-profile';
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as HouseholdProfilePayload;
+  if (!response.ok || !payload.profile) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return payload.profile;
+}
+
+export function fetchHouseholdProfile(): Promise<HouseholdProfile> {
+  return requestHouseholdProfile({ cache: 'no-store' }, 'Could not load household profile.');
+}
+
+export function saveHouseholdProfile(profile: HouseholdProfile): Promise<HouseholdProfile> {
+  return requestHouseholdProfile(
+    { method: 'PUT', body: JSON.stringify({ profile }) },
+    'Could not save household profile.',
+  );
+}
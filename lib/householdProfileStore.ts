@@ -0,0 +1,16 @@
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { EMPTY_HOUSEHOLD_PROFILE, normalizeHouseholdProfile } from '@/lib/householdProfile';
+import type { HouseholdProfile } from '@/lib/types';
+
+const PROFILE_FILE = 'household-profile';
+
+export async function getHouseholdProfile(): Promise<HouseholdProfile> {
+  return normalizeHouseholdProfile(await readJsonFile<unknown>(PROFILE_FILE, EMPTY_HOUSEHOLD_PROFILE));
+}
+
+export function saveHouseholdProfile(input: HouseholdProfile): Promise<HouseholdProfile> {
+  return updateJsonFile<unknown, HouseholdProfile>(PROFILE_FILE, EMPTY_HOUSEHOLD_PROFILE, () => {
+    const profile = normalizeHouseholdProfile({ ...input, updatedAt: new Date().toISOString() });
+    return { next: profile, result: profile };
+  });
+}
@@ -0,0 +1,155 @@
+import catalogData from '@/data/ingredients.v1.json';
+import type { StorageLocation } from '@/lib/types';
+
+export type IngredientCategory =
+  | 'produce'
+  | 'herbs'
+  | 'dairy'
+  | 'protein'
+  | 'bakery'
+  | 'grains'
+  | 'pantry'
+  | 'condiments'
+  | 'beverages'
+  | 'other';
+
+export const INGREDIENT_CATEGORIES: IngredientCategory[] = [
+  'produce',
+  'herbs',
+  'dairy',
+  'protein',
+  'bakery',
+  'grains',
+  'pantry',
+  'condiments',
+  'beverages',
+  'other',
+];
+
+export type ShelfLifeProfile = {
+  defaultLocation: StorageLocation;
+  opened?: number;
+} & Partial<Record<StorageLocation, number>>;
+
+export type CatalogEntry = {
+  canonicalName: string;
+  category: IngredientCategory;
+  // A more general ingredient this one can stand in for, e.g. cheddar -> cheese.
+  parent?: string;
+  synonyms: string[];
+  // Missing values are inherited from the parent.
+  shelfLife?: Partial<ShelfLifeProfile>;
+};
+
+type IngredientCatalog = {
+  version: number;
+  ingredients: CatalogEntry[];
+};
+
+export const INGREDIENT_CATALOG_VERSION = 1;
+
+const LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+// Catalog keys ignore case, spacing and punctuation so "Chicken Breast" and "chickenbreast" agree.
+export function catalogKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function isCategory(value: unknown): value is IngredientCategory {
+  return typeof value === 'string' && INGREDIENT_CATEGORIES.includes(value as IngredientCategory);
+}
+
+function readShelfLife(value: unknown): Partial<ShelfLifeProfile> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const profile: Partial<ShelfLifeProfile> = {};
+  if (typeof raw.defaultLocation === 'string' && LOCATIONS.includes(raw.defaultLocation as StorageLocation)) {
+    profile.defaultLocation = raw.defaultLocation as StorageLocation;
+  }
+  for (const field of [...LOCATIONS, 'opened'] as const) {
+    const days = raw[field];
+    if (typeof days === 'number' && Number.isFinite(days) && days > 0) profile[field] = days;
+  }
+  return profile;
+}
+
+function readCatalog(data: unknown): IngredientCatalog {
+  const raw = data as { version?: unknown; ingredients?: unknown };
+  if (raw.version !== INGREDIENT_CATALOG_VERSION || !Array.isArray(raw.ingredients)) {
+    throw new Error(`Ingredient catalog must be version ${INGREDIENT_CATALOG_VERSION}.`);
+  }
+
+  const ingredients = raw.ingredients.flatMap((value): CatalogEntry[] => {
+    const entry = value as Record<string, unknown>;
+    if (typeof entry.canonicalName !== 'string' || !entry.canonicalName.trim()) return [];
+    return [
+      {
+        canonicalName: entry.canonicalName.trim().toLowerCase(),
+        category: isCategory(entry.category) ? entry.category : 'other',
+        parent: typeof entry.parent === 'string' ? entry.parent.trim().toLowerCase() : undefined,
+        synonyms: Array.isArray(entry.synonyms)
+          ? entry.synonyms.filter((synonym): synonym is string => typeof synonym === 'string')
+          : [],
+        shelfLife: readShelfLife(entry.shelfLife),
+      },
+    ];
+  });
+  return { version: INGREDIENT_CATALOG_VERSION, ingredients };
+}
+
+const CATALOG = readCatalog(catalogData);
+
+const ENTRIES_BY_KEY = new Map(CATALOG.ingredients.map((entry) => [catalogKey(entry.canonicalName), entry]));
+
+const ENTRIES_BY_SYNONYM = new Map(
+  CATALOG.ingredients.flatMap((entry) =>
+    entry.synonyms.map((synonym) => [catalogKey(synonym), entry] as const),
+  ),
+);
+
+export function listCatalogEntries(): CatalogEntry[] {
+  return CATALOG.ingredients;
+}
+
+export function getCatalogEntry(canonicalName: string): CatalogEntry | null {
+  return ENTRIES_BY_KEY.get(catalogKey(canonicalName)) ?? null;
+}
+
+export function findCatalogEntryBySynonym(name: string): CatalogEntry | null {
+  return ENTRIES_BY_SYNONYM.get(catalogKey(name)) ?? null;
+}
+
+export function ingredientCategory(canonicalName: string): IngredientCategory {
+  return getCatalogEntry(canonicalName)?.category ?? 'other';
+}
+
+// The ingredient itself followed by each more general ingredient up the hierarchy.
+export function ingredientLineage(canonicalName: string): CatalogEntry[] {
+  const lineage: CatalogEntry[] = [];
+  let entry = getCatalogEntry(canonicalName);
+  while (entry && !lineage.includes(entry)) {
+    lineage.push(entry);
+    entry = entry.parent ? getCatalogEntry(entry.parent) : null;
+  }
+  return lineage;
+}
+
+export function resolveShelfLifeProfile(canonicalName: string): ShelfLifeProfile | null {
+  const lineage = ingredientLineage(canonicalName);
+  if (!lineage.some((entry) => entry.shelfLife)) return null;
+
+  // Apply the most general profile first so the ingredient's own values win.
+  const merged = lineage.reduceRight<Partial<ShelfLifeProfile>>(
+    (profile, entry) => ({ ...profile, ...entry.shelfLife }),
+    {},
+  );
+  return merged.defaultLocation ? (merged as ShelfLifeProfile) : null;
+}
+
+// True when what the pantry has can be used where a recipe asks for `needed`: the same
+// ingredient or a more specific one, so cheddar satisfies cheese but not the other way round.
+export function ingredientSatisfies(available: string, needed: string): boolean {
+  const neededKey = catalogKey(needed);
+  if (catalogKey(available) === neededKey) return true;
+  return ingredientLineage(available).some((entry) => catalogKey(entry.canonicalName) === neededKey);
+}
@@ -0,0 +1,275 @@
+import { DEFAULT_CURRENCY } from '@/lib/constants';
+import { REMOVAL_OUTCOMES } from '@/lib/ledger';
+import { roundMoney } from '@/lib/pricing';
+import { BASE_UNITS, convertQuantity, isUnit, unitDimension } from '@/lib/units';
+import type { UnitDimension } from '@/lib/units';
+import type { ItemSource, LedgerEntry, RemovalOutcome, Unit } from '@/lib/types';
+
+export type QuantityTotal = {
+  quantity: number;
+  unit: Unit;
+};
+
+// Grams, millilitres, items and packs cannot be added together, so each outcome has one total per
+// kind of measure, in that measure's base unit.
+export type OutcomeTotals = Record<RemovalOutcome, QuantityTotal[]>;
+
+export type OutcomeBreakdown = {
+  totals: OutcomeTotals;
+  wasteRate: number;
+};
+
+export type MonthlyInsight = OutcomeBreakdown & {
+  month: string;
+};
+
+export type IngredientInsight = OutcomeBreakdown & {
+  canonicalName: string;
+  wastedCount: number;
+};
+
+export type SourceInsight = OutcomeBreakdown & {
+  source: ItemSource;
+};
+
+export type WasteTrend = {
+  slopePerMonth: number;
+  direction: 'improving' | 'worsening' | 'flat';
+  // One point per calendar month; months where nothing was eaten or thrown out have no rate.
+  points: Array<{ month: string; wasteRate: number | null; fitted: number }>;
+};
+
+export type MoneyTotal = {
+  currency: string;
+  amount: number;
+};
+
+export type WasteInsights = OutcomeBreakdown & {
+  entryCount: number;
+  wastedValue: MoneyTotal[];
+  unpricedWastedCount: number;
+  byMonth: MonthlyInsight[];
+  byIngredient: IngredientInsight[];
+  bySource: SourceInsight[];
+  mostWasted: IngredientInsight[];
+  trend: WasteTrend;
+};
+
+type OutcomeAmounts = Record<RemovalOutcome, number>;
+
+// Removals of one kind of measure, in its base unit. `rated` counts the eaten or thrown-out ones.
+type DimensionTally = {
+  amounts: OutcomeAmounts;
+  rated: number;
+};
+
+type Tally = {
+  dimensions: Map<UnitDimension, DimensionTally>;
+  wastedCount: number;
+};
+
+const DIMENSIONS = Object.keys(BASE_UNITS) as UnitDimension[];
+
+// Changes in waste rate smaller than half a percentage point per month are noise.
+const FLAT_TREND_THRESHOLD = 0.005;
+
+function emptyAmounts(): OutcomeAmounts {
+  return REMOVAL_OUTCOMES.reduce((acc, outcome) => {
+    acc[outcome] = 0;
+    return acc;
+  }, {} as OutcomeAmounts);
+}
+
+function emptyTally(): Tally {
+  return { dimensions: new Map(), wastedCount: 0 };
+}
+
+function roundQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+function addToTally(tally: Tally, entry: LedgerEntry): void {
+  const unit = isUnit(entry.unit) ? entry.unit : 'item';
+  const dimension = unitDimension(unit);
+  const dimensionTally = tally.dimensions.get(dimension) ?? { amounts: emptyAmounts(), rated: 0 };
+  dimensionTally.amounts[entry.outcome] +=
+    convertQuantity(entry.quantity, unit, BASE_UNITS[dimension]) ?? entry.quantity;
+  if (entry.outcome === 'consumed' || entry.outcome === 'wasted') dimensionTally.rated += 1;
+  tally.dimensions.set(dimension, dimensionTally);
+  if (entry.outcome === 'wasted') tally.wastedCount += 1;
+}
+
+// Share of food that left the pantry as waste, out of everything that was eaten or wasted.
+// Donated and frozen food is excluded because it was neither eaten nor lost. Each kind of measure
+// has its own rate, and the rates are weighted by how many eaten or thrown-out removals they cover.
+function wasteRate(tally: Tally): number {
+  let weighted = 0;
+  let rated = 0;
+  for (const { amounts, rated: count } of tally.dimensions.values()) {
+    const denominator = amounts.wasted + amounts.consumed;
+    if (count === 0 || denominator === 0) continue;
+    weighted += (amounts.wasted / denominator) * count;
+    rated += count;
+  }
+  return rated === 0 ? 0 : Number((weighted / rated).toFixed(4));
+}
+
+function hasRate(tally: Tally): boolean {
+  return [...tally.dimensions.values()].some((dimension) => dimension.rated > 0);
+}
+
+function toBreakdown(tally: Tally): OutcomeBreakdown {
+  const totals = REMOVAL_OUTCOMES.reduce((acc, outcome) => {
+    acc[outcome] = DIMENSIONS.flatMap((dimension) => {
+      const quantity = roundQuantity(tally.dimensions.get(dimension)?.amounts[outcome] ?? 0);
+      return quantity > 0 ? [{ quantity, unit: BASE_UNITS[dimension] }] : [];
+    });
+    return acc;
+  }, {} as OutcomeTotals);
+  return { totals, wasteRate: wasteRate(tally) };
+}
+
+// Adds totals of the same unit, such as donated and frozen food shown together.
+export function combineQuantityTotals(...lists: QuantityTotal[][]): QuantityTotal[] {
+  const combined = new Map<Unit, number>();
+  for (const { quantity, unit } of lists.flat()) {
+    combined.set(unit, (combined.get(unit) ?? 0) + quantity);
+  }
+  return [...combined].map(([unit, quantity]) => ({ quantity: roundQuantity(quantity), unit }));
+}
+
+function monthKey(dateIso: string): string {
+  return new Date(dateIso).toISOString().slice(0, 7);
+}
+
+// Every month from `first` to `last`, so months without removals still take their place in time.
+function monthRange(first: string, last: string): string[] {
+  const [year, month] = first.split('-').map(Number);
+  const months: string[] = [];
+  for (let offset = 0; ; offset += 1) {
+    const key = new Date(Date.UTC(year, month - 1 + offset, 1)).toISOString().slice(0, 7);
+    if (key > last) break;
+    months.push(key);
+  }
+  return months;
+}
+
+function groupTallies<K extends string>(
+  entries: LedgerEntry[],
+  keyOf: (entry: LedgerEntry) => K,
+): Map<K, Tally> {
+  const groups = new Map<K, Tally>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const tally = groups.get(key) ?? emptyTally();
+    addToTally(tally, entry);
+    groups.set(key, tally);
+  }
+  return groups;
+}
+
+// Least-squares line through the monthly waste rates, with x in months since the first one. Months
+// without a rate are skipped by the fit but keep their place on the time axis.
+function computeTrend(byMonth: MonthlyInsight[], hasRates: boolean[]): WasteTrend {
+  const rated = byMonth.flatMap((month, index) =>
+    hasRates[index] ? [{ x: index, y: month.wasteRate }] : [],
+  );
+  const count = rated.length;
+  const meanX = count === 0 ? 0 : rated.reduce((sum, point) => sum + point.x, 0) / count;
+  const meanY = count === 0 ? 0 : rated.reduce((sum, point) => sum + point.y, 0) / count;
+  let numerator = 0;
+  let denominator = 0;
+  for (const point of rated) {
+    numerator += (point.x - meanX) * (point.y - meanY);
+    denominator += (point.x - meanX) ** 2;
+  }
+
+  const slope = count < 2 || denominator === 0 ? 0 : numerator / denominator;
+  const intercept = meanY - slope * meanX;
+  const direction =
+    Math.abs(slope) < FLAT_TREND_THRESHOLD ? 'flat' : slope < 0 ? 'improving' : 'worsening';
+
+  return {
+    slopePerMonth: Number(slope.toFixed(4)),
+    direction,
+    points: byMonth.map((month, index) => ({
+      month: month.month,
+      wasteRate: hasRates[index] ? month.wasteRate : null,
+      fitted: Number(Math.min(1, Math.max(0, intercept + slope * index)).toFixed(4)),
+    })),
+  };
+}
+
+function sumWastedValue(entries: LedgerEntry[]): MoneyTotal[] {
+  const byCurrency = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.outcome !== 'wasted' || typeof entry.cost !== 'number') continue;
+    const currency = entry.currency ?? DEFAULT_CURRENCY;
+    byCurrency.set(currency, (byCurrency.get(currency) ?? 0) + entry.cost);
+  }
+  return Array.from(byCurrency.entries()).map(([currency, amount]) => ({
+    currency,
+    amount: roundMoney(amount),
+  }));
+}
+
+export function computeWasteInsights(
+  entries: LedgerEntry[],
+  options?: { months?: number; topWasted?: number },
+): WasteInsights {
+  const months = options?.months ?? 12;
+  const topWasted = options?.topWasted ?? 5;
+
+  const overall = emptyTally();
+  for (const entry of entries) {
+    addToTally(overall, entry);
+  }
+
+  const monthly = groupTallies(entries, (entry) => monthKey(entry.recordedAt));
+  const recordedMonths = [...monthly.keys()].sort();
+  const monthTallies =
+    recordedMonths.length === 0
+      ? []
+      : monthRange(recordedMonths[0], recordedMonths[recordedMonths.length - 1])
+          .slice(-months)
+          .map((month) => ({ month, tally: monthly.get(month) ?? emptyTally() }));
+  const byMonth = monthTallies.map(({ month, tally }) => ({ month, ...toBreakdown(tally) }));
+
+  const byIngredient = Array.from(groupTallies(entries, (entry) => entry.canonicalName).entries())
+    .map(([canonicalName, tally]) => ({
+      canonicalName,
+      wastedCount: tally.wastedCount,
+      ...toBreakdown(tally),
+    }))
+    .sort(
+      (a, b) =>
+        b.wastedCount - a.wastedCount ||
+        b.wasteRate - a.wasteRate ||
+        a.canonicalName.localeCompare(b.canonicalName),
+    );
+
+  const bySource = Array.from(groupTallies(entries, (entry) => entry.source).entries()).map(
+    ([source, tally]) => ({ source, ...toBreakdown(tally) }),
+  );
+
+  const mostWasted = byIngredient
+    .filter((ingredient) => ingredient.wastedCount > 0)
+    .slice(0, topWasted);
+
+  return {
+    entryCount: entries.length,
+    ...toBreakdown(overall),
+    wastedValue: sumWastedValue(entries),
+    unpricedWastedCount: entries.filter(
+      (entry) => entry.outcome === 'wasted' && typeof entry.cost !== 'number',
+    ).length,
+    byMonth,
+    byIngredient,
+    bySource,
+    mostWasted,
+    trend: computeTrend(
+      byMonth,
+      monthTallies.map(({ tally }) => hasRate(tally)),
+    ),
+  };
+}
@@ -0,0 +1,46 @@
+import { roundMoney } from '@/lib/pricing';
+import type { InventoryItem, InventoryLot, LedgerEntry, RemovalOutcome } from '@/lib/types';
+
+export const REMOVAL_OUTCOMES: RemovalOutcome[] = ['consumed', 'wasted', 'donated', 'frozen'];
+
+export function isRemovalOutcome(value: unknown): value is RemovalOutcome {
+  return typeof value === 'string' && (REMOVAL_OUTCOMES as string[]).includes(value);
+}
+
+export function isLedgerEntry(entry: unknown): entry is LedgerEntry {
+  if (!entry || typeof entry !== 'object') return false;
+  const candidate = entry as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.canonicalName === 'string' &&
+    isRemovalOutcome(candidate.outcome) &&
+    typeof candidate.quantity === 'number' &&
+    typeof candidate.recordedAt === 'string'
+  );
+}
+
+// One entry per lot drawn from, so source, purchase date and cost follow the lot.
+export function buildLedgerEntry(
+  item: InventoryItem,
+  lot: InventoryLot,
+  outcome: RemovalOutcome,
+  quantity: number,
+  recipeTitle?: string,
+): LedgerEntry {
+  return {
+    id: crypto.randomUUID(),
+    itemId: item.id,
+    canonicalName: item.canonicalName,
+    displayName: item.displayName,
+    outcome,
+    quantity,
+    unit: item.unit,
+    source: lot.source,
+    purchaseDate: lot.purchaseDate,
+    ...(typeof lot.unitPrice === 'number'
+      ? { cost: roundMoney(lot.unitPrice * quantity), currency: lot.currency }
+      : {}),
+    ...(recipeTitle ? { recipeTitle } : {}),
+    recordedAt: new Date().toISOString(),
+  };
+}
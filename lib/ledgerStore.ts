@@ -0,0 +1,49 @@
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { isLedgerEntry } from '@/lib/ledger';
+import type { LedgerEntry } from '@/lib/types';
+
+const LEDGER_FILE = 'ledger';
+
+function sanitize(stored: unknown): LedgerEntry[] {
+  return Array.isArray(stored) ? stored.filter(isLedgerEntry) : [];
+}
+
+export async function listLedgerEntries(): Promise<LedgerEntry[]> {
+  return sanitize(await readJsonFile<unknown>(LEDGER_FILE, []));
+}
+
+export function appendLedgerEntries(entries: LedgerEntry[]): Promise<LedgerEntry[]> {
+  return updateJsonFile<unknown, LedgerEntry[]>(LEDGER_FILE, [], (stored) => ({
+    next: [...sanitize(stored), ...entries],
+    result: entries,
+  }));
+}
+
+export function removeLedgerEntries(ids: string[]): Promise<number> {
+  const removed = new Set(ids);
+  return updateJsonFile<unknown, number>(LEDGER_FILE, [], (stored) => {
+    const entries = sanitize(stored);
+    const next = entries.filter((entry) => !removed.has(entry.id));
+    return { next, result: entries.length - next.length };
+  });
+}
+
+// Runs a pantry change that records ledger entries through `record` before it writes. If the change
+// fails afterwards, the entries are taken back out so the ledger only holds removals that happened.
+export async function withLedgerRecording<R>(
+  change: (record: (entries: LedgerEntry[]) => Promise<LedgerEntry[]>) => Promise<R>,
+): Promise<R> {
+  const recorded: LedgerEntry[] = [];
+  try {
+    return await change(async (entries) => {
+      const appended = await appendLedgerEntries(entries);
+      recorded.push(...appended);
+      return appended;
+    });
+  } catch (error) {
+    if (recorded.length > 0) {
+      await removeLedgerEntries(recorded.map((entry) => entry.id));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonArrayStreamReader } from '@/lib/llm';
+
+const reply = '{"recipes": [{"title": "A"}, {"title": "B", }, {"title": "C {}"}], "note": "[x]"}';
+
+function readAll(text: string, chunkSize: number, resumeAt?: number) {
+  const items: Array<[unknown, number]> = [];
+  const reader = createJsonArrayStreamReader('recipes', (item, end) => items.push([item, end]), resumeAt);
+  for (let index = 0; index < text.length; index += chunkSize) {
+    reader.push(text.slice(index, index + chunkSize));
+  }
+  return items;
+}
+
+describe('createJsonArrayStreamReader', () => {
+  it('hands over each complete element with its end offset, skipping malformed ones', () => {
+    const items = readAll(reply, 5);
+    expect(items.map(([item]) => item)).toEqual([{ title: 'A' }, { title: 'C {}' }]);
+    expect(reply.slice(0, items[0][1]).endsWith('{"title": "A"}')).toBe(true);
+  });
+
+  it('resumes inside the array at an offset it reported', () => {
+    const [[, end]] = readAll(reply, reply.length);
+    expect(readAll(reply, reply.length, end).map(([item]) => item)).toEqual([{ title: 'C {}' }]);
+  });
+});
@@ -0,0 +1,164 @@
+import { createFixtureProvider } from '@/lib/llmFixture';
+import { createOpenAiCompatibleProvider, createOpenAiProvider } from '@/lib/llmOpenAi';
+
+export type LlmTask = 'receipt-ocr' | 'recipes' | 'shelf-life';
+
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export type LlmJsonSchema = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+export type LlmRequest = {
+  task: LlmTask;
+  system?: string;
+  prompt: string;
+  imageDataUrl?: string;
+  jsonSchema?: LlmJsonSchema;
+  // Providers without a search tool answer from the model alone.
+  webSearch?: boolean;
+  // Deterministic answer used by the fixture provider when no fixture file exists for the task.
+  fixture?: () => unknown;
+  // Receives the reply as it is generated. The full text is still returned when it is done.
+  onText?: (delta: string) => void;
+};
+
+export type LlmResult =
+  | { ok: true; text: string; model: string }
+  | { ok: false; status: number; detail: string };
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  modelFor: (task: LlmTask) => string;
+  complete: (request: LlmRequest) => Promise<LlmResult>;
+};
+
+const LLM_PROVIDER_NAMES: LlmProviderName[] = ['openai', 'openai-compatible', 'fixture'];
+
+function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && LLM_PROVIDER_NAMES.includes(value as LlmProviderName);
+}
+
+// LLM_PROVIDER picks the provider explicitly. Without it, OpenAI is used when OPENAI_API_KEY is
+// set and callers fall back to their local logic otherwise.
+export function getLlmProvider(): LlmProvider | null {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  const name = isLlmProviderName(configured)
+    ? configured
+    : process.env.OPENAI_API_KEY
+      ? 'openai'
+      : null;
+
+  if (configured && !isLlmProviderName(configured)) {
+    console.warn('[llm] unknown LLM_PROVIDER', { configured, using: name ?? 'none' });
+  }
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      return apiKey ? createOpenAiProvider(apiKey) : null;
+    }
+    case 'openai-compatible': {
+      const baseUrl = process.env.LLM_BASE_URL?.trim();
+      return baseUrl ? createOpenAiCompatibleProvider(baseUrl, process.env.LLM_API_KEY) : null;
+    }
+    case 'fixture':
+      return createFixtureProvider(process.env.LLM_FIXTURE_DIR);
+    default:
+      return null;
+  }
+}
+
+export function describeMissingProvider(): string {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured === 'openai') return 'OPENAI_API_KEY is not configured';
+  if (configured === 'openai-compatible') return 'LLM_BASE_URL is not configured';
+  return 'no LLM provider is configured (set OPENAI_API_KEY or LLM_PROVIDER)';
+}
+
+// Models often wrap JSON in prose or markdown fences; this keeps the outermost object.
+export function parseJsonObject(text: string): Record<string, unknown> | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    const firstBrace = trimmed.indexOf('{');
+    const lastBrace = trimmed.lastIndexOf('}');
+    if (firstBrace < 0 || lastBrace <= firstBrace) return null;
+    const candidate = trimmed.slice(firstBrace, lastBrace + 1);
+    try {
+      const parsed = JSON.parse(candidate) as unknown;
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export type JsonArrayStreamReader = {
+  push: (delta: string) => void;
+};
+
+// Reads streamed model text and hands over each object in the array under `key` as soon as it is
+// complete, so a caller can use the first element while the model is still writing the rest.
+// `end` is the character offset just past the object. Passing such an offset as `resumeAt` reads
+// the same text again from there, inside the array, skipping everything before it.
+export function createJsonArrayStreamReader(
+  key: string,
+  onItem: (item: unknown, end: number) => void,
+  resumeAt?: number,
+): JsonArrayStreamReader {
+  const arrayStart = new RegExp(`"${key}"\\s*:\\s*\\[`);
+  let text = '';
+  // Where scanning resumes; -1 until the array has been found.
+  let position = resumeAt ?? -1;
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+
+  return {
+    push: (delta) => {
+      if (finished) return;
+      text += delta;
+      if (position < 0) {
+        const match = arrayStart.exec(text);
+        if (!match) return;
+        position = match.index + match[0].length;
+      }
+
+      for (; position < text.length && !finished; position += 1) {
+        const char = text[position];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+        } else if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          if (depth === 0) itemStart = position;
+          depth += 1;
+        } else if (char === '}' || char === ']') {
+          if (depth === 0) {
+            finished = true;
+          } else {
+            depth -= 1;
+            if (depth === 0 && char === '}') {
+              try {
+                onItem(JSON.parse(text.slice(itemStart, position + 1)) as unknown, position + 1);
+              } catch {
+                // A malformed element is skipped; callers read what was not handed over from the
+                // full reply afterwards.
+              }
+            }
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LlmProvider, LlmRequest, LlmResult, LlmTask } from '@/lib/llm';
+
+const FIXTURE_MODEL = 'fixture';
+
+async function readFixtureFile(fixtureDir: string, task: LlmTask): Promise<string | null> {
+  try {
+    return await readFile(path.join(fixtureDir, `${task}.json`), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Answers without any network access: `<LLM_FIXTURE_DIR>/<task>.json` when present, otherwise the
+// deterministic answer the caller supplies for its task.
+export function createFixtureProvider(fixtureDir: string | undefined): LlmProvider {
+  return {
+    name: 'fixture',
+    modelFor: () => FIXTURE_MODEL,
+    complete: async (request: LlmRequest): Promise<LlmResult> => {
+      const fromFile = fixtureDir ? await readFixtureFile(fixtureDir, request.task) : null;
+      if (fromFile === null && !request.fixture) {
+        return { ok: false, status: 501, detail: `No fixture available for task "${request.task}".` };
+      }
+      const text = fromFile ?? JSON.stringify(request.fixture?.());
+      // Fixtures are not generated, so a streaming caller gets the whole answer as one delta.
+      request.onText?.(text);
+      return { ok: true, text, model: FIXTURE_MODEL };
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import type { LlmProvider, LlmRequest, LlmResult, LlmTask } from '@/lib/llm';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+function openAiModelFor(task: LlmTask): string {
+  switch (task) {
+    case 'receipt-ocr':
+      return process.env.OPENAI_OCR_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    case 'shelf-life':
+      return process.env.OPENAI_SHELF_LIFE_MODEL || 'gpt-4.1-mini';
+    default:
+      return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+}
+
+function compatibleModelFor(task: LlmTask): string {
+  const model = process.env.LLM_MODEL || 'llama3.1';
+  return task === 'receipt-ocr' ? process.env.LLM_OCR_MODEL || model : model;
+}
+
+function buildHeaders(apiKey: string | undefined): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+}
+
+function buildMessages(request: LlmRequest) {
+  const userContent = request.imageDataUrl
+    ? [
+        { type: 'text', text: request.prompt },
+        { type: 'image_url', image_url: { url: request.imageDataUrl } },
+      ]
+    : request.prompt;
+
+  return [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    { role: 'user', content: userContent },
+  ];
+}
+
+async function chatCompletion(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+  request: LlmRequest,
+): Promise<LlmResult> {
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: buildHeaders(apiKey),
+    body: JSON.stringify({
+      model,
+      messages: buildMessages(request),
+      ...(request.onText ? { stream: true } : {}),
+      ...(request.jsonSchema
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: request.jsonSchema.name, strict: true, schema: request.jsonSchema.schema },
+            },
+          }
+        : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    return { ok: false, status: response.status, detail: await response.text() };
+  }
+
+  if (request.onText && response.body) {
+    return { ok: true, text: await readStreamedCompletion(response.body, request.onText), model };
+  }
+
+  const payload = (await response.json()) as {
+    choices?: Array<{ message?: { content?: string } }>;
+  };
+  return { ok: true, text: payload.choices?.[0]?.message?.content ?? '', model };
+}
+
+// Streamed completions arrive as server-sent events, one `data:` line per content delta.
+async function readStreamedCompletion(
+  body: ReadableStream<Uint8Array>,
+  onText: (delta: string) => void,
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  let text = '';
+
+  const handleLine = (line: string) => {
+    const data = line.trim();
+    if (!data.startsWith('data:')) return;
+    const value = data.slice('data:'.length).trim();
+    if (!value || value === '[DONE]') return;
+    try {
+      const chunk = JSON.parse(value) as { choices?: Array<{ delta?: { content?: string } }> };
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+    } catch {
+      // Keep-alive comments and partial events carry no content.
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(pending + decoder.decode());
+  return text;
+}
+
+function extractResponsesText(payload: unknown): string {
+  if (!payload || typeof payload !== 'object') return '';
+
+  const source = payload as {
+    output_text?: unknown;
+    output?: Array<{ content?: Array<{ type?: unknown; text?: unknown }> }>;
+  };
+
+  if (typeof source.output_text === 'string') {
+    return source.output_text;
+  }
+
+  const output = Array.isArray(source.output) ? source.output : [];
+  return output
+    .flatMap((block) => (Array.isArray(block.content) ? block.content : []))
+    .map((part) => {
+      if (!part || typeof part !== 'object') return '';
+      const typedPart = part as { type?: unknown; text?: unknown };
+      if (
+        (typedPart.type === 'output_text' || typedPart.type === 'text') &&
+        typeof typedPart.text === 'string'
+      ) {
+        return typedPart.text;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Web search is only available through the Responses API.
+async function webSearchResponse(apiKey: string, model: string, request: LlmRequest): Promise<LlmResult> {
+  const response = await fetch(`${OPENAI_BASE_URL}/responses`, {
+    method: 'POST',
+    headers: buildHeaders(apiKey),
+    body: JSON.stringify({
+      model,
+      tools: [{ type: 'web_search' }],
+      ...(request.system ? { instructions: request.system } : {}),
+      input: request.prompt,
+    }),
+  });
+
+  if (!response.ok) {
+    return { ok: false, status: response.status, detail: await response.text() };
+  }
+  return { ok: true, text: extractResponsesText(await response.json()), model };
+}
+
+export function createOpenAiProvider(apiKey: string): LlmProvider {
+  return {
+    name: 'openai',
+    modelFor: openAiModelFor,
+    complete: (request) => {
+      const model = openAiModelFor(request.task);
+      return request.webSearch
+        ? webSearchResponse(apiKey, model, request)
+        : chatCompletion(OPENAI_BASE_URL, apiKey, model, request);
+    },
+  };
+}
+
+// Any server exposing the OpenAI chat completions API, such as Ollama or llama.cpp.
+export function createOpenAiCompatibleProvider(baseUrl: string, apiKey: string | undefined): LlmProvider {
+  const normalizedBaseUrl = baseUrl.replace(/\/+$/, '');
+  return {
+    name: 'openai-compatible',
+    modelFor: compatibleModelFor,
+    complete: (request) =>
+      chatCompletion(normalizedBaseUrl, apiKey, compatibleModelFor(request.task), request),
+  };
+}
@@ -0,0 +1,66 @@
+import type { InventoryItem, MealPlan, MealPlanDay, RecipeConstraints } from '@/lib/types';
+
+type MealPlanPayload = {
+  plan?: MealPlan | null;
+  warning?: string;
+  error?: string;
+};
+
+export type MealPlanBuildInput = {
+  pantry: InventoryItem[];
+  constraints?: RecipeConstraints;
+  keep?: MealPlanDay[];
+  avoidTitles?: string[];
+};
+
+async function requestMealPlan(init: RequestInit, fallbackError: string): Promise<MealPlanPayload> {
+  const endpoint = '/api/meal-plan';
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as MealPlanPayload;
+  if (!response.ok) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return payload;
+}
+
+export async function fetchMealPlan(): Promise<MealPlan | null> {
+  const payload = await requestMealPlan({ cache: 'no-store' }, 'Could not load the meal plan.');
+  return payload.plan ?? null;
+}
+
+export async function buildMealPlan(
+  input: MealPlanBuildInput,
+): Promise<{ plan: MealPlan; warning?: string }> {
+  const payload = await requestMealPlan(
+    { method: 'POST', body: JSON.stringify(input) },
+    'Could not build the meal plan.',
+  );
+  if (!payload.plan) {
+    throw new Error('Could not build the meal plan.');
+  }
+  return { plan: payload.plan, warning: payload.warning };
+}
+
+export async function saveLockedDays(lockedDates: string[]): Promise<MealPlan> {
+  const payload = await requestMealPlan(
+    { method: 'PUT', body: JSON.stringify({ lockedDates }) },
+    'Could not save the meal plan.',
+  );
+  if (!payload.plan) {
+    throw new Error('Could not save the meal plan.');
+  }
+  return payload.plan;
+}
@@ -0,0 +1,34 @@
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { isMealPlan } from '@/lib/mealPlanner';
+import type { MealPlan } from '@/lib/types';
+
+const MEAL_PLAN_FILE = 'meal-plan';
+
+function sanitize(stored: unknown): MealPlan | null {
+  return isMealPlan(stored) ? stored : null;
+}
+
+export async function getMealPlan(): Promise<MealPlan | null> {
+  return sanitize(await readJsonFile<unknown>(MEAL_PLAN_FILE, null));
+}
+
+export function saveMealPlan(plan: MealPlan): Promise<MealPlan> {
+  return updateJsonFile<unknown, MealPlan>(MEAL_PLAN_FILE, null, () => ({
+    next: plan,
+    result: plan,
+  }));
+}
+
+// Locks exactly the given days of the saved plan. Returns null when there is no plan.
+export function setLockedDays(dates: string[]): Promise<MealPlan | null> {
+  return updateJsonFile<unknown, MealPlan | null>(MEAL_PLAN_FILE, null, (stored) => {
+    const plan = sanitize(stored);
+    if (!plan) return { next: stored, result: null };
+    const next: MealPlan = {
+      ...plan,
+      days: plan.days.map((day) => ({ ...day, locked: dates.includes(day.date) })),
+      updatedAt: new Date().toISOString(),
+    };
+    return { next, result: next };
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HOUSEHOLD_PROFILE } from '@/lib/householdProfile';
+import { buildMealPlanDays } from '@/lib/mealPlanner';
+import type { HouseholdProfile, MealPlanDay, RecipeSuggestion } from '@/lib/types';
+
+function recipe(title: string, canonicalNames: string[]): RecipeSuggestion {
+  return {
+    title,
+    ingredients: canonicalNames.map((canonicalName) => ({
+      canonicalName,
+      quantity: 1,
+      unit: 'item',
+      fromPantry: false,
+    })),
+    pantryIngredientsUsed: [],
+    missingIngredients: canonicalNames,
+    steps: [],
+    estimatedCookingTimeMinutes: 20,
+    servings: 2,
+    equipment: [],
+  };
+}
+
+const startDate = '2026-03-02';
+const roastChicken = recipe('Roast Chicken', ['chicken', 'potato']);
+const lentilSoup = recipe('Lentil Soup', ['lentils', 'carrot']);
+const keptChicken: MealPlanDay = { date: startDate, recipe: roastChicken, uses: [], locked: true };
+const vegetarian: HouseholdProfile = { ...EMPTY_HOUSEHOLD_PROFILE, diets: ['vegetarian'] };
+
+describe('buildMealPlanDays', () => {
+  it('keeps days that still fit the household profile', () => {
+    const { days, dropped } = buildMealPlanDays({
+      pantry: [],
+      candidates: [lentilSoup],
+      startDate,
+      keep: [keptChicken],
+    });
+    expect(days[0]).toMatchObject({ recipe: roastChicken, locked: true });
+    expect(dropped).toEqual([]);
+  });
+
+  it('drops kept days that no longer fit and plans them again', () => {
+    const { days, dropped } = buildMealPlanDays({
+      pantry: [],
+      candidates: [roastChicken, lentilSoup],
+      startDate,
+      keep: [keptChicken],
+      profile: vegetarian,
+    });
+    expect(dropped).toEqual(['Roast Chicken']);
+    expect(days.some((day) => day.recipe?.title === 'Roast Chicken')).toBe(false);
+    expect(days.filter((day) => day.recipe?.title === 'Lentil Soup')).toHaveLength(1);
+  });
+});
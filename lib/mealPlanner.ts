@@ -0,0 +1,258 @@
+import { EMPTY_HOUSEHOLD_PROFILE, recipeViolations } from '@/lib/householdProfile';
+import { ingredientSatisfies } from '@/lib/ingredientCatalog';
+import { lotExpirationDate, soonestExpirationDate } from '@/lib/pantry';
+import { convertQuantity } from '@/lib/units';
+import type {
+  HouseholdProfile,
+  InventoryItem,
+  MealPlan,
+  MealPlanDay,
+  PlannedIngredientUse,
+  ProjectedWaste,
+  RecipeSuggestion,
+} from '@/lib/types';
+
+export const MEAL_PLAN_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Using stock that would still be good after the plan ends saves nothing this week, so it only
+// breaks ties between dinners.
+const LATER_STOCK_WEIGHT = 0.1;
+
+// One lot of pantry stock as the plan uses it up.
+type StockLot = {
+  item: InventoryItem;
+  // The quantity when planning started; dinners are scored by the share of it they use.
+  initial: number;
+  remaining: number;
+  expiresOn: string;
+};
+
+type StockDraw = {
+  lot: StockLot;
+  quantity: number;
+};
+
+export type MealPlanInput = {
+  pantry: InventoryItem[];
+  // Recipes the open days choose from, best first. Each is used at most once.
+  candidates: RecipeSuggestion[];
+  startDate: string;
+  // Days carried over unchanged, matched by date, unless their dinner breaks `profile`.
+  keep?: MealPlanDay[];
+  // The household profile now; it may have changed since the kept days were planned.
+  profile?: HouseholdProfile;
+  // Titles the open days must not use, such as the recipe a swapped day had.
+  avoidTitles?: string[];
+};
+
+function toDay(dateIso: string): string {
+  return new Date(dateIso).toISOString().slice(0, 10);
+}
+
+function roundQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+export function todayDate(): string {
+  return toDay(new Date().toISOString());
+}
+
+export function planDates(startDate: string): string[] {
+  const start = Date.parse(`${startDate}T00:00:00.000Z`);
+  return Array.from({ length: MEAL_PLAN_DAYS }, (_, index) =>
+    new Date(start + index * DAY_MS).toISOString().slice(0, 10),
+  );
+}
+
+function stockFromPantry(pantry: InventoryItem[]): StockLot[] {
+  return pantry.flatMap((item) => {
+    const lots =
+      Array.isArray(item.lots) && item.lots.length > 0
+        ? item.lots.map((lot) => ({ quantity: lot.quantity, expiration: lotExpirationDate(lot) }))
+        : [{ quantity: item.quantity, expiration: soonestExpirationDate(item) }];
+    return lots
+      .filter((lot) => lot.quantity > 0)
+      .map((lot) => ({
+        item,
+        initial: lot.quantity,
+        remaining: lot.quantity,
+        expiresOn: toDay(lot.expiration),
+      }));
+  });
+}
+
+// The lots a recipe cooked on `date` would take from: for each pantry ingredient, matching lots that
+// are still good that day, soonest expiring first. An amount that does not convert to the item's
+// unit takes the whole lot, as cooking the recipe takes the whole item.
+function drawsForRecipe(recipe: RecipeSuggestion, stock: StockLot[], date: string): StockDraw[] {
+  const taken = new Map<StockLot, number>();
+  const available = (lot: StockLot) => lot.remaining - (taken.get(lot) ?? 0);
+
+  for (const ingredient of recipe.ingredients) {
+    if (!ingredient.fromPantry) continue;
+    const lots = stock
+      .filter(
+        (lot) =>
+          lot.expiresOn >= date &&
+          available(lot) > 0 &&
+          ingredientSatisfies(lot.item.canonicalName, ingredient.canonicalName),
+      )
+      .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+
+    // Still needed, as a share of the recipe's amount.
+    let needed = 1;
+    for (const lot of lots) {
+      if (needed <= 0) break;
+      const wanted = convertQuantity(ingredient.quantity * needed, ingredient.unit, lot.item.unit);
+      const quantity = wanted === null ? available(lot) : Math.min(wanted, available(lot));
+      taken.set(lot, (taken.get(lot) ?? 0) + quantity);
+      needed = wanted === null ? 0 : needed * (1 - quantity / wanted);
+    }
+  }
+
+  return [...taken].map(([lot, quantity]) => ({ lot, quantity }));
+}
+
+// How much stock a dinner saves from expiring, as shares of lots. Lots expiring sooner in the week
+// count more, because fewer later dinners could still use them.
+function rescueScore(draws: StockDraw[], dates: string[]): number {
+  const lastDate = dates[dates.length - 1];
+  return draws.reduce((total, { lot, quantity }) => {
+    const daysToSpare = dates.filter((date) => date > lot.expiresOn).length;
+    const weight =
+      lot.expiresOn <= lastDate ? 1 + daysToSpare / MEAL_PLAN_DAYS : LATER_STOCK_WEIGHT;
+    return total + (weight * quantity) / lot.initial;
+  }, 0);
+}
+
+function applyDraws(draws: StockDraw[]): PlannedIngredientUse[] {
+  const uses = new Map<string, PlannedIngredientUse>();
+  for (const { lot, quantity } of draws) {
+    lot.remaining = roundQuantity(lot.remaining - quantity);
+    const { item } = lot;
+    const use = uses.get(item.id) ?? {
+      itemId: item.id,
+      canonicalName: item.canonicalName,
+      displayName: item.displayName,
+      quantity: 0,
+      unit: item.unit,
+    };
+    uses.set(item.id, { ...use, quantity: roundQuantity(use.quantity + quantity) });
+  }
+  return [...uses.values()];
+}
+
+function projectWaste(stock: StockLot[], lastDate: string): ProjectedWaste[] {
+  const waste = new Map<string, ProjectedWaste>();
+  for (const lot of stock) {
+    if (lot.remaining <= 0 || lot.expiresOn > lastDate) continue;
+    const { item } = lot;
+    const entry = waste.get(item.id);
+    waste.set(item.id, {
+      itemId: item.id,
+      canonicalName: item.canonicalName,
+      displayName: item.displayName,
+      quantity: roundQuantity((entry?.quantity ?? 0) + lot.remaining),
+      unit: item.unit,
+      expiresOn: entry && entry.expiresOn < lot.expiresOn ? entry.expiresOn : lot.expiresOn,
+    });
+  }
+  return [...waste.values()].sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+}
+
+// Assigns one dinner to each day so pantry stock is used before it expires. Kept days take their
+// stock first; open days then get the unused candidates that save the most stock from expiring
+// unused, preferring fewer missing ingredients on ties. A kept dinner that breaks the current
+// profile, locked or not, is dropped and its day planned again; `dropped` lists their titles.
+export function buildMealPlanDays({
+  pantry,
+  candidates,
+  startDate,
+  keep = [],
+  profile = EMPTY_HOUSEHOLD_PROFILE,
+  avoidTitles = [],
+}: MealPlanInput): Pick<MealPlan, 'days' | 'projectedWaste'> & { dropped: string[] } {
+  const dates = planDates(startDate);
+  const stock = stockFromPantry(pantry);
+  const days = new Map<string, MealPlanDay>();
+  const dropped: string[] = [];
+
+  for (const date of dates) {
+    const kept = keep.find((day) => day.date === date);
+    if (!kept) continue;
+    if (kept.recipe && recipeViolations(kept.recipe, profile).length > 0) {
+      dropped.push(kept.recipe.title);
+      continue;
+    }
+    const uses = kept.recipe ? applyDraws(drawsForRecipe(kept.recipe, stock, date)) : [];
+    days.set(date, { date, recipe: kept.recipe, uses, locked: kept.locked });
+  }
+
+  const used = new Set([
+    ...avoidTitles,
+    ...dropped,
+    ...[...days.values()].flatMap((day) => (day.recipe ? [day.recipe.title] : [])),
+  ]);
+  // Each round places the dinner, on whichever open day, that saves the most stock. Placing the
+  // strongest dinners first stops an early day taking a recipe a later deadline depended on.
+  for (;;) {
+    let best: { date: string; recipe: RecipeSuggestion; draws: StockDraw[]; score: number } | null =
+      null;
+    for (const date of dates) {
+      if (days.has(date)) continue;
+      for (const recipe of candidates) {
+        if (used.has(recipe.title)) continue;
+        const draws = drawsForRecipe(recipe, stock, date);
+        const score = rescueScore(draws, dates);
+        if (
+          !best ||
+          score > best.score ||
+          (score === best.score &&
+            recipe.missingIngredients.length < best.recipe.missingIngredients.length)
+        ) {
+          best = { date, recipe, draws, score };
+        }
+      }
+    }
+    if (!best) break;
+    used.add(best.recipe.title);
+    days.set(best.date, {
+      date: best.date,
+      recipe: best.recipe,
+      uses: applyDraws(best.draws),
+      locked: false,
+    });
+  }
+
+  return {
+    days: dates.map(
+      (date) => days.get(date) ?? { date, recipe: null, uses: [], locked: false },
+    ),
+    projectedWaste: projectWaste(stock, dates[dates.length - 1]),
+    dropped,
+  };
+}
+
+export function isMealPlanDay(value: unknown): value is MealPlanDay {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.date === 'string' &&
+    typeof candidate.locked === 'boolean' &&
+    Array.isArray(candidate.uses) &&
+    (candidate.recipe === null || typeof candidate.recipe === 'object')
+  );
+}
+
+export function isMealPlan(value: unknown): value is MealPlan {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.startDate === 'string' &&
+    typeof candidate.source === 'string' &&
+    Array.isArray(candidate.projectedWaste) &&
+    Array.isArray(candidate.days) &&
+    candidate.days.every(isMealPlanDay)
+  );
+}
@@ -1,6 +1,21 @@
 import { PANTRY_STORAGE_KEY } from '@/lib/constants';
-import { canonicalizeIngredient, expirationDateForItem, estimateExpirationDate } from '@/lib/shelfLife';
-import type { InventoryItem } from '@/lib/types';
+import { derivePriceFields, roundUnitPrice } from '@/lib/pricing';
+import {
+  canonicalizeIngredient,
+  defaultStorageLocation,
+  expirationDateForItem,
+  estimateExpirationDate,
+  isStorageLocation,
+  openedExpirationDate,
+} from '@/lib/shelfLife';
+import { convertQuantity, isUnit, parseUnit } from '@/lib/units';
+import type {
+  InventoryItem,
+  InventoryItemPatch,
+  InventoryLot,
+  StorageLocation,
+  Unit,
+} from '@/lib/types';
 
 type LegacyIngredient = {
   id: string;
@@ -22,7 +37,7 @@ function isLegacyIngredient(item: unknown): item is LegacyIngredient {
   );
 }
 
-function isInventoryItem(item: unknown): item is InventoryItem {
+export function isInventoryItem(item: unknown): item is InventoryItem {
   if (!item || typeof item !== 'object') return false;
   const candidate = item as Record<string, unknown>;
   return (
@@ -34,22 +49,238 @@ function isInventoryItem(item: unknown): item is InventoryItem {
   );
 }
 
+function isInventoryLot(lot: unknown): lot is InventoryLot {
+  if (!lot || typeof lot !== 'object') return false;
+  const candidate = lot as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.quantity === 'number' &&
+    candidate.quantity > 0 &&
+    typeof candidate.purchaseDate === 'string' &&
+    typeof candidate.computedExpirationDate === 'string'
+  );
+}
+
+function roundQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+export function lotExpirationDate(lot: InventoryLot): string {
+  return lot.overrideExpirationDate ?? lot.computedExpirationDate;
+}
+
+function compareLotsOldestFirst(a: InventoryLot, b: InventoryLot): number {
+  return a.purchaseDate.localeCompare(b.purchaseDate) || a.createdAt.localeCompare(b.createdAt);
+}
+
+function soonestExpiringLot(lots: InventoryLot[]): InventoryLot {
+  return lots.reduce((soonest, lot) =>
+    new Date(lotExpirationDate(lot)) < new Date(lotExpirationDate(soonest)) ? lot : soonest,
+  );
+}
+
+// The date an item must be used by: that of its soonest-expiring lot.
+export function soonestExpirationDate(item: InventoryItem): string {
+  return Array.isArray(item.lots) && item.lots.length > 0
+    ? lotExpirationDate(soonestExpiringLot(item.lots))
+    : (item.overrideExpirationDate ?? item.computedExpirationDate);
+}
+
+// Items stored before lots existed become a single lot carrying the item's own id.
+function lotFromItem(item: InventoryItem): InventoryLot {
+  return {
+    id: item.id,
+    quantity: item.quantity,
+    purchaseDate: item.purchaseDate,
+    computedExpirationDate: item.computedExpirationDate,
+    overrideExpirationDate: item.overrideExpirationDate,
+    openedAt: item.openedAt,
+    unitPrice: item.unitPrice,
+    lineTotal: item.lineTotal,
+    currency: item.currency,
+    source: item.source ?? 'manual',
+    createdAt: item.createdAt,
+  };
+}
+
+function summarizeLots(item: InventoryItem, lots: InventoryLot[]): InventoryItem {
+  const ordered = [...lots].sort(compareLotsOldestFirst);
+  const oldest = ordered[0];
+  const soonest = soonestExpiringLot(ordered);
+  const openedDates = ordered.flatMap((lot) => (lot.openedAt ? [lot.openedAt] : [])).sort();
+  const priced = ordered.find((lot) => typeof lot.unitPrice === 'number');
+  const allTotaled = ordered.every((lot) => typeof lot.lineTotal === 'number');
+
+  return {
+    ...item,
+    quantity: roundQuantity(ordered.reduce((sum, lot) => sum + lot.quantity, 0)),
+    purchaseDate: oldest.purchaseDate,
+    computedExpirationDate: soonest.computedExpirationDate,
+    overrideExpirationDate: soonest.overrideExpirationDate,
+    openedAt: openedDates[0],
+    unitPrice: priced?.unitPrice,
+    lineTotal: allTotaled
+      ? Number(ordered.reduce((sum, lot) => sum + (lot.lineTotal ?? 0), 0).toFixed(2))
+      : undefined,
+    currency: priced?.currency ?? ordered.find((lot) => lot.currency)?.currency,
+    source: oldest.source,
+    lots: ordered,
+  };
+}
+
+export function normalizeInventoryItem(item: InventoryItem): InventoryItem {
+  const lots = Array.isArray(item.lots) ? item.lots.filter(isInventoryLot) : [];
+  return summarizeLots(
+    {
+      ...item,
+      // Units saved before units were validated ("lbs", "Kg", "bunch") are mapped or counted as items.
+      unit: isUnit(item.unit) ? item.unit : (parseUnit(String(item.unit ?? '')) ?? 'item'),
+      storageLocation: isStorageLocation(item.storageLocation)
+        ? item.storageLocation
+        : defaultStorageLocation(item.canonicalName),
+    },
+    lots.length > 0 ? lots : [lotFromItem(item)],
+  );
+}
+
+// Takes `quantity` from the oldest lots first. Lots that run out are dropped.
+export function drawFromLots(
+  lots: InventoryLot[],
+  quantity: number,
+): { remaining: InventoryLot[]; drawn: Array<{ lot: InventoryLot; quantity: number }> } {
+  const remaining: InventoryLot[] = [];
+  const drawn: Array<{ lot: InventoryLot; quantity: number }> = [];
+  let left = quantity;
+
+  for (const lot of [...lots].sort(compareLotsOldestFirst)) {
+    if (left <= 0) {
+      remaining.push(lot);
+      continue;
+    }
+    const taken = Math.min(lot.quantity, left);
+    left = roundQuantity(left - taken);
+    drawn.push({ lot, quantity: roundQuantity(taken) });
+    const rest = roundQuantity(lot.quantity - taken);
+    if (rest > 0) remaining.push({ ...lot, quantity: rest });
+  }
+
+  return { remaining, drawn };
+}
+
+// Sets the total quantity across lots: reductions use up the oldest lots, increases go to the newest.
+function setLotsQuantity(lots: InventoryLot[], quantity: number): InventoryLot[] {
+  const total = roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity, 0));
+  if (quantity < total) {
+    return drawFromLots(lots, roundQuantity(total - quantity)).remaining;
+  }
+
+  const ordered = [...lots].sort(compareLotsOldestFirst);
+  const newest = ordered[ordered.length - 1];
+  return ordered.map((lot) =>
+    lot === newest ? { ...lot, quantity: roundQuantity(lot.quantity + quantity - total) } : lot,
+  );
+}
+
+// A manual expiration date applies to the lot that expires first, which is the one shown for the
+// item. Clearing it clears every lot.
+function overrideSoonestLot(
+  lots: InventoryLot[],
+  overrideExpirationDate: string | null,
+): InventoryLot[] {
+  if (overrideExpirationDate === null) {
+    return lots.map((lot) => ({ ...lot, overrideExpirationDate: undefined }));
+  }
+  const soonest = soonestExpiringLot(lots);
+  const override = new Date(overrideExpirationDate).toISOString();
+  return lots.map((lot) => (lot === soonest ? { ...lot, overrideExpirationDate: override } : lot));
+}
+
+// Patches may replace `lots` outright or set item-level `quantity` and `overrideExpirationDate`,
+// which are spread over the lots. Other summary fields are always recomputed from the lots.
+export function applyInventoryPatch(
+  current: InventoryItem,
+  patch: InventoryItemPatch,
+): InventoryItem | null {
+  const { lots: patchedLots, quantity, overrideExpirationDate, ...rest } = patch;
+  let lots = patchedLots ?? current.lots;
+  if (!patchedLots && typeof quantity === 'number') {
+    if (!Number.isFinite(quantity) || quantity <= 0) return null;
+    lots = setLotsQuantity(lots, quantity);
+  }
+  if (!patchedLots && overrideExpirationDate !== undefined) {
+    lots = overrideSoonestLot(lots, overrideExpirationDate);
+  }
+
+  const merged: Record<string, unknown> = {
+    ...current,
+    ...rest,
+    lots,
+    id: current.id,
+    createdAt: current.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+  // A null value in the patch clears an optional field.
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === null) delete merged[key];
+  }
+  if (!isInventoryItem(merged) || !merged.lots.some(isInventoryLot)) {
+    return null;
+  }
+  return normalizeInventoryItem(merged);
+}
+
+// Purchases of the same ingredient kept in the same place are one pantry entry with several lots.
+// Entries whose units cannot be converted (items vs grams) stay separate.
+export function mergeInventoryItems(
+  existing: InventoryItem,
+  incoming: InventoryItem,
+): InventoryItem | null {
+  if (
+    existing.canonicalName !== incoming.canonicalName ||
+    existing.storageLocation !== incoming.storageLocation
+  ) {
+    return null;
+  }
+  if (convertQuantity(1, incoming.unit, existing.unit) === null) return null;
+
+  const knownLotIds = new Set(existing.lots.map((lot) => lot.id));
+  const addedLots = incoming.lots
+    .filter((lot) => !knownLotIds.has(lot.id))
+    .map((lot) => {
+      const quantity = convertQuantity(lot.quantity, incoming.unit, existing.unit) ?? lot.quantity;
+      return {
+        ...lot,
+        quantity,
+        ...(typeof lot.unitPrice === 'number'
+          ? { unitPrice: roundUnitPrice((lot.unitPrice * lot.quantity) / quantity) }
+          : {}),
+      };
+    });
+
+  return summarizeLots(
+    { ...existing, updatedAt: new Date().toISOString() },
+    [...existing.lots, ...addedLots],
+  );
+}
+
 function migrateLegacy(item: LegacyIngredient): InventoryItem {
   const now = new Date().toISOString();
   const { canonicalName } = canonicalizeIngredient(item.name);
 
-  return {
+  return normalizeInventoryItem({
     id: item.id,
     canonicalName,
     displayName: item.name,
     quantity: item.quantity,
-    unit: item.unit,
+    unit: parseUnit(item.unit ?? '') ?? 'item',
+    storageLocation: defaultStorageLocation(canonicalName),
     purchaseDate: item.purchaseDate || now,
     computedExpirationDate: item.expirationDate || estimateExpirationDate(item.name, item.purchaseDate),
     source: 'manual',
+    lots: [],
     createdAt: now,
     updatedAt: now,
-  };
+  });
 }
 
 export function loadPantryFromStorage(): InventoryItem[] {
@@ -64,7 +295,7 @@ export function loadPantryFromStorage(): InventoryItem[] {
 
     for (const item of parsed) {
       if (isInventoryItem(item)) {
-        converted.push(item);
+        converted.push(normalizeInventoryItem(item));
       } else if (isLegacyIngredient(item)) {
         converted.push(migrateLegacy(item));
       }
@@ -90,35 +321,113 @@ export function savePantryToStorage(
 
 export function createInventoryItem(input: {
   name: string;
+  // Overrides the name's own match, e.g. when the user picked another catalog candidate.
+  canonicalName?: string;
   quantity: number;
-  unit: string;
+  unit: Unit;
+  storageLocation?: StorageLocation;
   purchaseDate?: string;
   expirationDateOverride?: string;
   shelfLifeDaysOverride?: number;
+  unitPrice?: number;
+  lineTotal?: number;
+  currency?: string;
   source: 'manual' | 'receipt';
 }): InventoryItem {
   const now = new Date().toISOString();
   const purchaseDate = input.purchaseDate ?? now;
-  const { canonicalName } = canonicalizeIngredient(input.name);
+  const canonicalName = input.canonicalName || canonicalizeIngredient(input.name).canonicalName;
+  const storageLocation = input.storageLocation ?? defaultStorageLocation(canonicalName);
   const computedExpirationDate = expirationDateForItem({
     canonicalName,
     purchaseDate,
+    storageLocation,
     shelfLifeDaysOverride: input.shelfLifeDaysOverride,
   });
 
-  return {
+  const lot: InventoryLot = {
     id: crypto.randomUUID(),
-    canonicalName,
-    displayName: input.name.trim() || canonicalName,
     quantity: input.quantity,
-    unit: input.unit || 'item',
     purchaseDate,
     computedExpirationDate,
     overrideExpirationDate: input.expirationDateOverride
       ? new Date(input.expirationDateOverride).toISOString()
       : undefined,
+    ...derivePriceFields(input.quantity, { unitPrice: input.unitPrice, lineTotal: input.lineTotal }),
+    currency: input.currency,
     source: input.source,
     createdAt: now,
-    updatedAt: now,
+  };
+
+  return summarizeLots(
+    {
+      id: crypto.randomUUID(),
+      canonicalName,
+      displayName: input.name.trim() || canonicalName,
+      quantity: input.quantity,
+      unit: input.unit,
+      storageLocation,
+      purchaseDate,
+      computedExpirationDate,
+      source: input.source,
+      lots: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+    [lot],
+  );
+}
+
+// Each lot gets the new location's shelf life counted from the move, but never more time than it had
+// left: a chicken thawed after months in the freezer has a fridge chicken's couple of days, not an
+// expiration date long past. Freezing stops the clock, so only a move into the freezer can extend a
+// lot that has not expired yet.
+export function buildStorageMovePatch(
+  item: InventoryItem,
+  storageLocation: StorageLocation,
+  movedAt: string = new Date().toISOString(),
+): InventoryItemPatch {
+  const fromMove = expirationDateForItem({
+    canonicalName: item.canonicalName,
+    purchaseDate: movedAt,
+    storageLocation,
+  });
+  return {
+    storageLocation,
+    lots: item.lots.map((lot) => {
+      const current = lotExpirationDate(lot);
+      const canExtend = storageLocation === 'freezer' && current > movedAt;
+      return {
+        ...lot,
+        computedExpirationDate: canExtend || fromMove < current ? fromMove : current,
+        // A manual expiration date was chosen for the old location; it only caps the new one.
+        overrideExpirationDate: undefined,
+      };
+    }),
+  };
+}
+
+export function buildMarkOpenedPatch(
+  item: InventoryItem,
+  options?: { openedAt?: string; openedShelfLifeDaysOverride?: number },
+): InventoryItemPatch {
+  const openedAt = options?.openedAt ?? new Date().toISOString();
+  // The oldest sealed lot is the one that gets opened next.
+  const target = item.lots.filter((lot) => !lot.openedAt).sort(compareLotsOldestFirst)[0];
+  return {
+    lots: item.lots.map((lot) =>
+      lot === target
+        ? {
+            ...lot,
+            openedAt,
+            computedExpirationDate: openedExpirationDate({
+              canonicalName: item.canonicalName,
+              sealedExpirationDate: lot.computedExpirationDate,
+              openedAt,
+              openedShelfLifeDaysOverride: options?.openedShelfLifeDaysOverride,
+            }),
+          }
+        : lot,
+    ),
   };
 }
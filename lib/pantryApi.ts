@@ -0,0 +1,114 @@
+import type {
+  CookedIngredient,
+  InventoryItem,
+  InventoryItemPatch,
+  LedgerEntry,
+  RemovalOutcome,
+} from '@/lib/types';
+
+type PantryApiPayload = {
+  items?: InventoryItem[];
+  item?: InventoryItem | null;
+  entries?: LedgerEntry[];
+  imported?: number;
+  deleted?: boolean;
+  error?: string;
+};
+
+async function requestPantry(
+  endpoint: string,
+  init: RequestInit,
+  fallbackError: string,
+): Promise<PantryApiPayload> {
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as PantryApiPayload;
+  if (!response.ok) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return payload;
+}
+
+export async function fetchPantry(): Promise<InventoryItem[]> {
+  const payload = await requestPantry('/api/pantry', { cache: 'no-store' }, 'Could not load pantry.');
+  return payload.items ?? [];
+}
+
+export async function createPantryItem(item: InventoryItem): Promise<InventoryItem> {
+  const payload = await requestPantry(
+    '/api/pantry',
+    { method: 'POST', body: JSON.stringify({ item }) },
+    'Could not save pantry item.',
+  );
+  return payload.item ?? item;
+}
+
+export async function updatePantryItem(
+  id: string,
+  patch: InventoryItemPatch,
+): Promise<InventoryItem> {
+  const payload = await requestPantry(
+    `/api/pantry/${encodeURIComponent(id)}`,
+    { method: 'PATCH', body: JSON.stringify({ patch }) },
+    'Could not update pantry item.',
+  );
+  if (!payload.item) {
+    throw new Error('Could not update pantry item.');
+  }
+  return payload.item;
+}
+
+export async function deletePantryItem(id: string): Promise<void> {
+  await requestPantry(
+    `/api/pantry/${encodeURIComponent(id)}`,
+    { method: 'DELETE' },
+    'Could not delete pantry item.',
+  );
+}
+
+export async function removePantryQuantity(
+  id: string,
+  outcome: RemovalOutcome,
+  quantity: number,
+): Promise<InventoryItem | null> {
+  const payload = await requestPantry(
+    `/api/pantry/${encodeURIComponent(id)}/remove`,
+    { method: 'POST', body: JSON.stringify({ outcome, quantity }) },
+    'Could not remove pantry item.',
+  );
+  return payload.item ?? null;
+}
+
+// Returns the whole pantry after the recipe's ingredients were taken out.
+export async function cookRecipe(
+  recipeTitle: string,
+  ingredients: CookedIngredient[],
+): Promise<InventoryItem[]> {
+  const payload = await requestPantry(
+    '/api/pantry/cook',
+    { method: 'POST', body: JSON.stringify({ recipeTitle, ingredients }) },
+    'Could not record cooked recipe.',
+  );
+  return payload.items ?? [];
+}
+
+export async function importPantryItems(items: InventoryItem[]): Promise<InventoryItem[]> {
+  const payload = await requestPantry(
+    '/api/pantry/import',
+    { method: 'POST', body: JSON.stringify({ items }) },
+    'Could not import pantry items.',
+  );
+  return payload.items ?? [];
+}
@@ -0,0 +1,191 @@
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { buildLedgerEntry } from '@/lib/ledger';
+import { withLedgerRecording } from '@/lib/ledgerStore';
+import {
+  applyInventoryPatch,
+  drawFromLots,
+  isInventoryItem,
+  mergeInventoryItems,
+  normalizeInventoryItem,
+} from '@/lib/pantry';
+import type {
+  CookedIngredient,
+  InventoryItem,
+  InventoryItemPatch,
+  InventoryLot,
+  LedgerEntry,
+  RemovalOutcome,
+} from '@/lib/types';
+
+const PANTRY_FILE = 'pantry';
+
+export type PantryRemoval = {
+  before: InventoryItem;
+  remaining: InventoryItem | null;
+  drawn: Array<{ lot: InventoryLot; quantity: number }>;
+  // What the ledger recorded for the drawn lots.
+  entries: LedgerEntry[];
+};
+
+function sanitize(stored: unknown): InventoryItem[] {
+  return Array.isArray(stored) ? stored.filter(isInventoryItem).map(normalizeInventoryItem) : [];
+}
+
+// Adds `incoming` as lots of the first matching entry in `items`, in place. Returns the entry that
+// now holds it, or null when nothing matched.
+function mergeIntoMatching(items: InventoryItem[], incoming: InventoryItem): InventoryItem | null {
+  for (const [index, existing] of items.entries()) {
+    const merged = mergeInventoryItems(existing, incoming);
+    if (merged) {
+      items[index] = merged;
+      return merged;
+    }
+  }
+  return null;
+}
+
+export async function listPantryItems(): Promise<InventoryItem[]> {
+  return sanitize(await readJsonFile<unknown>(PANTRY_FILE, []));
+}
+
+export function createPantryItem(input: InventoryItem): Promise<InventoryItem> {
+  const item = normalizeInventoryItem(input);
+  return updateJsonFile<unknown, InventoryItem>(PANTRY_FILE, [], (stored) => {
+    const items = sanitize(stored).filter((existing) => existing.id !== item.id);
+    const merged = mergeIntoMatching(items, item);
+    return merged ? { next: items, result: merged } : { next: [item, ...items], result: item };
+  });
+}
+
+export function updatePantryItem(id: string, patch: InventoryItemPatch): Promise<InventoryItem | null> {
+  return updateJsonFile<unknown, InventoryItem | null>(PANTRY_FILE, [], (stored) => {
+    const items = sanitize(stored);
+    const current = items.find((item) => item.id === id);
+    const updated = current ? applyInventoryPatch(current, patch) : null;
+    if (!updated) {
+      return { next: items, result: null };
+    }
+
+    return {
+      next: items.map((item) => (item.id === id ? updated : item)),
+      result: updated,
+    };
+  });
+}
+
+export function deletePantryItem(id: string): Promise<boolean> {
+  return updateJsonFile<unknown, boolean>(PANTRY_FILE, [], (stored) => {
+    const items = sanitize(stored);
+    const remaining = items.filter((item) => item.id !== id);
+    return { next: remaining, result: remaining.length !== items.length };
+  });
+}
+
+// Takes `quantity` off an item, oldest lots first, and deletes it once nothing is left. The drawn
+// lots are recorded in the ledger under `outcome` as part of the same change, so the pantry is never
+// written without its ledger entries.
+export function removePantryQuantity(
+  id: string,
+  quantity: number,
+  outcome: RemovalOutcome,
+): Promise<PantryRemoval | null> {
+  return withLedgerRecording((record) =>
+    updateJsonFile<unknown, PantryRemoval | null>(PANTRY_FILE, [], async (stored) => {
+      const items = sanitize(stored);
+      const before = items.find((item) => item.id === id);
+      if (!before) {
+        return { next: items, result: null };
+      }
+
+      const { remaining: lots, drawn } = drawFromLots(before.lots, quantity);
+      const entries = await record(
+        drawn.map(({ lot, quantity: taken }) => buildLedgerEntry(before, lot, outcome, taken)),
+      );
+      if (lots.length === 0) {
+        return {
+          next: items.filter((item) => item.id !== id),
+          result: { before, remaining: null, drawn, entries },
+        };
+      }
+
+      const remaining = normalizeInventoryItem({
+        ...before,
+        lots,
+        updatedAt: new Date().toISOString(),
+      });
+      return {
+        next: items.map((item) => (item.id === id ? remaining : item)),
+        result: { before, remaining, drawn, entries },
+      };
+    }),
+  );
+}
+
+// Applies several removals as one write, so a cooked recipe never leaves the pantry half deducted,
+// and records them in the ledger as consumed by `recipeTitle`. Returns null without changing
+// anything when any item is missing or has too little left.
+export function removePantryQuantities(
+  removals: CookedIngredient[],
+  recipeTitle: string,
+): Promise<{ items: InventoryItem[]; removals: PantryRemoval[] } | null> {
+  return withLedgerRecording((record) =>
+    updateJsonFile<unknown, { items: InventoryItem[]; removals: PantryRemoval[] } | null>(
+      PANTRY_FILE,
+      [],
+      async (stored) => {
+        const items = sanitize(stored);
+        let next = items;
+        const applied: Array<Omit<PantryRemoval, 'entries'>> = [];
+        for (const { itemId, quantity } of removals) {
+          const before = next.find((item) => item.id === itemId);
+          if (!before || quantity > before.quantity) {
+            return { next: items, result: null };
+          }
+
+          const { remaining: lots, drawn } = drawFromLots(before.lots, quantity);
+          const remaining =
+            lots.length > 0
+              ? normalizeInventoryItem({ ...before, lots, updatedAt: new Date().toISOString() })
+              : null;
+          next = remaining
+            ? next.map((item) => (item.id === itemId ? remaining : item))
+            : next.filter((item) => item.id !== itemId);
+          applied.push({ before, remaining, drawn });
+        }
+
+        const recorded = applied.map((removal) => ({
+          ...removal,
+          entries: removal.drawn.map(({ lot, quantity }) =>
+            buildLedgerEntry(removal.before, lot, 'consumed', quantity, recipeTitle),
+          ),
+        }));
+        await record(recorded.flatMap((removal) => removal.entries));
+        return { next, result: { items: next, removals: recorded } };
+      },
+    ),
+  );
+}
+
+export function importPantryItems(
+  incoming: InventoryItem[],
+): Promise<{ items: InventoryItem[]; imported: number }> {
+  return updateJsonFile<unknown, { items: InventoryItem[]; imported: number }>(
+    PANTRY_FILE,
+    [],
+    (stored) => {
+      const items = sanitize(stored);
+      const knownIds = new Set(items.map((item) => item.id));
+      const fresh = incoming
+        .filter((item) => !knownIds.has(item.id))
+        .map(normalizeInventoryItem);
+      const added: InventoryItem[] = [];
+      for (const item of fresh) {
+        if (!mergeIntoMatching(added, item) && !mergeIntoMatching(items, item)) {
+          added.push(item);
+        }
+      }
+      const next = [...added, ...items];
+      return { next, result: { items: next, imported: fresh.length } };
+    },
+  );
+}
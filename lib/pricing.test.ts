@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildLedgerEntry } from '@/lib/ledger';
+import { createInventoryItem } from '@/lib/pantry';
+import { derivePriceFields, roundUnitPrice, toPrice, toUnitPrice } from '@/lib/pricing';
+
+describe('derivePriceFields', () => {
+  it('keeps per-gram and per-millilitre prices instead of rounding them to cents', () => {
+    expect(derivePriceFields(2000, { lineTotal: 6.49 })).toEqual({
+      unitPrice: 0.003245,
+      lineTotal: 6.49,
+    });
+    expect(derivePriceFields(750, { lineTotal: 8.99 }).unitPrice).toBeCloseTo(8.99 / 750, 6);
+  });
+
+  it('fills the line total from the unit price', () => {
+    expect(derivePriceFields(3, { unitPrice: 0.59 })).toEqual({ unitPrice: 0.59, lineTotal: 1.77 });
+  });
+
+  it('leaves both out when neither is known', () => {
+    expect(derivePriceFields(1, {})).toEqual({});
+  });
+});
+
+describe('price inputs', () => {
+  it('rounds money to cents but unit prices to six places', () => {
+    expect(toPrice('6.499')).toBe(6.5);
+    expect(toUnitPrice('0.0032451')).toBe(0.003245);
+    expect(roundUnitPrice(8.99 / 750)).toBe(0.011987);
+  });
+
+  it('rejects negative and empty values', () => {
+    expect(toPrice('')).toBeUndefined();
+    expect(toUnitPrice(-1)).toBeUndefined();
+  });
+});
+
+describe('cost of removed food', () => {
+  it('values a wasted part of a gram lot from its line total', () => {
+    const rice = createInventoryItem({
+      name: 'Rice',
+      quantity: 2000,
+      unit: 'g',
+      lineTotal: 6.49,
+      currency: 'USD',
+      source: 'receipt',
+    });
+    expect(buildLedgerEntry(rice, rice.lots[0], 'wasted', 2000).cost).toBe(6.49);
+    expect(buildLedgerEntry(rice, rice.lots[0], 'wasted', 500).cost).toBe(1.62);
+  });
+
+  it('values millilitre lots to the cent', () => {
+    const oil = createInventoryItem({
+      name: 'Olive oil',
+      quantity: 750,
+      unit: 'ml',
+      lineTotal: 8.99,
+      source: 'receipt',
+    });
+    expect(buildLedgerEntry(oil, oil.lots[0], 'wasted', 750).cost).toBe(8.99);
+  });
+});
@@ -0,0 +1,70 @@
+import { DEFAULT_CURRENCY } from '@/lib/constants';
+
+const CURRENCY_BY_SYMBOL: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Unit prices keep more places than money: 2000 g of rice at $6.49 is $0.003245 per gram, which
+// rounds to nothing in cents.
+export function roundUnitPrice(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+export function currencyForSymbol(symbol: string | undefined): string {
+  return (symbol && CURRENCY_BY_SYMBOL[symbol]) || DEFAULT_CURRENCY;
+}
+
+export function normalizeCurrency(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if (CURRENCY_BY_SYMBOL[trimmed]) return CURRENCY_BY_SYMBOL[trimmed];
+  return /^[A-Za-z]{3}$/.test(trimmed) ? trimmed.toUpperCase() : undefined;
+}
+
+function toNonNegativeNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (value === null || value === undefined || value === '') return undefined;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function toPrice(value: unknown): number | undefined {
+  const parsed = toNonNegativeNumber(value);
+  return parsed === undefined ? undefined : roundMoney(parsed);
+}
+
+export function toUnitPrice(value: unknown): number | undefined {
+  const parsed = toNonNegativeNumber(value);
+  return parsed === undefined ? undefined : roundUnitPrice(parsed);
+}
+
+// Fills in whichever of unit price and line total is missing from the other one.
+export function derivePriceFields(
+  quantity: number,
+  prices: { unitPrice?: number; lineTotal?: number },
+): { unitPrice?: number; lineTotal?: number } {
+  const { unitPrice, lineTotal } = prices;
+  if (typeof lineTotal === 'number') {
+    return {
+      unitPrice: unitPrice ?? (quantity > 0 ? roundUnitPrice(lineTotal / quantity) : undefined),
+      lineTotal,
+    };
+  }
+  if (typeof unitPrice === 'number') {
+    return { unitPrice, lineTotal: roundMoney(unitPrice * quantity) };
+  }
+  return {};
+}
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
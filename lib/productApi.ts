@@ -0,0 +1,61 @@
+import type { Product, Unit } from '@/lib/types';
+
+type ProductApiPayload = {
+  product?: Product;
+  error?: string;
+};
+
+export type LearnProductInput = {
+  name: string;
+  canonicalName?: string;
+  packageQuantity: number;
+  packageUnit: Unit;
+};
+
+async function requestProduct(
+  endpoint: string,
+  init: RequestInit,
+  fallbackError: string,
+): Promise<{ status: number; payload: ProductApiPayload }> {
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as ProductApiPayload;
+  // An unknown barcode is an expected answer, not a failure.
+  if (!response.ok && response.status !== 404) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return { status: response.status, payload };
+}
+
+export async function lookupProduct(barcode: string): Promise<Product | null> {
+  const { payload } = await requestProduct(
+    `/api/products/${encodeURIComponent(barcode)}`,
+    { cache: 'no-store' },
+    'Could not look up barcode.',
+  );
+  return payload.product ?? null;
+}
+
+export async function learnProduct(barcode: string, input: LearnProductInput): Promise<Product> {
+  const { status, payload } = await requestProduct(
+    `/api/products/${encodeURIComponent(barcode)}`,
+    { method: 'PUT', body: JSON.stringify({ product: input }) },
+    'Could not save product.',
+  );
+  if (status === 404 || !payload.product) {
+    throw new Error(payload.error ?? 'Could not save product.');
+  }
+  return payload.product;
+}
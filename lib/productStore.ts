@@ -0,0 +1,31 @@
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { PRODUCT_TABLE, readProduct } from '@/lib/products';
+import type { Product } from '@/lib/types';
+
+const PRODUCTS_FILE = 'products';
+
+function sanitize(stored: unknown): Product[] {
+  return Array.isArray(stored) ? stored.flatMap((entry) => readProduct(entry, true) ?? []) : [];
+}
+
+// Learned products win over the shipped table, so a household can correct an entry.
+export async function findProduct(barcode: string): Promise<Product | null> {
+  const learned = sanitize(await readJsonFile<unknown>(PRODUCTS_FILE, []));
+  return (
+    learned.find((product) => product.barcode === barcode) ??
+    PRODUCT_TABLE.find((product) => product.barcode === barcode) ??
+    null
+  );
+}
+
+export function learnProduct(input: Omit<Product, 'learned'>): Promise<Product | null> {
+  return updateJsonFile<unknown, Product | null>(PRODUCTS_FILE, [], (stored) => {
+    const products = sanitize(stored);
+    const product = readProduct(input, true);
+    if (!product) return { next: products, result: null };
+    return {
+      next: [product, ...products.filter((existing) => existing.barcode !== product.barcode)],
+      result: product,
+    };
+  });
+}
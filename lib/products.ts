@@ -0,0 +1,54 @@
+import productData from '@/data/products.v1.json';
+import { isUnit } from '@/lib/units';
+import type { Product } from '@/lib/types';
+
+export const PRODUCT_TABLE_VERSION = 1;
+
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  const sum = [...body]
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits.at(-1));
+}
+
+// Accepts EAN-8, UPC-A, EAN-13 and GTIN-14 codes and returns them as 13 digits (EAN-8 stays 8),
+// or null when the code is malformed or its check digit is wrong.
+export function normalizeBarcode(value: string): string | null {
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || ![8, 12, 13, 14].includes(digits.length)) return null;
+  if (!hasValidCheckDigit(digits)) return null;
+  if (digits.length === 12) return `0${digits}`;
+  if (digits.length === 14) return digits.startsWith('0') ? digits.slice(1) : null;
+  return digits;
+}
+
+export function readProduct(value: unknown, learned: boolean): Product | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+  const barcode = typeof candidate.barcode === 'string' ? normalizeBarcode(candidate.barcode) : null;
+  const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+  const canonicalName =
+    typeof candidate.canonicalName === 'string' ? candidate.canonicalName.trim().toLowerCase() : '';
+  const packageQuantity = Number(candidate.packageQuantity);
+  if (!barcode || !name || !canonicalName || !isUnit(candidate.packageUnit)) return null;
+  if (!Number.isFinite(packageQuantity) || packageQuantity <= 0) return null;
+  return {
+    barcode,
+    name,
+    canonicalName,
+    packageQuantity,
+    packageUnit: candidate.packageUnit,
+    learned,
+  };
+}
+
+function readProductTable(data: unknown): Product[] {
+  const raw = data as { version?: unknown; products?: unknown };
+  if (raw.version !== PRODUCT_TABLE_VERSION || !Array.isArray(raw.products)) {
+    throw new Error(`Product table must be version ${PRODUCT_TABLE_VERSION}.`);
+  }
+  return raw.products.flatMap((entry) => readProduct(entry, false) ?? []);
+}
+
+export const PRODUCT_TABLE = readProductTable(productData);
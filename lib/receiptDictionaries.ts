@@ -0,0 +1,121 @@
+import dictionaryData from '@/data/receipt-dictionaries.v1.json';
+import type { ReceiptDictionary } from '@/lib/types';
+
+export const RECEIPT_DICTIONARY_VERSION = 1;
+
+export type ReceiptDictionaryInput = Pick<ReceiptDictionary, 'merchant' | 'matchers' | 'abbreviations'>;
+
+// Longest abbreviation, in words, looked up before falling back to single tokens.
+const MAX_PHRASE_WORDS = 3;
+
+function readAbbreviations(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).flatMap(([abbreviation, expansion]) =>
+      typeof expansion === 'string' && abbreviation.trim()
+        ? [[normalizeAbbreviation(abbreviation), expansion.trim().toLowerCase()]]
+        : [],
+    ),
+  );
+}
+
+export function normalizeAbbreviation(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Accepts stored or submitted dictionaries and drops anything unusable.
+export function readReceiptDictionary(value: unknown, builtIn: boolean): ReceiptDictionary | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+  const merchant = typeof candidate.merchant === 'string' ? candidate.merchant.trim() : '';
+  const matchers = Array.isArray(candidate.matchers)
+    ? candidate.matchers
+        .filter((matcher): matcher is string => typeof matcher === 'string')
+        .map((matcher) => matcher.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+  if (typeof candidate.id !== 'string' || !candidate.id || !merchant || matchers.length === 0) {
+    return null;
+  }
+  return {
+    id: candidate.id,
+    merchant,
+    matchers,
+    abbreviations: readAbbreviations(candidate.abbreviations),
+    builtIn,
+  };
+}
+
+function readStarterDictionaries(data: unknown): ReceiptDictionary[] {
+  const raw = data as { version?: unknown; dictionaries?: unknown };
+  if (raw.version !== RECEIPT_DICTIONARY_VERSION || !Array.isArray(raw.dictionaries)) {
+    throw new Error(`Receipt dictionaries must be version ${RECEIPT_DICTIONARY_VERSION}.`);
+  }
+  return raw.dictionaries.flatMap((entry) => readReceiptDictionary(entry, true) ?? []);
+}
+
+export const STARTER_RECEIPT_DICTIONARIES = readStarterDictionaries(dictionaryData);
+
+export function findReceiptDictionary(
+  dictionaries: ReceiptDictionary[],
+  id: string,
+): ReceiptDictionary | null {
+  return dictionaries.find((dictionary) => dictionary.id === id) ?? null;
+}
+
+export function detectReceiptDictionary(
+  dictionaries: ReceiptDictionary[],
+  headerLines: string[],
+): ReceiptDictionary | null {
+  const header = headerLines.join(' ').toLowerCase();
+  return (
+    dictionaries.find((dictionary) =>
+      dictionary.matchers.some((matcher) => header.includes(matcher)),
+    ) ?? null
+  );
+}
+
+// Rewrites an item name word by word, preferring the longest abbreviation that matches.
+export function expandAbbreviations(name: string, dictionary: ReceiptDictionary | null): string {
+  if (!dictionary) return name;
+  const words = name.split(/\s+/).filter(Boolean);
+  const expanded: string[] = [];
+
+  for (let index = 0; index < words.length; ) {
+    let matched = false;
+    for (let size = Math.min(MAX_PHRASE_WORDS, words.length - index); size > 0; size -= 1) {
+      const phrase = normalizeAbbreviation(
+        words
+          .slice(index, index + size)
+          .join(' ')
+          .replace(/^[^\w]+|[^\w]+$/g, ''),
+      );
+      const expansion = dictionary.abbreviations[phrase];
+      if (expansion === undefined) continue;
+      if (expansion) expanded.push(expansion);
+      index += size;
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      expanded.push(words[index]);
+      index += 1;
+    }
+  }
+
+  // A name made only of brand prefixes keeps its original words.
+  return expanded.length > 0 ? expanded.join(' ') : name;
+}
+
+// Reads one "ABBR = expansion" pair per line, as typed on the scan page. Leaving the expansion
+// empty ("GV =") drops the abbreviation.
+export function parseAbbreviationLines(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text.split(/\r?\n/).flatMap((line) => {
+      const separator = line.indexOf('=');
+      if (separator === -1) return [];
+      const abbreviation = line.slice(0, separator).trim();
+      return abbreviation ? [[abbreviation, line.slice(separator + 1).trim()]] : [];
+    }),
+  );
+}
@@ -0,0 +1,66 @@
+import type { ReceiptDictionaryInput } from '@/lib/receiptDictionaries';
+import type { ReceiptDictionary } from '@/lib/types';
+
+type ReceiptDictionaryApiPayload = {
+  dictionaries?: ReceiptDictionary[];
+  dictionary?: ReceiptDictionary;
+  deleted?: boolean;
+  error?: string;
+};
+
+async function requestDictionaries(
+  endpoint: string,
+  init: RequestInit,
+  fallbackError: string,
+): Promise<ReceiptDictionaryApiPayload> {
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as ReceiptDictionaryApiPayload;
+  if (!response.ok) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return payload;
+}
+
+export async function fetchReceiptDictionaries(): Promise<ReceiptDictionary[]> {
+  const payload = await requestDictionaries(
+    '/api/receipt-dictionaries',
+    { cache: 'no-store' },
+    'Could not load receipt dictionaries.',
+  );
+  return payload.dictionaries ?? [];
+}
+
+export async function createReceiptDictionary(
+  dictionary: ReceiptDictionaryInput,
+): Promise<ReceiptDictionary> {
+  const payload = await requestDictionaries(
+    '/api/receipt-dictionaries',
+    { method: 'POST', body: JSON.stringify({ dictionary }) },
+    'Could not save receipt dictionary.',
+  );
+  if (!payload.dictionary) {
+    throw new Error('Could not save receipt dictionary.');
+  }
+  return payload.dictionary;
+}
+
+export async function deleteReceiptDictionary(id: string): Promise<void> {
+  await requestDictionaries(
+    `/api/receipt-dictionaries/${encodeURIComponent(id)}`,
+    { method: 'DELETE' },
+    'Could not delete receipt dictionary.',
+  );
+}
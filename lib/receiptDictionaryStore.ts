@@ -0,0 +1,37 @@
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { readReceiptDictionary, STARTER_RECEIPT_DICTIONARIES } from '@/lib/receiptDictionaries';
+import type { ReceiptDictionaryInput } from '@/lib/receiptDictionaries';
+import type { ReceiptDictionary } from '@/lib/types';
+
+const DICTIONARIES_FILE = 'receipt-dictionaries';
+
+function sanitize(stored: unknown): ReceiptDictionary[] {
+  return Array.isArray(stored)
+    ? stored.flatMap((entry) => readReceiptDictionary(entry, false) ?? [])
+    : [];
+}
+
+// User dictionaries come first so they win header detection over the starter set.
+export async function listReceiptDictionaries(): Promise<ReceiptDictionary[]> {
+  const custom = sanitize(await readJsonFile<unknown>(DICTIONARIES_FILE, []));
+  return [...custom, ...STARTER_RECEIPT_DICTIONARIES];
+}
+
+export function saveReceiptDictionary(
+  input: ReceiptDictionaryInput,
+): Promise<ReceiptDictionary | null> {
+  return updateJsonFile<unknown, ReceiptDictionary | null>(DICTIONARIES_FILE, [], (stored) => {
+    const dictionary = readReceiptDictionary({ id: crypto.randomUUID(), ...input }, false);
+    const dictionaries = sanitize(stored);
+    if (!dictionary) return { next: dictionaries, result: null };
+    return { next: [dictionary, ...dictionaries], result: dictionary };
+  });
+}
+
+export function deleteReceiptDictionary(id: string): Promise<boolean> {
+  return updateJsonFile<unknown, boolean>(DICTIONARIES_FILE, [], (stored) => {
+    const dictionaries = sanitize(stored);
+    const remaining = dictionaries.filter((dictionary) => dictionary.id !== id);
+    return { next: remaining, result: remaining.length !== dictionaries.length };
+  });
+}
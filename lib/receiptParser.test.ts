@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseReceipt } from '@/lib/receiptParser';
+
+const SAMPLE = [
+  'FRESH MART',
+  '123 MAIN ST',
+  '(555) 123-4567',
+  'BANANAS',
+  '2.31 lb @ 0.59/lb 1.36',
+  'GREEK YOGURT 3.98',
+  'SUBTOTAL 5.34',
+  'TAX 0.00',
+  'TOTAL 5.34',
+].join('\n');
+
+describe('parseReceipt', () => {
+  it('reads the merchant and skips the address and phone lines under it', () => {
+    const receipt = parseReceipt(SAMPLE);
+    expect(receipt.merchant).toBe('FRESH MART');
+    expect(receipt.items.map((item) => item.canonicalName)).toEqual(['banana', 'greek yogurt']);
+  });
+
+  it('joins a weight continuation line to the item above it', () => {
+    const [bananas] = parseReceipt(SAMPLE).items;
+    expect(bananas).toMatchObject({ quantity: 2.31, unit: 'lb', unitPrice: 0.59, lineTotal: 1.36 });
+  });
+
+  it('reads the totals and reconciles the items against the subtotal', () => {
+    const receipt = parseReceipt(SAMPLE);
+    expect(receipt).toMatchObject({ subtotal: 5.34, tax: 0, total: 5.34 });
+    expect(receipt.reconciliation?.status).toBe('balanced');
+  });
+
+  it('flags a receipt whose items do not add up to the subtotal', () => {
+    const receipt = parseReceipt(SAMPLE.replace('SUBTOTAL 5.34', 'SUBTOTAL 9.34'));
+    expect(receipt.reconciliation).toMatchObject({ status: 'mismatch', difference: 4 });
+  });
+
+  it('keeps a priced header line that starts with a count as an item', () => {
+    const receipt = parseReceipt(['2 BANANAS 1.18', 'TOTAL 1.18'].join('\n'));
+    expect(receipt.items).toHaveLength(1);
+    expect(receipt.items[0]).toMatchObject({ canonicalName: 'banana', lineTotal: 1.18 });
+  });
+});
@@ -1,5 +1,20 @@
+import { findAlias } from '@/lib/aliases';
+import { currencyForSymbol, derivePriceFields, roundMoney } from '@/lib/pricing';
+import {
+  detectReceiptDictionary,
+  expandAbbreviations,
+  findReceiptDictionary,
+} from '@/lib/receiptDictionaries';
 import { canonicalizeIngredient } from '@/lib/shelfLife';
-import type { ParsedReceiptItem } from '@/lib/types';
+import { convertQuantity, findQuantityExpression, parseUnit, unitDimension } from '@/lib/units';
+import type {
+  IngredientAlias,
+  ParsedReceipt,
+  ParsedReceiptItem,
+  ReceiptDictionary,
+  ReceiptReconciliation,
+  Unit,
+} from '@/lib/types';
 
 const IGNORED_LINE_PATTERNS = [
   /subtotal/i,
@@ -20,6 +35,251 @@ const IGNORED_LINE_PATTERNS = [
   /^[\d\s.,$-]+$/,
 ];
 
+// Item totals within a few cents of the subtotal are treated as rounding, not a missed line.
+const RECONCILIATION_TOLERANCE = 0.05;
+
+// The merchant name is looked for only among the first lines of the receipt header.
+const MERCHANT_HEADER_LINES = 4;
+
+const NON_MERCHANT_HEADER_PATTERNS = [
+  /^\d+\s+\w+/,
+  /\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}/,
+  /www\.|\.com\b/i,
+  /receipt|welcome|cashier|register|store\s*#/i,
+];
+
+type ReceiptTotals = {
+  subtotal?: number;
+  tax?: number;
+  total?: number;
+};
+
+// A trailing amount such as "3.49", "$3.49" or "3.49 F" (single-letter tax flag) is the line total.
+const LINE_PRICE_PATTERN = /(?:([$€£])\s*)?(\d+[.,]\d{2})(?:\s+[FTNXABE*])?\s*$/;
+
+function extractLinePrice(line: string): { lineTotal?: number; currency?: string; rest: string } {
+  const match = line.match(LINE_PRICE_PATTERN);
+  if (!match || match.index === undefined) {
+    return { rest: line };
+  }
+
+  const symbol = match[1] ?? line.match(/[$€£]/)?.[0];
+  return {
+    lineTotal: roundMoney(Number(match[2].replace(',', '.'))),
+    currency: currencyForSymbol(symbol),
+    rest: line.slice(0, match.index).trim(),
+  };
+}
+
+// "2.31 lb @ $0.59/lb", "500 g @ 9.99/kg" or "3 @ 1.99": an amount bought at a price per unit.
+const AT_PRICE_PATTERN = new RegExp(
+  String.raw`(\d+(?:[.,]\d+)?)\s*(fl\.?\s*oz|[a-z]+)?\s*@\s*([$€£])?\s*(\d+(?:[.,]\d+)?)(?:\s*\/\s*(fl\.?\s*oz|[a-z]+)|\s*(?:ea|each)\b)?`,
+  'i',
+);
+
+const PRICE_ONLY_PATTERN = /^[$€£]?\s*\d+[.,]\d{2}(?:\s+[FTNXABE*])?$/;
+
+type AtPrice = {
+  // Null for a plain multi-buy count such as "3 @ 1.99".
+  unit: Unit | null;
+  quantity: number;
+  price: number;
+  // The unit the price is quoted in, when it differs from the quantity's ("@ 9.99/kg").
+  priceUnit: Unit | null;
+  currency?: string;
+  text: string;
+};
+
+function toAmount(value: string): number {
+  return Number(value.replace(',', '.'));
+}
+
+function readAtPrice(line: string): AtPrice | null {
+  const match = line.match(AT_PRICE_PATTERN);
+  if (!match) return null;
+
+  const unit = match[2] ? parseUnit(match[2]) : null;
+  const priceUnit = match[5] ? parseUnit(match[5]) : null;
+  if ((match[2] && !unit) || (match[5] && !priceUnit)) return null;
+
+  const quantity = toAmount(match[1]);
+  const price = toAmount(match[4]);
+  if (!Number.isFinite(quantity) || quantity <= 0 || !Number.isFinite(price)) return null;
+  return {
+    unit,
+    quantity,
+    price,
+    priceUnit,
+    ...(match[3] ? { currency: currencyForSymbol(match[3]) } : {}),
+    text: match[0],
+  };
+}
+
+function hasItemName(text: string): boolean {
+  return /[a-z]{2,}/i.test(text);
+}
+
+// A line that only carries the quantity or price of the item printed above it.
+function isContinuationLine(line: string): boolean {
+  if (PRICE_ONLY_PATTERN.test(line)) return true;
+  const atPrice = readAtPrice(line);
+  if (!atPrice) return false;
+  return !hasItemName(extractLinePrice(line.replace(atPrice.text, ' ')).rest);
+}
+
+// Weighed and multi-buy items often print their weight or count and price on the line below the
+// name. Those lines are joined onto the line above so each item is parsed from one line.
+function groupReceiptLines(lines: string[]): string[] {
+  const grouped: string[] = [];
+  for (const line of lines) {
+    const previous = grouped.at(-1);
+    const attaches =
+      previous !== undefined &&
+      isContinuationLine(line) &&
+      hasItemName(previous) &&
+      (PRICE_ONLY_PATTERN.test(line)
+        ? extractLinePrice(previous).lineTotal === undefined
+        : readAtPrice(previous) === null);
+    if (attaches) grouped[grouped.length - 1] = `${previous} ${line}`;
+    else grouped.push(line);
+  }
+  return grouped;
+}
+
+// Reads the quantity, unit and prices of one item line, including the "@ price" forms.
+function readItemAmounts(line: string): {
+  quantity: number;
+  unit: Unit;
+  unitPrice?: number;
+  lineTotal?: number;
+  currency?: string;
+  rest: string;
+} {
+  const atPrice = readAtPrice(line);
+  const { lineTotal, currency, rest } = extractLinePrice(atPrice ? line.replace(atPrice.text, ' ') : line);
+  if (!atPrice) {
+    const { quantity, unit, rest: nameText } = readQuantity(rest);
+    return { quantity, unit, ...derivePriceFields(quantity, { lineTotal }), currency, rest: nameText };
+  }
+
+  const priceCurrency = atPrice.currency ?? currency;
+  if (atPrice.unit) {
+    const { unit, quantity, price, priceUnit } = atPrice;
+    const pricedQuantity = priceUnit ? convertQuantity(quantity, unit, priceUnit) : quantity;
+    const total = lineTotal ?? (pricedQuantity === null ? undefined : roundMoney(price * pricedQuantity));
+    return {
+      quantity,
+      unit,
+      ...derivePriceFields(quantity, {
+        unitPrice: !priceUnit || priceUnit === unit ? roundMoney(price) : undefined,
+        lineTotal: total,
+      }),
+      currency: priceCurrency,
+      rest,
+    };
+  }
+
+  // "3 @ 1.99" buys three of whatever size the name line describes, e.g. "SODA 330ml".
+  const size = readQuantity(rest);
+  const count = atPrice.quantity;
+  const quantity = Number((count * size.quantity).toFixed(3));
+  return {
+    quantity,
+    unit: size.unit,
+    ...derivePriceFields(quantity, {
+      unitPrice: size.unit === 'item' && size.quantity === 1 ? roundMoney(atPrice.price) : undefined,
+      lineTotal: lineTotal ?? roundMoney(count * atPrice.price),
+    }),
+    currency: priceCurrency,
+    rest: size.rest,
+  };
+}
+
+function parseReceiptDate(line: string): string | undefined {
+  const iso = line.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  const us = line.match(/\b(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3].length === 2 ? `20${us[3]}` : us[3]), Number(us[1]), Number(us[2])]
+      : [];
+
+  if (!year || !month || !day || month > 12 || day > 31) return undefined;
+  return new Date(Date.UTC(year, month - 1, day)).toISOString();
+}
+
+// Records subtotal, tax, total and date lines on `metadata`. Returns true when the line was
+// consumed as metadata and must not be parsed as an item.
+function readMetadataLine(
+  line: string,
+  metadata: ReceiptTotals & { purchaseDate?: string; currency?: string },
+): boolean {
+  const { lineTotal, currency } = extractLinePrice(line);
+
+  if (/sub\s*-?\s*total/i.test(line)) {
+    if (lineTotal !== undefined) metadata.subtotal = lineTotal;
+  } else if (/\btax\b/i.test(line) && !/before\s+tax/i.test(line)) {
+    if (lineTotal !== undefined) metadata.tax = roundMoney((metadata.tax ?? 0) + lineTotal);
+  } else if (
+    /^(?:grand\s+)?total\b|\b(?:balance|amount)\s+due\b/i.test(line) &&
+    !/saving|items?\b|discount/i.test(line)
+  ) {
+    if (lineTotal !== undefined && metadata.total === undefined) metadata.total = lineTotal;
+  } else {
+    const purchaseDate = parseReceiptDate(line);
+    if (!purchaseDate) return false;
+    metadata.purchaseDate ??= purchaseDate;
+    return true;
+  }
+
+  if (lineTotal !== undefined) metadata.currency ??= currency;
+  return true;
+}
+
+// A priced line is an item even when it starts with a count, as in "2 BANANAS 1.18".
+function isHeaderContactLine(line: string): boolean {
+  return (
+    NON_MERCHANT_HEADER_PATTERNS.some((pattern) => pattern.test(line)) &&
+    extractLinePrice(line).lineTotal === undefined
+  );
+}
+
+function readMerchantLine(line: string): string | undefined {
+  if (NON_MERCHANT_HEADER_PATTERNS.some((pattern) => pattern.test(line))) return undefined;
+  if (extractLinePrice(line).lineTotal !== undefined) return undefined;
+
+  const name = line.replace(/\s+/g, ' ').trim();
+  if ((name.match(/[a-z]/gi) ?? []).length < 3) return undefined;
+  // A header line that reads like a known ingredient is more likely an item than a store name.
+  if (canonicalizeIngredient(name).confidence >= 0.75) return undefined;
+  return name;
+}
+
+export function reconcileReceipt(
+  items: ParsedReceiptItem[],
+  totals: ReceiptTotals,
+): ReceiptReconciliation {
+  const priced = items.filter((item) => typeof item.lineTotal === 'number');
+  const itemsTotal = roundMoney(priced.reduce((sum, item) => sum + (item.lineTotal ?? 0), 0));
+  const unpricedItemCount = items.length - priced.length;
+  const expectedSubtotal =
+    totals.subtotal ??
+    (totals.total !== undefined ? roundMoney(totals.total - (totals.tax ?? 0)) : undefined);
+
+  if (expectedSubtotal === undefined) {
+    return { status: 'unverifiable', itemsTotal, unpricedItemCount };
+  }
+
+  const difference = roundMoney(expectedSubtotal - itemsTotal);
+  return {
+    status: Math.abs(difference) <= RECONCILIATION_TOLERANCE ? 'balanced' : 'mismatch',
+    itemsTotal,
+    expectedSubtotal,
+    difference,
+    unpricedItemCount,
+  };
+}
+
 function cleanLine(line: string): string {
   return line
     .replace(/\s+/g, ' ')
@@ -29,70 +289,136 @@ function cleanLine(line: string): string {
     .trim();
 }
 
-function inferUnit(line: string): string {
-  if (/\b(lb|lbs|pound|oz)\b/i.test(line)) return 'lb';
-  if (/\b(kg|g)\b/i.test(line)) return 'kg';
-  if (/\b(l|liter|litre|ml)\b/i.test(line)) return 'l';
-  return 'item';
-}
-
-function inferQuantity(line: string): number {
-  const multiplierMatch = line.match(/(\d+)\s*[xX]/);
-  if (multiplierMatch) {
-    return Number(multiplierMatch[1]);
+function readQuantity(line: string): { quantity: number; unit: Unit; rest: string } {
+  const expression = findQuantityExpression(line);
+  if (!expression) {
+    return { quantity: 1, unit: 'item', rest: line };
   }
-  return 1;
+  return {
+    quantity: expression.quantity,
+    unit: expression.unit,
+    rest: line.replace(expression.text, ' '),
+  };
 }
 
-export function parseReceiptText(rawText: string): ParsedReceiptItem[] {
-  const lines = rawText
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean);
+export type ParseReceiptOptions = {
+  aliases?: IngredientAlias[];
+  dictionaries?: ReceiptDictionary[];
+  // Picked by the user; otherwise the dictionary is detected from the receipt header.
+  dictionaryId?: string;
+};
 
+export function parseReceipt(rawText: string, options: ParseReceiptOptions = {}): ParsedReceipt {
+  const aliases = options.aliases ?? [];
+  const lines = groupReceiptLines(
+    rawText
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+  );
+  const dictionaries = options.dictionaries ?? [];
+  const dictionary =
+    (options.dictionaryId ? findReceiptDictionary(dictionaries, options.dictionaryId) : null) ??
+    detectReceiptDictionary(dictionaries, lines.slice(0, MERCHANT_HEADER_LINES));
+
+  const metadata: Omit<ParsedReceipt, 'items' | 'reconciliation'> = dictionary
+    ? { dictionaryId: dictionary.id }
+    : {};
   const parsed: ParsedReceiptItem[] = [];
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
+    if (readMetadataLine(line, metadata)) {
+      continue;
+    }
+
+    if (parsed.length === 0 && index < MERCHANT_HEADER_LINES) {
+      // Addresses, phone numbers and greetings above the first item are not groceries.
+      if (isHeaderContactLine(line)) continue;
+      const merchant = metadata.merchant ? undefined : readMerchantLine(line);
+      if (merchant) {
+        metadata.merchant = merchant;
+        continue;
+      }
+    }
+
     if (IGNORED_LINE_PATTERNS.some((pattern) => pattern.test(line))) {
       continue;
     }
 
-    const cleaned = cleanLine(line);
+    const { quantity, unit, unitPrice, lineTotal, currency, rest } = readItemAmounts(line);
+    const cleaned = cleanLine(rest);
     if (!cleaned || cleaned.length < 3) {
       continue;
     }
 
-    const { canonicalName, confidence } = canonicalizeIngredient(cleaned);
+    // Aliases were learned from the text as printed, so they are checked before expansion.
+    const alias = findAlias(aliases, cleaned);
+    const { canonicalName, confidence, candidates } = canonicalizeIngredient(
+      alias ? cleaned : expandAbbreviations(cleaned, dictionary),
+      aliases,
+    );
     if (canonicalName === 'unknown') {
       continue;
     }
 
     parsed.push({
       rawLine: line,
+      rawName: cleaned,
       canonicalName,
-      displayName: canonicalName,
-      quantity: inferQuantity(line),
-      unit: inferUnit(line),
+      displayName: alias?.displayName ?? canonicalName,
+      quantity,
+      unit,
       confidence,
+      ...(candidates.length > 1 ? { candidates } : {}),
+      ...(unitPrice !== undefined ? { unitPrice } : {}),
+      ...(lineTotal !== undefined ? { lineTotal } : {}),
+      ...(currency ? { currency } : {}),
     });
   }
 
   const deduped = new Map<string, ParsedReceiptItem>();
 
+  // Lines in compatible units (a 500 g bag and a 1 kg bag) are summed in the first line's unit.
   for (const item of parsed) {
-    const key = `${item.canonicalName}:${item.unit}`;
+    const key = `${item.canonicalName}:${unitDimension(item.unit)}`;
     const existing = deduped.get(key);
     if (!existing) {
       deduped.set(key, item);
       continue;
     }
 
+    const quantity = Number(
+      (existing.quantity + (convertQuantity(item.quantity, item.unit, existing.unit) ?? 0)).toFixed(3),
+    );
+    const lineTotal =
+      typeof existing.lineTotal === 'number' && typeof item.lineTotal === 'number'
+        ? roundMoney(existing.lineTotal + item.lineTotal)
+        : undefined;
     deduped.set(key, {
       ...existing,
-      quantity: existing.quantity + item.quantity,
+      quantity,
       confidence: Math.max(existing.confidence, item.confidence),
+      unitPrice: lineTotal === undefined ? (existing.unitPrice ?? item.unitPrice) : undefined,
+      lineTotal,
+      ...derivePriceFields(quantity, { lineTotal }),
     });
   }
 
-  return Array.from(deduped.values());
+  const items = Array.from(deduped.values()).map((item) =>
+    metadata.purchaseDate ? { ...item, purchaseDate: metadata.purchaseDate } : item,
+  );
+  return {
+    ...metadata,
+    merchant: metadata.merchant ?? dictionary?.merchant,
+    currency: metadata.currency ?? items.find((item) => item.currency)?.currency,
+    items,
+    reconciliation: reconcileReceipt(items, metadata),
+  };
+}
+
+export function parseReceiptText(
+  rawText: string,
+  options: ParseReceiptOptions = {},
+): ParsedReceiptItem[] {
+  return parseReceipt(rawText, options).items;
 }
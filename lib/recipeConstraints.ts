@@ -0,0 +1,86 @@
+import type { Equipment, RecipeConstraints, RecipeSuggestion } from '@/lib/types';
+
+export const EQUIPMENT: Equipment[] = [
+  'stovetop',
+  'oven',
+  'microwave',
+  'grill',
+  'toaster',
+  'blender',
+  'slow cooker',
+];
+
+export function isEquipment(value: unknown): value is Equipment {
+  return typeof value === 'string' && EQUIPMENT.includes(value as Equipment);
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Drops anything malformed so a bad field loosens the request instead of failing it.
+export function normalizeRecipeConstraints(value: unknown): RecipeConstraints {
+  if (!value || typeof value !== 'object') return {};
+  const raw = value as Record<string, unknown>;
+  const maxMinutes = positiveNumber(raw.maxMinutes);
+  const servings = positiveNumber(raw.servings);
+  const equipment = Array.isArray(raw.equipment) ? raw.equipment.filter(isEquipment) : undefined;
+  return {
+    ...(maxMinutes ? { maxMinutes } : {}),
+    ...(equipment ? { equipment: [...new Set(equipment)] } : {}),
+    ...(servings ? { servings: Math.round(servings) } : {}),
+  };
+}
+
+export function hasRecipeConstraints(constraints: RecipeConstraints): boolean {
+  return Boolean(constraints.maxMinutes || constraints.equipment || constraints.servings);
+}
+
+// Reasons the recipe cannot be made within the constraints. Servings never disqualify a recipe;
+// it is scaled instead.
+export function constraintViolations(
+  recipe: Pick<RecipeSuggestion, 'estimatedCookingTimeMinutes' | 'equipment'>,
+  constraints: RecipeConstraints,
+): string[] {
+  const reasons: string[] = [];
+  if (constraints.maxMinutes && recipe.estimatedCookingTimeMinutes > constraints.maxMinutes) {
+    reasons.push(`takes ${recipe.estimatedCookingTimeMinutes} min`);
+  }
+  const available = constraints.equipment;
+  if (available) {
+    const unavailable = recipe.equipment.filter((item) => !available.includes(item));
+    if (unavailable.length > 0) reasons.push(`needs ${unavailable.join(', ')}`);
+  }
+  return reasons;
+}
+
+// Scales ingredient amounts to the target servings.
+export function scaleRecipe(recipe: RecipeSuggestion, servings: number | undefined): RecipeSuggestion {
+  if (!servings || servings === recipe.servings || recipe.servings <= 0) return recipe;
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ingredient) => ({
+      ...ingredient,
+      quantity: Number((ingredient.quantity * factor).toFixed(2)),
+    })),
+  };
+}
+
+// Plain-language limits for the model prompt.
+export function describeRecipeConstraints(constraints: RecipeConstraints): string[] {
+  return [
+    ...(constraints.maxMinutes
+      ? [`estimatedCookingTimeMinutes must be at most ${constraints.maxMinutes}.`]
+      : []),
+    ...(constraints.equipment
+      ? [
+          constraints.equipment.length > 0
+            ? `Only use this equipment: ${constraints.equipment.join(', ')}.`
+            : 'No cooking equipment is available; only suggest recipes that need none.',
+        ]
+      : []),
+    ...(constraints.servings ? [`Each recipe must serve ${constraints.servings}.`] : []),
+  ];
+}
@@ -1,11 +1,23 @@
+import { EMPTY_HOUSEHOLD_PROFILE, ingredientViolations } from '@/lib/householdProfile';
+import { ingredientSatisfies } from '@/lib/ingredientCatalog';
+import { soonestExpirationDate } from '@/lib/pantry';
+import { constraintViolations, scaleRecipe } from '@/lib/recipeConstraints';
+import { listLibraryRecipes } from '@/lib/recipeLibrary';
+import type { LibraryRecipe } from '@/lib/recipeLibrary';
 import { daysUntil, urgencyScore } from '@/lib/shelfLife';
-import type { InventoryItem, RankedIngredient, RecipeSuggestion } from '@/lib/types';
+import type {
+  HouseholdProfile,
+  InventoryItem,
+  RankedIngredient,
+  RecipeConstraints,
+  RecipeIngredient,
+  RecipeSuggestion,
+} from '@/lib/types';
 
 export function rankExpiringIngredients(pantry: InventoryItem[]): RankedIngredient[] {
   return pantry
     .map((item) => {
-      const effectiveExpiration = item.overrideExpirationDate ?? item.computedExpirationDate;
-      const remaining = daysUntil(effectiveExpiration);
+      const remaining = daysUntil(soonestExpirationDate(item));
       return {
         canonicalName: item.canonicalName,
         displayName: item.displayName,
@@ -16,79 +28,138 @@ export function rankExpiringIngredients(pantry: InventoryItem[]): RankedIngredie
     .sort((a, b) => b.urgencyScore - a.urgencyScore || a.daysUntilExpiration - b.daysUntilExpiration);
 }
 
-export function fallbackRecipes(pantry: InventoryItem[]): RecipeSuggestion[] {
-  const ranked = rankExpiringIngredients(pantry);
-  const top = ranked.slice(0, 6).map((item) => item.canonicalName);
-  const inventorySet = new Set(pantry.map((item) => item.canonicalName));
+export type LibraryRecipeMatch = {
+  recipe: LibraryRecipe;
+  score: number;
+  // Share of the required ingredients the pantry already covers.
+  coverage: number;
+  // Required ingredients plus the optional ones the pantry has.
+  ingredients: RecipeIngredient[];
+  pantryIngredientsUsed: string[];
+  missingIngredients: string[];
+};
 
-  const templates: RecipeSuggestion[] = [
-    {
-      title: 'Quick Stir-Fry Rescue',
-      pantryIngredientsUsed: top.slice(0, 4),
-      missingIngredients: ['soy sauce', 'oil'].filter((x) => !inventorySet.has(x)),
-      steps: [
-        'Chop all produce and proteins into bite-sized pieces.',
-        'Heat oil in a pan, cook proteins first, then add vegetables.',
-        'Add soy sauce and cook until tender-crisp.',
-        'Serve hot over bread, rice, or as-is.',
-      ],
-      estimatedCookingTimeMinutes: 20,
-    },
-    {
-      title: 'Pantry Omelet Bowl',
-      pantryIngredientsUsed: top.filter((i) => i !== 'fish').slice(0, 3),
-      missingIngredients: ['salt', 'pepper'].filter((x) => !inventorySet.has(x)),
-      steps: [
-        'Whisk eggs with a splash of milk if available.',
-        'Saute chopped expiring vegetables until soft.',
-        'Pour eggs over vegetables and cook until set.',
-        'Fold and serve with toast or salad.',
-      ],
-      estimatedCookingTimeMinutes: 15,
-    },
-    {
-      title: 'Roasted Tray Mix',
-      pantryIngredientsUsed: top.slice(0, 5),
-      missingIngredients: ['olive oil', 'salt'].filter((x) => !inventorySet.has(x)),
-      steps: [
-        'Preheat oven to 425F.',
-        'Cut ingredients evenly and toss with oil and seasoning.',
-        'Spread on tray and roast 20-30 minutes.',
-        'Finish with a squeeze of lemon or herbs if available.',
-      ],
-      estimatedCookingTimeMinutes: 35,
-    },
-    {
-      title: 'Soup Pot Save',
-      pantryIngredientsUsed: top.slice(0, 4),
-      missingIngredients: ['broth'].filter((x) => !inventorySet.has(x)),
-      steps: [
-        'Add chopped ingredients to a pot with broth or water.',
-        'Simmer until everything is tender.',
-        'Season and blend partially for texture.',
-        'Serve warm and store leftovers.',
-      ],
-      estimatedCookingTimeMinutes: 30,
-    },
-    {
-      title: 'Cold Leftover Salad',
-      pantryIngredientsUsed: top.slice(0, 3),
-      missingIngredients: ['vinegar', 'olive oil'].filter((x) => !inventorySet.has(x)),
-      steps: [
-        'Slice all fresh ingredients thinly.',
-        'Whisk quick dressing from oil, vinegar, salt.',
-        'Combine and rest for 5 minutes.',
-        'Top with protein or cheese if available.',
-      ],
-      estimatedCookingTimeMinutes: 10,
-    },
-  ];
+// A recipe is only suggested when it uses something from the pantry and needs at most this many
+// extra ingredients.
+const MAX_MISSING_INGREDIENTS = 2;
+// Two ingredients at full urgency make a recipe as urgent as it can score.
+const URGENCY_SATURATION = 14;
+const COVERAGE_WEIGHT = 0.5;
+const URGENCY_WEIGHT = 0.35;
+const MISSING_WEIGHT = 0.15;
 
-  return templates
-    .map((recipe) => ({
-      ...recipe,
-      pantryIngredientsUsed: recipe.pantryIngredientsUsed.filter(Boolean),
-    }))
-    .filter((recipe) => recipe.pantryIngredientsUsed.length > 0)
-    .slice(0, 5);
+const isAllowed = (names: string | string[], profile: HouseholdProfile) =>
+  ingredientViolations(names, profile).length === 0;
+
+// Optional ingredients the household cannot have are left out; a recipe that needs one is skipped.
+function fitRecipeToProfile(recipe: LibraryRecipe, profile: HouseholdProfile): LibraryRecipe | null {
+  const ingredients = recipe.ingredients.filter((requirement) =>
+    isAllowed(requirement.canonicalName, profile),
+  );
+  const dropsRequired = recipe.ingredients.some(
+    (requirement) => !requirement.optional && !ingredients.includes(requirement),
+  );
+  if (dropsRequired) return null;
+  return ingredients.length === recipe.ingredients.length ? recipe : { ...recipe, ingredients };
+}
+
+export type LibraryMatchOptions = {
+  profile?: HouseholdProfile;
+  constraints?: RecipeConstraints;
+  recipes?: LibraryRecipe[];
+};
+
+export function matchLibraryRecipes(
+  pantry: InventoryItem[],
+  {
+    profile = EMPTY_HOUSEHOLD_PROFILE,
+    constraints = {},
+    recipes = listLibraryRecipes(),
+  }: LibraryMatchOptions = {},
+): LibraryRecipeMatch[] {
+  // A pantry item the household avoids never stands in for a recipe ingredient. The display name is
+  // checked too, since a fuzzy match may have stored "Peanut Butter" as butter.
+  const ranked = rankExpiringIngredients(pantry).filter((item) =>
+    isAllowed([item.displayName, item.canonicalName], profile),
+  );
+
+  return recipes
+    .filter((recipe) => constraintViolations(recipe, constraints).length === 0)
+    .flatMap((recipe) => fitRecipeToProfile(recipe, profile) ?? [])
+    .map((recipe) => {
+      const used: RankedIngredient[] = [];
+      const ingredients: RecipeIngredient[] = [];
+      const missingIngredients: string[] = [];
+      for (const requirement of recipe.ingredients) {
+        // Ranked is sorted most urgent first, so this picks the item that most needs using.
+        const match = ranked.find(
+          (item) =>
+            !used.includes(item) && ingredientSatisfies(item.canonicalName, requirement.canonicalName),
+        );
+        if (match) used.push(match);
+        else if (!requirement.optional) missingIngredients.push(requirement.canonicalName);
+        if (match || !requirement.optional) {
+          ingredients.push({
+            canonicalName: requirement.canonicalName,
+            quantity: requirement.quantity,
+            unit: requirement.unit,
+            fromPantry: Boolean(match),
+          });
+        }
+      }
+
+      const required = recipe.ingredients.filter((requirement) => !requirement.optional).length;
+      const coverage = (required - missingIngredients.length) / required;
+      const urgency = Math.min(
+        1,
+        used.reduce((total, item) => total + Math.min(item.urgencyScore, 7), 0) / URGENCY_SATURATION,
+      );
+      const score =
+        COVERAGE_WEIGHT * coverage +
+        URGENCY_WEIGHT * urgency +
+        MISSING_WEIGHT / (1 + missingIngredients.length);
+
+      return {
+        recipe,
+        score,
+        coverage,
+        ingredients,
+        pantryIngredientsUsed: [...new Set(used.map((item) => item.canonicalName))],
+        missingIngredients,
+      };
+    })
+    .filter(
+      (match) =>
+        match.pantryIngredientsUsed.length > 0 &&
+        match.missingIngredients.length <= MAX_MISSING_INGREDIENTS,
+    )
+    .sort((a, b) => b.score - a.score || a.recipe.title.localeCompare(b.recipe.title));
+}
+
+export type FallbackOptions = Omit<LibraryMatchOptions, 'recipes'> & {
+  // How many recipes to return; the recipes page shows five.
+  limit?: number;
+};
+
+export function fallbackRecipes(
+  pantry: InventoryItem[],
+  options: FallbackOptions = {},
+): RecipeSuggestion[] {
+  return matchLibraryRecipes(pantry, options)
+    .slice(0, options.limit ?? 5)
+    .map(({ recipe, ingredients, pantryIngredientsUsed, missingIngredients }) =>
+      scaleRecipe(
+        {
+          title: recipe.title,
+          ingredients,
+          pantryIngredientsUsed,
+          missingIngredients,
+          steps: recipe.steps,
+          estimatedCookingTimeMinutes: recipe.estimatedCookingTimeMinutes,
+          servings: recipe.servings,
+          equipment: recipe.equipment,
+        },
+        options.constraints?.servings,
+      ),
+    );
 }
@@ -0,0 +1,344 @@
+import { describeProfileConstraints, recipeViolations } from '@/lib/householdProfile';
+import { createJsonArrayStreamReader, parseJsonObject } from '@/lib/llm';
+import type { LlmJsonSchema, LlmProvider } from '@/lib/llm';
+import {
+  constraintViolations,
+  describeRecipeConstraints,
+  EQUIPMENT,
+  isEquipment,
+  scaleRecipe,
+} from '@/lib/recipeConstraints';
+import { fallbackRecipes } from '@/lib/recipeFallback';
+import { CATALOG_MATCH_CONFIDENCE, canonicalizeIngredient } from '@/lib/shelfLife';
+import { parseUnit, UNITS } from '@/lib/units';
+import type {
+  HouseholdProfile,
+  InventoryItem,
+  RankedIngredient,
+  RecipeConstraints,
+  RecipeIngredient,
+  RecipeSuggestion,
+} from '@/lib/types';
+
+export type RecipeGenerationRequest = {
+  pantry: InventoryItem[];
+  ranked: RankedIngredient[];
+  profile: HouseholdProfile;
+  constraints: RecipeConstraints;
+  preferences?: string;
+  minRecipes: number;
+  maxRecipes: number;
+  // Extra prompt lines describing what the recipes are for.
+  instructions?: string[];
+};
+
+export type RecipeGenerationResult = {
+  recipes: RecipeSuggestion[];
+  // One note per recipe dropped for breaking the household profile or cooking limits.
+  rejected: string[];
+  // Set when the provider call failed before any usable recipe came back.
+  failedStatus?: number;
+};
+
+type GenerationLog = {
+  requestId: string;
+  // Route tag such as "[api/recipes]".
+  prefix: string;
+};
+
+// A second attempt is made only when the first one broke the household profile or limits.
+const MAX_RECIPE_ATTEMPTS = 2;
+
+function recipeJsonSchema(minItems: number, maxItems: number): LlmJsonSchema {
+  return {
+    name: 'recipe_suggestions',
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        recipes: {
+          type: 'array',
+          minItems,
+          maxItems,
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              title: { type: 'string' },
+              ingredients: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  additionalProperties: false,
+                  properties: {
+                    canonicalName: { type: 'string' },
+                    quantity: { type: 'number' },
+                    unit: { type: 'string', enum: UNITS },
+                    fromPantry: { type: 'boolean' },
+                  },
+                  required: ['canonicalName', 'quantity', 'unit', 'fromPantry'],
+                },
+              },
+              pantryIngredientsUsed: {
+                type: 'array',
+                items: { type: 'string' },
+              },
+              missingIngredients: {
+                type: 'array',
+                items: { type: 'string' },
+              },
+              steps: {
+                type: 'array',
+                minItems: 2,
+                items: { type: 'string' },
+              },
+              estimatedCookingTimeMinutes: { type: 'number' },
+              servings: { type: 'number' },
+              equipment: {
+                type: 'array',
+                items: { type: 'string', enum: EQUIPMENT },
+              },
+            },
+            required: [
+              'title',
+              'ingredients',
+              'pantryIngredientsUsed',
+              'missingIngredients',
+              'steps',
+              'estimatedCookingTimeMinutes',
+              'servings',
+              'equipment',
+            ],
+          },
+        },
+      },
+      required: ['recipes'],
+    },
+  };
+}
+
+// Only exact and synonym matches replace the model's name, so a near miss such as "cashew cream"
+// is not stored as cream.
+function recipeIngredientName(name: string): string {
+  const { canonicalName, confidence } = canonicalizeIngredient(name);
+  return confidence >= CATALOG_MATCH_CONFIDENCE
+    ? canonicalName
+    : name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Models name ingredients loosely ("2 chicken breasts"), so names go through the catalog and units
+// through the unit parser. Entries without a usable amount are dropped.
+function validateRecipeIngredients(raw: unknown[]): RecipeIngredient[] {
+  return raw.flatMap((item): RecipeIngredient[] => {
+    if (!item || typeof item !== 'object') return [];
+    const candidate = item as Record<string, unknown>;
+    const unit = typeof candidate.unit === 'string' ? parseUnit(candidate.unit) : null;
+    if (
+      typeof candidate.canonicalName !== 'string' ||
+      !candidate.canonicalName.trim() ||
+      typeof candidate.quantity !== 'number' ||
+      !(candidate.quantity > 0) ||
+      !unit
+    ) {
+      return [];
+    }
+    return [
+      {
+        canonicalName: recipeIngredientName(candidate.canonicalName),
+        quantity: candidate.quantity,
+        unit,
+        fromPantry: candidate.fromPantry === true,
+      },
+    ];
+  });
+}
+
+// Returns the usable recipes, scaled to the requested servings, and a note for each one that broke
+// the time or equipment limits.
+export function validateRecipes(
+  raw: unknown,
+  constraints: RecipeConstraints,
+): { recipes: RecipeSuggestion[]; rejected: string[] } {
+  if (!Array.isArray(raw)) return { recipes: [], rejected: [] };
+
+  const rejected: string[] = [];
+  const valid = raw
+    .map((item) => {
+      if (!item || typeof item !== 'object') return null;
+      const candidate = item as Record<string, unknown>;
+
+      if (
+        typeof candidate.title !== 'string' ||
+        !Array.isArray(candidate.ingredients) ||
+        !Array.isArray(candidate.pantryIngredientsUsed) ||
+        !Array.isArray(candidate.missingIngredients) ||
+        !Array.isArray(candidate.steps) ||
+        typeof candidate.estimatedCookingTimeMinutes !== 'number' ||
+        typeof candidate.servings !== 'number' ||
+        !(candidate.servings > 0) ||
+        !Array.isArray(candidate.equipment)
+      ) {
+        return null;
+      }
+
+      const recipe = {
+        title: candidate.title,
+        ingredients: validateRecipeIngredients(candidate.ingredients),
+        pantryIngredientsUsed: candidate.pantryIngredientsUsed.filter(
+          (value): value is string => typeof value === 'string',
+        ),
+        missingIngredients: candidate.missingIngredients.filter(
+          (value): value is string => typeof value === 'string',
+        ),
+        steps: candidate.steps.filter((value): value is string => typeof value === 'string'),
+        estimatedCookingTimeMinutes: candidate.estimatedCookingTimeMinutes,
+        servings: candidate.servings,
+        equipment: candidate.equipment.filter(isEquipment),
+      } satisfies RecipeSuggestion;
+
+      const violations = constraintViolations(recipe, constraints);
+      if (violations.length > 0) {
+        rejected.push(`${recipe.title} (${violations.join(', ')})`);
+        return null;
+      }
+      return scaleRecipe(recipe, constraints.servings);
+    })
+    .filter((value): value is RecipeSuggestion => value !== null);
+
+  return { recipes: valid, rejected };
+}
+
+function buildRecipePrompt(request: RecipeGenerationRequest): string[] {
+  const { pantry, ranked, profile, constraints } = request;
+  const profileRules = describeProfileConstraints(profile);
+  return [
+    `Generate ${request.minRecipes} to ${request.maxRecipes} recipes as strict JSON only.`,
+    ...(request.instructions ?? []),
+    'Use this schema:',
+    '{"recipes":[{"title":"string","ingredients":[{"canonicalName":"string","quantity":number,"unit":"string","fromPantry":boolean}],"pantryIngredientsUsed":["string"],"missingIngredients":["string"],"steps":["string"],"estimatedCookingTimeMinutes":number,"servings":number,"equipment":["string"]}]}',
+    `List every ingredient with the amount the recipe needs. Units must be one of: ${UNITS.join(', ')}.`,
+    'Set fromPantry to true only for ingredients taken from the pantry snapshot.',
+    'Prioritize ingredients with high urgency first to reduce food waste.',
+    `Ranked urgent ingredients: ${JSON.stringify(ranked)}`,
+    `Full pantry snapshot: ${JSON.stringify(pantry)}`,
+    ...(profileRules.length > 0
+      ? [
+          `Household profile (hard constraints): ${JSON.stringify({
+            diets: profile.diets,
+            allergens: profile.allergens,
+            dislikes: profile.dislikes,
+          })}`,
+          ...profileRules,
+        ]
+      : []),
+    `Equipment must be listed from: ${EQUIPMENT.join(', ')}. Use an empty list for no-cook recipes.`,
+    ...describeRecipeConstraints(constraints),
+    `User preferences: ${request.preferences?.trim() || 'none'}`,
+    'Return JSON only. No markdown fences, no commentary.',
+  ];
+}
+
+// Asks the model for recipes and keeps only those that fit the household profile and limits,
+// asking once more when some were rejected and too few are left. With `onRecipe`, the reply is
+// streamed and each kept recipe is handed over as soon as the model has finished writing it.
+export async function generateModelRecipes(
+  provider: LlmProvider,
+  request: RecipeGenerationRequest,
+  log: GenerationLog,
+  onRecipe?: (recipe: RecipeSuggestion) => void,
+): Promise<RecipeGenerationResult> {
+  const { pantry, profile, constraints } = request;
+  const basePrompt = buildRecipePrompt(request);
+  const recipes: RecipeSuggestion[] = [];
+  const rejected: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_RECIPE_ATTEMPTS; attempt += 1) {
+    const prompt = [
+      ...basePrompt,
+      ...(rejected.length > 0
+        ? [`These earlier recipes were rejected, do not repeat them: ${rejected.join('; ')}`]
+        : []),
+    ].join('\n');
+
+    let candidates = 0;
+    const consider = (raw: unknown) => {
+      const { recipes: valid, rejected: outOfLimits } = validateRecipes([raw], constraints);
+      rejected.push(...outOfLimits);
+      for (const recipe of valid) {
+        candidates += 1;
+        const violations = recipeViolations(recipe, profile);
+        if (violations.length > 0) {
+          rejected.push(`${recipe.title} (${violations.join(', ')})`);
+        } else if (
+          recipes.length < request.maxRecipes &&
+          !recipes.some((kept) => kept.title === recipe.title)
+        ) {
+          recipes.push(recipe);
+          onRecipe?.(recipe);
+        }
+      }
+    };
+    // Character offset in the reply just past the last element the stream reader handed over.
+    let consumed = 0;
+    const reader = onRecipe
+      ? createJsonArrayStreamReader('recipes', (raw, end) => {
+          consumed = end;
+          consider(raw);
+        })
+      : null;
+
+    console.info(`${log.prefix} outbound`, {
+      requestId: log.requestId,
+      target: provider.name,
+      model: provider.modelFor('recipes'),
+      rankedCount: request.ranked.length,
+      attempt,
+      streaming: Boolean(reader),
+    });
+    const result = await provider.complete({
+      task: 'recipes',
+      system:
+        'You are a recipe assistant that returns valid JSON only and prioritizes ingredients close to expiration.',
+      prompt,
+      jsonSchema: recipeJsonSchema(request.minRecipes, request.maxRecipes),
+      fixture: () => ({
+        recipes: fallbackRecipes(pantry, { profile, constraints, limit: request.maxRecipes }),
+      }),
+      onText: reader ? (delta) => reader.push(delta) : undefined,
+    });
+    console.info(`${log.prefix} inbound`, {
+      requestId: log.requestId,
+      source: provider.name,
+      status: result.ok ? 200 : result.status,
+      ok: result.ok,
+      attempt,
+    });
+
+    if (!result.ok) {
+      if (recipes.length > 0) break;
+      return { recipes, rejected, failedStatus: result.status };
+    }
+
+    // Elements after the last one the stream reader handed over are read from the full reply,
+    // resuming at its offset, so a malformed element it skipped does not shift the rest. Without
+    // streaming, or when nothing was handed over, the whole reply is parsed.
+    if (consumed > 0) {
+      createJsonArrayStreamReader('recipes', consider, consumed).push(result.text);
+    } else {
+      const parsed = parseJsonObject(result.text);
+      const raw = Array.isArray(parsed?.recipes) ? parsed.recipes : [];
+      raw.forEach(consider);
+    }
+    console.info(`${log.prefix} validated`, {
+      requestId: log.requestId,
+      attempt,
+      candidates,
+      kept: recipes.length,
+      rejected: rejected.length,
+    });
+    if (recipes.length >= request.minRecipes || rejected.length === 0) break;
+  }
+
+  return { recipes, rejected };
+}
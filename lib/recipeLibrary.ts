@@ -0,0 +1,75 @@
+import recipeData from '@/data/recipes.v3.json';
+import { isEquipment } from '@/lib/recipeConstraints';
+import { isUnit } from '@/lib/units';
+import type { Equipment, Unit } from '@/lib/types';
+
+export type RecipeRequirement = {
+  canonicalName: string;
+  quantity: number;
+  unit: Unit;
+  // Optional ingredients improve the dish but are never reported as missing.
+  optional: boolean;
+};
+
+export type LibraryRecipe = {
+  id: string;
+  title: string;
+  ingredients: RecipeRequirement[];
+  steps: string[];
+  estimatedCookingTimeMinutes: number;
+  servings: number;
+  // Empty for recipes that need no cooking appliance.
+  equipment: Equipment[];
+};
+
+export const RECIPE_LIBRARY_VERSION = 3;
+
+function readRequirement(value: unknown): RecipeRequirement | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.canonicalName !== 'string' || !raw.canonicalName.trim()) return null;
+  if (typeof raw.quantity !== 'number' || !(raw.quantity > 0) || !isUnit(raw.unit)) return null;
+  return {
+    canonicalName: raw.canonicalName.trim().toLowerCase(),
+    quantity: raw.quantity,
+    unit: raw.unit,
+    optional: raw.optional === true,
+  };
+}
+
+function readRecipeLibrary(data: unknown): LibraryRecipe[] {
+  const raw = data as { version?: unknown; recipes?: unknown };
+  if (raw.version !== RECIPE_LIBRARY_VERSION || !Array.isArray(raw.recipes)) {
+    throw new Error(`Recipe library must be version ${RECIPE_LIBRARY_VERSION}.`);
+  }
+
+  return raw.recipes.flatMap((value): LibraryRecipe[] => {
+    const recipe = value as Record<string, unknown>;
+    if (typeof recipe.id !== 'string' || typeof recipe.title !== 'string') return [];
+    const ingredients = Array.isArray(recipe.ingredients)
+      ? recipe.ingredients.flatMap((entry) => readRequirement(entry) ?? [])
+      : [];
+    const steps = Array.isArray(recipe.steps)
+      ? recipe.steps.filter((step): step is string => typeof step === 'string')
+      : [];
+    if (!ingredients.some((ingredient) => !ingredient.optional) || steps.length === 0) return [];
+    return [
+      {
+        id: recipe.id,
+        title: recipe.title,
+        ingredients,
+        steps,
+        estimatedCookingTimeMinutes:
+          typeof recipe.estimatedCookingTimeMinutes === 'number' ? recipe.estimatedCookingTimeMinutes : 30,
+        servings: typeof recipe.servings === 'number' && recipe.servings > 0 ? recipe.servings : 2,
+        equipment: Array.isArray(recipe.equipment) ? recipe.equipment.filter(isEquipment) : [],
+      },
+    ];
+  });
+}
+
+const RECIPES = readRecipeLibrary(recipeData);
+
+export function listLibraryRecipes(): LibraryRecipe[] {
+  return RECIPES;
+}
@@ -0,0 +1,40 @@
+import type { LlmProviderName } from '@/lib/llm';
+import type { RankedIngredient, RecipeSuggestion } from '@/lib/types';
+
+export const RECIPE_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+// One line of a streamed /api/recipes response. `ranked` comes first, then one `recipe` per
+// suggestion as it is ready, then `done`; `error` replaces `done` when generation fails midway.
+export type RecipeStreamEvent =
+  | { type: 'ranked'; rankedIngredients: RankedIngredient[] }
+  | { type: 'recipe'; recipe: RecipeSuggestion }
+  | { type: 'done'; source: LlmProviderName | 'fallback'; warning?: string }
+  | { type: 'error'; error: string };
+
+export function encodeRecipeStreamEvent(event: RecipeStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+// Calls `onEvent` for each line of a streamed response body as it arrives.
+export async function readRecipeStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: RecipeStreamEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  const handleLine = (line: string) => {
+    if (line.trim()) onEvent(JSON.parse(line) as RecipeStreamEvent);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(pending + decoder.decode());
+}
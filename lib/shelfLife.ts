@@ -1,49 +1,24 @@
-const DEFAULT_SHELF_LIFE_DAYS = 7;
-
-const SHELF_LIFE_BY_INGREDIENT: Record<string, number> = {
-  apple: 30,
-  banana: 5,
-  beef: 4,
-  bread: 7,
-  broccoli: 7,
-  butter: 30,
-  carrot: 21,
-  cheese: 28,
-  chicken: 2,
-  cilantro: 4,
-  cucumber: 7,
-  egg: 21,
-  fish: 2,
-  garlic: 45,
-  lettuce: 7,
-  milk: 7,
-  onion: 30,
-  potato: 30,
-  spinach: 5,
-  tomato: 10,
-  yogurt: 14,
-};
+import { findAlias } from '@/lib/aliases';
+import {
+  catalogKey,
+  findCatalogEntryBySynonym,
+  getCatalogEntry,
+  listCatalogEntries,
+  resolveShelfLifeProfile,
+} from '@/lib/ingredientCatalog';
+import type { IngredientAlias, IngredientCandidate, StorageLocation } from '@/lib/types';
+
+export const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const DEFAULT_STORAGE_LOCATION: StorageLocation = 'fridge';
 
-const INGREDIENT_ALIASES: Record<string, string> = {
-  apples: 'apple',
-  bananas: 'banana',
-  eggs: 'egg',
-  tomatoes: 'tomato',
-  potatoes: 'potato',
-  onions: 'onion',
-  lettuces: 'lettuce',
-  bnna: 'banana',
-  orgbnna: 'banana',
-  mlk: 'milk',
-  chk: 'chicken',
-  chkn: 'chicken',
-  tom: 'tomato',
-  yog: 'yogurt',
+const DEFAULT_SHELF_LIFE_DAYS: Record<StorageLocation, number> = {
+  fridge: 7,
+  freezer: 90,
+  pantry: 5,
 };
 
-function normalizeToken(value: string): string {
-  return value.toLowerCase().replace(/[^a-z]/g, '');
-}
+const DEFAULT_OPENED_SHELF_LIFE_DAYS = 3;
 
 function levenshteinDistance(a: string, b: string): number {
   const rows = a.length + 1;
@@ -67,52 +42,311 @@ function levenshteinDistance(a: string, b: string): number {
   return matrix[rows - 1][cols - 1];
 }
 
-export function canonicalizeIngredient(rawName: string): { canonicalName: string; confidence: number } {
-  const normalized = normalizeToken(rawName);
-  if (!normalized) {
-    return { canonicalName: 'unknown', confidence: 0 };
+// Words that describe how a product is marketed rather than what it is.
+const MARKETING_WORDS = new Set([
+  'organic',
+  'org',
+  'fresh',
+  'natural',
+  'all',
+  'premium',
+  'select',
+  'choice',
+  'classic',
+  'original',
+  'homestyle',
+  'farm',
+  'farms',
+  'local',
+  'grade',
+  'value',
+  'family',
+  'size',
+  'pack',
+  'large',
+  'lg',
+  'small',
+  'sm',
+  'medium',
+  'med',
+  'jumbo',
+  'extra',
+  'boneless',
+  'bnls',
+  'skinless',
+  'plain',
+  'unsweetened',
+  'unswt',
+  'shredded',
+  'crumbles',
+  'crumbled',
+  'sliced',
+  'diced',
+  'chopped',
+  'new',
+  'the',
+  'and',
+  'of',
+  'with',
+]);
+
+// Store and national brands that often lead product names on receipts.
+const BRAND_WORDS = new Set([
+  'kirkland',
+  'signature',
+  'great',
+  'kroger',
+  'wegmans',
+  'publix',
+  'safeway',
+  'traderjoes',
+  'trader',
+  'joes',
+  'wholefoods',
+  'market',
+  'pantry',
+  'aldi',
+  'lidl',
+  'tesco',
+  'sainsburys',
+  'ks',
+  'gv',
+  'tj',
+  'horizon',
+  'tillamook',
+  'chobani',
+  'fage',
+  'dole',
+  'tyson',
+  'perdue',
+]);
+
+// Varieties and cuts of the same ingredient. Left unmatched, they do not make the input a different
+// ingredient: roma tomatoes are still tomatoes, but peanut butter is not butter.
+const VARIETY_WORDS = new Set([
+  'roma',
+  'plum',
+  'vine',
+  'heirloom',
+  'russet',
+  'yukon',
+  'gold',
+  'gala',
+  'fuji',
+  'honeycrisp',
+  'granny',
+  'smith',
+  'navel',
+  'hass',
+  'seedless',
+  'yellow',
+  'white',
+  'baby',
+  'english',
+  'sharp',
+  'mild',
+  'creamy',
+  'crmy',
+  'crunchy',
+  'smooth',
+  'aged',
+  'lean',
+  'thin',
+  'thick',
+  'cut',
+  'wild',
+]);
+
+// Exact names, synonyms and aliases score at least this; fuzzy matches stay below it.
+export const CATALOG_MATCH_CONFIDENCE = 0.95;
+const MIN_CANDIDATE_CONFIDENCE = 0.6;
+const MAX_CANDIDATES = 5;
+// A token this similar to another counts as the same word, e.g. "tomatos" and "tomato".
+const TOKEN_MATCH_SIMILARITY = 0.75;
+// Each input word the name does not account for halves the score, so a single extra word such as
+// "peanut" in "peanut butter" or "powder" in "garlic powder" drops the match below a candidate.
+const UNMATCHED_TOKEN_PENALTY = 0.5;
+
+export function tokenizeIngredientName(value: string): string[] {
+  const tokens = value
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z]+/)
+    .filter((token) => token.length > 1);
+  const meaningful = tokens.filter((token) => !MARKETING_WORDS.has(token) && !BRAND_WORDS.has(token));
+  // A name made only of noise words ("Organic Valley") still has to be matched on something.
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 0 : 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Receipt abbreviations usually keep the start of the word: "straw" for "strawberry".
+  if (a.length >= 4 && b.startsWith(a)) return 0.85;
+  return similarity(a, b);
+}
+
+// Scores how well the input tokens describe one catalog name. Every word of the name has to be
+// covered, and every word of the input has to be explained by the name or be a variety word, so a
+// compound never collapses to its modifier ("garlic powder" is not garlic) or its head ("peanut
+// butter" is not butter). Covering more of the input breaks ties in favour of the more specific name.
+function scoreName(inputTokens: string[], nameTokens: string[]): number {
+  if (nameTokens.length === 0) return 0;
+  const used = new Set<number>();
+  let nameCoverage = 0;
+
+  for (const nameToken of nameTokens) {
+    let best = 0;
+    let bestIndex = -1;
+    inputTokens.forEach((inputToken, index) => {
+      if (used.has(index)) return;
+      const score = tokenSimilarity(inputToken, nameToken);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (best >= TOKEN_MATCH_SIMILARITY) {
+      nameCoverage += best;
+      used.add(bestIndex);
+    }
   }
 
-  const aliasMatch = INGREDIENT_ALIASES[normalized];
-  if (aliasMatch) {
-    return { canonicalName: aliasMatch, confidence: 0.95 };
+  const unexplained = inputTokens.filter(
+    (token, index) => !used.has(index) && !VARIETY_WORDS.has(token),
+  ).length;
+  const tokenScore =
+    (nameCoverage / nameTokens.length) *
+    UNMATCHED_TOKEN_PENALTY ** unexplained *
+    (0.9 + 0.1 * (used.size / inputTokens.length));
+  // Abbreviations split differently from the catalog ("chknbrst") still match as a whole word, but
+  // only when the spelling is close: "pesto" is not "pasta".
+  const joinedScore = similarity(inputTokens.join(''), nameTokens.join(''));
+  return Math.max(tokenScore, joinedScore >= TOKEN_MATCH_SIMILARITY ? joinedScore : 0);
+}
+
+export function rankIngredientCandidates(rawName: string): IngredientCandidate[] {
+  const tokens = tokenizeIngredientName(rawName);
+  if (tokens.length === 0) return [];
+  const joined = tokens.join('');
+  const fullKey = catalogKey(rawName);
+
+  const exact = getCatalogEntry(fullKey) ?? getCatalogEntry(joined);
+  const synonym = findCatalogEntryBySynonym(fullKey) ?? findCatalogEntryBySynonym(joined);
+  const candidates = new Map<string, number>();
+  if (exact) candidates.set(exact.canonicalName, 1);
+  if (synonym) candidates.set(synonym.canonicalName, Math.max(candidates.get(synonym.canonicalName) ?? 0, CATALOG_MATCH_CONFIDENCE));
+
+  for (const entry of listCatalogEntries()) {
+    if (candidates.has(entry.canonicalName)) continue;
+    const best = Math.max(
+      ...[entry.canonicalName, ...entry.synonyms].map((name) =>
+        scoreName(tokens, tokenizeIngredientName(name)),
+      ),
+    );
+    // Fuzzy matches stay below exact and synonym hits.
+    const confidence = Number(Math.min(best, 0.9).toFixed(2));
+    if (confidence >= MIN_CANDIDATE_CONFIDENCE) candidates.set(entry.canonicalName, confidence);
   }
 
-  if (SHELF_LIFE_BY_INGREDIENT[normalized]) {
-    return { canonicalName: normalized, confidence: 1 };
+  return [...candidates.entries()]
+    .map(([canonicalName, confidence]) => ({ canonicalName, confidence }))
+    .sort((a, b) => b.confidence - a.confidence || b.canonicalName.length - a.canonicalName.length)
+    .slice(0, MAX_CANDIDATES);
+}
+
+// Household alias rules learned from corrections win over the catalog.
+export function canonicalizeIngredient(
+  rawName: string,
+  aliases: IngredientAlias[] = [],
+): {
+  canonicalName: string;
+  confidence: number;
+  candidates: IngredientCandidate[];
+} {
+  const alias = findAlias(aliases, rawName);
+  if (alias) {
+    return {
+      canonicalName: alias.canonicalName,
+      confidence: 1,
+      candidates: [{ canonicalName: alias.canonicalName, confidence: 1 }],
+    };
   }
 
-  let bestMatch = 'unknown';
-  let bestDistance = Number.POSITIVE_INFINITY;
+  const tokens = tokenizeIngredientName(rawName);
+  if (tokens.length === 0) {
+    return { canonicalName: 'unknown', confidence: 0, candidates: [] };
+  }
 
-  for (const key of Object.keys(SHELF_LIFE_BY_INGREDIENT)) {
-    const distance = levenshteinDistance(normalized, key);
-    if (distance < bestDistance) {
-      bestDistance = distance;
-      bestMatch = key;
-    }
+  const candidates = rankIngredientCandidates(rawName);
+  if (candidates.length > 0) {
+    return { ...candidates[0], candidates };
   }
+  return { canonicalName: tokens.join(' '), confidence: 0.5, candidates: [] };
+}
 
-  const maxLength = Math.max(bestMatch.length, normalized.length);
-  const similarity = maxLength === 0 ? 0 : 1 - bestDistance / maxLength;
+export function isStorageLocation(value: unknown): value is StorageLocation {
+  return typeof value === 'string' && (STORAGE_LOCATIONS as string[]).includes(value);
+}
+
+export function defaultStorageLocation(canonicalName: string): StorageLocation {
+  return resolveShelfLifeProfile(canonicalName)?.defaultLocation ?? DEFAULT_STORAGE_LOCATION;
+}
 
-  if (similarity >= 0.55) {
-    return { canonicalName: bestMatch, confidence: Number(similarity.toFixed(2)) };
+export function getShelfLifeDays(
+  canonicalName: string,
+  storageLocation: StorageLocation = defaultStorageLocation(canonicalName),
+): number {
+  const profile = resolveShelfLifeProfile(canonicalName);
+  if (!profile) {
+    return DEFAULT_SHELF_LIFE_DAYS[storageLocation];
   }
 
-  return { canonicalName: normalized, confidence: 0.5 };
+  const listed = profile[storageLocation];
+  if (typeof listed === 'number') {
+    return listed;
+  }
+
+  const baseline = profile[profile.defaultLocation] ?? DEFAULT_SHELF_LIFE_DAYS[profile.defaultLocation];
+  if (storageLocation === 'freezer') return Math.max(baseline, DEFAULT_SHELF_LIFE_DAYS.freezer);
+  // Anything that normally lives in the fridge spoils within a day at room temperature.
+  if (storageLocation === 'pantry') return 1;
+  return baseline;
 }
 
-export function getShelfLifeDays(canonicalName: string): number {
-  return SHELF_LIFE_BY_INGREDIENT[canonicalName] ?? DEFAULT_SHELF_LIFE_DAYS;
+export function getOpenedShelfLifeDays(canonicalName: string): number {
+  return resolveShelfLifeProfile(canonicalName)?.opened ?? DEFAULT_OPENED_SHELF_LIFE_DAYS;
+}
+
+export function openedExpirationDate(params: {
+  canonicalName: string;
+  sealedExpirationDate: string;
+  openedAt: string;
+  openedShelfLifeDaysOverride?: number;
+}): string {
+  const { canonicalName, sealedExpirationDate, openedAt, openedShelfLifeDaysOverride } = params;
+  const openedShelfLifeDays =
+    typeof openedShelfLifeDaysOverride === 'number' && Number.isFinite(openedShelfLifeDaysOverride)
+      ? openedShelfLifeDaysOverride
+      : getOpenedShelfLifeDays(canonicalName);
+  const afterOpening = new Date(openedAt);
+  afterOpening.setDate(afterOpening.getDate() + openedShelfLifeDays);
+
+  const sealed = new Date(sealedExpirationDate);
+  return (afterOpening < sealed ? afterOpening : sealed).toISOString();
 }
 
 export function estimateExpirationDate(
   ingredientName: string,
   purchaseDateIso: string = new Date().toISOString(),
+  storageLocation?: StorageLocation,
 ): string {
   const { canonicalName } = canonicalizeIngredient(ingredientName);
-  const shelfLifeDays = getShelfLifeDays(canonicalName);
+  const shelfLifeDays = getShelfLifeDays(canonicalName, storageLocation);
   const expiration = new Date(purchaseDateIso);
   expiration.setDate(expiration.getDate() + shelfLifeDays);
   return expiration.toISOString();
@@ -121,10 +355,19 @@ export function estimateExpirationDate(
 export function expirationDateForItem(params: {
   canonicalName: string;
   purchaseDate: string;
+  storageLocation?: StorageLocation;
+  openedAt?: string;
   overrideExpirationDate?: string;
   shelfLifeDaysOverride?: number;
 }): string {
-  const { canonicalName, purchaseDate, overrideExpirationDate, shelfLifeDaysOverride } = params;
+  const {
+    canonicalName,
+    purchaseDate,
+    storageLocation,
+    openedAt,
+    overrideExpirationDate,
+    shelfLifeDaysOverride,
+  } = params;
   if (overrideExpirationDate) {
     return new Date(overrideExpirationDate).toISOString();
   }
@@ -133,8 +376,16 @@ export function expirationDateForItem(params: {
   const shelfLifeDays =
     typeof shelfLifeDaysOverride === 'number' && Number.isFinite(shelfLifeDaysOverride)
       ? shelfLifeDaysOverride
-      : getShelfLifeDays(canonicalName);
+      : getShelfLifeDays(canonicalName, storageLocation);
   expiration.setDate(expiration.getDate() + shelfLifeDays);
+
+  if (openedAt) {
+    return openedExpirationDate({
+      canonicalName,
+      sealedExpirationDate: expiration.toISOString(),
+      openedAt,
+    });
+  }
   return expiration.toISOString();
 }
 
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createInventoryItem } from '@/lib/pantry';
+import {
+  checkOffPurchased,
+  mergeShoppingEntries,
+  shoppingEntriesForLowStock,
+  shoppingEntriesForRecipe,
+} from '@/lib/shoppingList';
+import type { IngredientAlias, LedgerEntry, RecipeSuggestion } from '@/lib/types';
+
+const now = '2026-03-02T12:00:00.000Z';
+
+function listOf(names: string[]) {
+  return mergeShoppingEntries([], names.map((canonicalName) => ({ canonicalName })), now);
+}
+
+function checkedNames(items: ReturnType<typeof listOf>): string[] {
+  return items.filter((item) => item.checked).map((item) => item.canonicalName);
+}
+
+// A pantry cached before matching improved stored "Apple Butter" as butter.
+const appleButter = { displayName: 'Apple Butter', canonicalName: 'butter' };
+
+describe('shoppingEntriesForRecipe', () => {
+  it('keeps missing names as written unless they match the catalog confidently', () => {
+    const recipe: RecipeSuggestion = {
+      title: 'Grilled Cheese',
+      ingredients: [{ canonicalName: 'bread', quantity: 4, unit: 'item', fromPantry: false }],
+      pantryIngredientsUsed: [],
+      missingIngredients: ['Cheddar Cheese', 'Chedar', 'Bread'],
+      steps: [],
+      estimatedCookingTimeMinutes: 10,
+      servings: 2,
+      equipment: [],
+    };
+    expect(shoppingEntriesForRecipe(recipe).map((entry) => entry.canonicalName)).toEqual([
+      'bread',
+      'cheddar',
+      'chedar',
+    ]);
+  });
+});
+
+describe('checkOffPurchased', () => {
+  it('checks off more general items for confident matches only', () => {
+    const { items, checked } = checkOffPurchased(
+      listOf(['butter', 'cheese', 'apple butter']),
+      [appleButter, { displayName: 'Cheddar', canonicalName: 'cheddar' }],
+      now,
+    );
+    expect(checked).toBe(2);
+    expect(checkedNames(items)).toEqual(['cheese', 'apple butter']);
+  });
+
+  it('trusts a stored canonical name that a household alias gave', () => {
+    const purchase = { displayName: 'Crunchy PB', canonicalName: 'peanut butter' };
+    const alias: IngredientAlias = {
+      id: 'alias-1',
+      rawName: 'CRNCHY PB',
+      ...purchase,
+      createdAt: now,
+      updatedAt: now,
+    };
+    expect(checkOffPurchased(listOf(['peanut butter']), [purchase], now).checked).toBe(0);
+    expect(checkOffPurchased(listOf(['peanut butter']), [purchase], now, [alias]).checked).toBe(1);
+  });
+});
+
+describe('shoppingEntriesForLowStock', () => {
+  it('suggests a low item by its display name when its stored match is a guess', () => {
+    const item = {
+      ...createInventoryItem({ name: 'Apple Butter', quantity: 50, unit: 'g', source: 'manual' }),
+      ...appleButter,
+    };
+    const eaten: LedgerEntry = {
+      id: 'entry-1',
+      itemId: item.id,
+      ...appleButter,
+      outcome: 'consumed',
+      quantity: 400,
+      unit: 'g',
+      source: 'manual',
+      purchaseDate: '2026-02-20',
+      recordedAt: '2026-03-01T12:00:00.000Z',
+    };
+    expect(shoppingEntriesForLowStock([item], [eaten], new Date(now))).toEqual([
+      { canonicalName: 'apple butter', source: 'Low stock' },
+    ]);
+  });
+});
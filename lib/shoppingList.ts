@@ -0,0 +1,294 @@
+import {
+  catalogKey,
+  ingredientCategory,
+  ingredientSatisfies,
+  INGREDIENT_CATEGORIES,
+} from '@/lib/ingredientCatalog';
+import type { IngredientCategory } from '@/lib/ingredientCatalog';
+import { CATALOG_MATCH_CONFIDENCE, canonicalizeIngredient } from '@/lib/shelfLife';
+import { convertQuantity, formatQuantity, isUnit } from '@/lib/units';
+import type { UnitSystem } from '@/lib/units';
+import type {
+  IngredientAlias,
+  InventoryItem,
+  LedgerEntry,
+  MealPlan,
+  RecipeSuggestion,
+  ShoppingListAmount,
+  ShoppingListItem,
+  Unit,
+} from '@/lib/types';
+
+// A request to buy something. Entries without an amount only put the name on the list.
+export type ShoppingListEntry = {
+  canonicalName: string;
+  quantity?: number;
+  unit?: Unit;
+  source?: string;
+};
+
+// What an imported grocery line is known by. The stored canonical name alone is not trusted: a
+// fuzzy match, or a pantry cached before matching improved, may have stored "Apple Butter" as
+// butter.
+export type PurchasedItem = Pick<InventoryItem, 'canonicalName' | 'displayName'>;
+
+export type ShoppingListGroup = {
+  category: IngredientCategory;
+  items: ShoppingListItem[];
+};
+
+export function isShoppingListEntry(value: unknown): value is ShoppingListEntry {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  const hasAmount = candidate.quantity !== undefined || candidate.unit !== undefined;
+  return (
+    typeof candidate.canonicalName === 'string' &&
+    candidate.canonicalName.trim().length > 0 &&
+    (!hasAmount ||
+      (typeof candidate.quantity === 'number' && candidate.quantity > 0 && isUnit(candidate.unit))) &&
+    (candidate.source === undefined || typeof candidate.source === 'string')
+  );
+}
+
+export function isShoppingListItem(value: unknown): value is ShoppingListItem {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.canonicalName === 'string' &&
+    typeof candidate.category === 'string' &&
+    Array.isArray(candidate.amounts) &&
+    Array.isArray(candidate.sources) &&
+    typeof candidate.checked === 'boolean'
+  );
+}
+
+// The catalog name for `name`, or null when the best match is only a guess.
+function confidentCanonicalName(name: string, aliases: IngredientAlias[]): string | null {
+  const { canonicalName, confidence } = canonicalizeIngredient(name, aliases);
+  return confidence >= CATALOG_MATCH_CONFIDENCE ? canonicalName : null;
+}
+
+// The name an item goes on the list as, and whether it is a catalog name. The stored canonical
+// name is used when a household alias gave the item that name and ingredient, otherwise only a
+// confident match of the display name is; failing both, the display name is kept as written.
+function listName(
+  item: PurchasedItem,
+  aliases: IngredientAlias[],
+): { name: string; confident: boolean } {
+  const aliased = aliases.some(
+    (alias) => alias.displayName === item.displayName && alias.canonicalName === item.canonicalName,
+  );
+  const name = aliased ? item.canonicalName : confidentCanonicalName(item.displayName, aliases);
+  return name
+    ? { name, confident: true }
+    : { name: item.displayName.trim().toLowerCase(), confident: false };
+}
+
+// Catalog names cover more specific ones (cheddar covers "cheese"); other names must be the same.
+function coversName(item: PurchasedItem, needed: string, aliases: IngredientAlias[]): boolean {
+  const { name, confident } = listName(item, aliases);
+  return confident ? ingredientSatisfies(name, needed) : catalogKey(name) === catalogKey(needed);
+}
+
+// Everything a recipe needs that is not coming from the pantry: the structured ingredients with
+// their amounts, plus any missing names the model listed without one, as written unless they match
+// the catalog confidently.
+export function shoppingEntriesForRecipe(recipe: RecipeSuggestion): ShoppingListEntry[] {
+  const entries: ShoppingListEntry[] = recipe.ingredients
+    .filter((ingredient) => !ingredient.fromPantry)
+    .map((ingredient) => ({
+      canonicalName: ingredient.canonicalName,
+      quantity: ingredient.quantity,
+      unit: ingredient.unit,
+      source: recipe.title,
+    }));
+  for (const name of recipe.missingIngredients) {
+    const canonicalName = confidentCanonicalName(name, []) ?? name.trim().toLowerCase();
+    if (!canonicalName) continue;
+    if (entries.some((entry) => catalogKey(entry.canonicalName) === catalogKey(canonicalName))) {
+      continue;
+    }
+    entries.push({ canonicalName, source: recipe.title });
+  }
+  return entries;
+}
+
+export function shoppingEntriesForMealPlan(plan: MealPlan): ShoppingListEntry[] {
+  return plan.days.flatMap((day) => (day.recipe ? shoppingEntriesForRecipe(day.recipe) : []));
+}
+
+export const LOW_STOCK_SOURCE = 'Low stock';
+// An item is running low once no more than this share of what was bought is left.
+const LOW_STOCK_SHARE = 0.25;
+// Items used up longer ago than this are not suggested again.
+const USED_UP_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pantry items the household eats and is running low on, plus ones it ate up recently and has not
+// bought again. Food that was only thrown out is not suggested.
+export function shoppingEntriesForLowStock(
+  pantry: InventoryItem[],
+  ledger: LedgerEntry[],
+  now: Date,
+  aliases: IngredientAlias[] = [],
+): ShoppingListEntry[] {
+  const eaten = ledger.filter((entry) => entry.outcome === 'consumed');
+  const names: string[] = [];
+
+  for (const item of pantry) {
+    if (!eaten.some((entry) => entry.itemId === item.id)) continue;
+    const removed = ledger
+      .filter((entry) => entry.itemId === item.id)
+      .reduce(
+        (total, entry) => total + (convertQuantity(entry.quantity, entry.unit, item.unit) ?? 0),
+        0,
+      );
+    if (item.quantity <= LOW_STOCK_SHARE * (item.quantity + removed)) {
+      names.push(listName(item, aliases).name);
+    }
+  }
+
+  const since = now.getTime() - USED_UP_WINDOW_DAYS * DAY_MS;
+  for (const entry of eaten) {
+    if (Date.parse(entry.recordedAt) < since) continue;
+    if (pantry.some((item) => item.id === entry.itemId)) continue;
+    const { name } = listName(entry, aliases);
+    if (pantry.some((item) => coversName(item, name, aliases))) continue;
+    names.push(name);
+  }
+
+  const seen = new Set<string>();
+  return names.flatMap((canonicalName) => {
+    const key = catalogKey(canonicalName);
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ canonicalName, source: LOW_STOCK_SOURCE }];
+  });
+}
+
+function roundQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+function addAmount(amounts: ShoppingListAmount[], quantity: number, unit: Unit): ShoppingListAmount[] {
+  const index = amounts.findIndex((amount) => convertQuantity(quantity, unit, amount.unit) !== null);
+  if (index === -1) return [...amounts, { quantity: roundQuantity(quantity), unit }];
+  return amounts.map((amount, position) =>
+    position === index
+      ? {
+          ...amount,
+          quantity: roundQuantity(
+            amount.quantity + (convertQuantity(quantity, unit, amount.unit) ?? 0),
+          ),
+        }
+      : amount,
+  );
+}
+
+// Adds entries to the list, merging them into the item for the same ingredient. An item that was
+// already checked off is needed again, so it starts over unchecked with just the new amounts.
+export function mergeShoppingEntries(
+  items: ShoppingListItem[],
+  entries: ShoppingListEntry[],
+  now: string,
+): ShoppingListItem[] {
+  const next = [...items];
+  for (const entry of entries) {
+    const canonicalName = entry.canonicalName.trim().toLowerCase();
+    const index = next.findIndex((item) => catalogKey(item.canonicalName) === catalogKey(canonicalName));
+    const existing: ShoppingListItem =
+      index === -1 || next[index].checked
+        ? {
+            id: index === -1 ? crypto.randomUUID() : next[index].id,
+            canonicalName,
+            category: ingredientCategory(canonicalName),
+            amounts: [],
+            sources: [],
+            checked: false,
+            createdAt: index === -1 ? now : next[index].createdAt,
+            updatedAt: now,
+          }
+        : next[index];
+    const item: ShoppingListItem = {
+      ...existing,
+      amounts:
+        entry.quantity !== undefined && entry.unit
+          ? addAmount(existing.amounts, entry.quantity, entry.unit)
+          : existing.amounts,
+      sources:
+        entry.source && !existing.sources.includes(entry.source)
+          ? [...existing.sources, entry.source]
+          : existing.sources,
+      updatedAt: now,
+    };
+    if (index === -1) next.push(item);
+    else next[index] = item;
+  }
+  return next;
+}
+
+// Checks off unchecked items that a purchase covers; buying cheddar covers "cheese" on the list.
+export function checkOffPurchased(
+  items: ShoppingListItem[],
+  purchased: PurchasedItem[],
+  now: string,
+  aliases: IngredientAlias[] = [],
+): { items: ShoppingListItem[]; checked: number } {
+  let checked = 0;
+  const next = items.map((item) => {
+    if (item.checked) return item;
+    if (!purchased.some((purchase) => coversName(purchase, item.canonicalName, aliases))) return item;
+    checked += 1;
+    return { ...item, checked: true, checkedAt: now, updatedAt: now };
+  });
+  return { items: next, checked };
+}
+
+export function groupShoppingList(items: ShoppingListItem[]): ShoppingListGroup[] {
+  return INGREDIENT_CATEGORIES.map((category) => ({
+    category,
+    items: items
+      .filter((item) => item.category === category)
+      .sort((a, b) => a.canonicalName.localeCompare(b.canonicalName)),
+  })).filter((group) => group.items.length > 0);
+}
+
+function describeAmounts(item: ShoppingListItem, unitSystem?: UnitSystem): string {
+  return item.amounts.map((amount) => formatQuantity(amount.quantity, amount.unit, unitSystem)).join(' + ');
+}
+
+function describeItem(item: ShoppingListItem, unitSystem?: UnitSystem): string {
+  const amounts = describeAmounts(item, unitSystem);
+  return amounts ? `${item.canonicalName} (${amounts})` : item.canonicalName;
+}
+
+function categoryHeading(category: IngredientCategory): string {
+  return category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+// Plain text for pasting into a message: unchecked items only, grouped by category.
+export function formatShoppingListText(items: ShoppingListItem[], unitSystem?: UnitSystem): string {
+  return groupShoppingList(items.filter((item) => !item.checked))
+    .map(
+      (group) =>
+        `${categoryHeading(group.category)}\n${group.items
+          .map((item) => `- ${describeItem(item, unitSystem)}`)
+          .join('\n')}`,
+    )
+    .join('\n\n');
+}
+
+// Markdown task lists, so checked items keep their state in apps that render them.
+export function formatShoppingListMarkdown(
+  items: ShoppingListItem[],
+  unitSystem?: UnitSystem,
+): string {
+  const groups = groupShoppingList(items).map(
+    (group) =>
+      `## ${categoryHeading(group.category)}\n\n${group.items
+        .map((item) => `- [${item.checked ? 'x' : ' '}] ${describeItem(item, unitSystem)}`)
+        .join('\n')}`,
+  );
+  return ['# Shopping list', ...groups].join('\n\n');
+}
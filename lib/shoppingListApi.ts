@@ -0,0 +1,101 @@
+import type { ShoppingListEntry } from '@/lib/shoppingList';
+import type { ShoppingListItem } from '@/lib/types';
+
+type ShoppingListPayload = {
+  items?: ShoppingListItem[];
+  item?: ShoppingListItem;
+  deleted?: boolean;
+  added?: number;
+  error?: string;
+};
+
+async function requestShoppingList(
+  endpoint: string,
+  init: RequestInit,
+  fallbackError: string,
+): Promise<ShoppingListPayload> {
+  console.info('[client] request', {
+    endpoint,
+    method: init.method ?? 'GET',
+  });
+  const response = await fetch(endpoint, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  console.info('[client] response', {
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+  });
+
+  const payload = (await response.json()) as ShoppingListPayload;
+  if (!response.ok) {
+    throw new Error(payload.error ?? fallbackError);
+  }
+  return payload;
+}
+
+export async function fetchShoppingList(): Promise<ShoppingListItem[]> {
+  const payload = await requestShoppingList(
+    '/api/shopping-list',
+    { cache: 'no-store' },
+    'Could not load the shopping list.',
+  );
+  return payload.items ?? [];
+}
+
+// Returns the whole list after the entries were merged in.
+export async function addToShoppingList(entries: ShoppingListEntry[]): Promise<ShoppingListItem[]> {
+  const payload = await requestShoppingList(
+    '/api/shopping-list',
+    { method: 'POST', body: JSON.stringify({ entries }) },
+    'Could not update the shopping list.',
+  );
+  return payload.items ?? [];
+}
+
+// Returns the whole list and how many low-stock items were suggested.
+export async function addLowStockToShoppingList(): Promise<{
+  items: ShoppingListItem[];
+  added: number;
+}> {
+  const payload = await requestShoppingList(
+    '/api/shopping-list/low-stock',
+    { method: 'POST' },
+    'Could not update the shopping list.',
+  );
+  return { items: payload.items ?? [], added: payload.added ?? 0 };
+}
+
+export async function setShoppingItemChecked(
+  id: string,
+  checked: boolean,
+): Promise<ShoppingListItem> {
+  const payload = await requestShoppingList(
+    `/api/shopping-list/${encodeURIComponent(id)}`,
+    { method: 'PATCH', body: JSON.stringify({ checked }) },
+    'Could not update shopping list item.',
+  );
+  if (!payload.item) {
+    throw new Error('Could not update shopping list item.');
+  }
+  return payload.item;
+}
+
+export async function deleteShoppingItem(id: string): Promise<void> {
+  await requestShoppingList(
+    `/api/shopping-list/${encodeURIComponent(id)}`,
+    { method: 'DELETE' },
+    'Could not delete shopping list item.',
+  );
+}
+
+// Returns the items still on the list.
+export async function clearCheckedShoppingItems(): Promise<ShoppingListItem[]> {
+  const payload = await requestShoppingList(
+    '/api/shopping-list',
+    { method: 'DELETE' },
+    'Could not update the shopping list.',
+  );
+  return payload.items ?? [];
+}
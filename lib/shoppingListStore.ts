@@ -0,0 +1,92 @@
+import { listAliases } from '@/lib/aliasStore';
+import { readJsonFile, updateJsonFile } from '@/lib/fileStore';
+import { listLedgerEntries } from '@/lib/ledgerStore';
+import { listPantryItems } from '@/lib/pantryStore';
+import {
+  checkOffPurchased,
+  isShoppingListItem,
+  mergeShoppingEntries,
+  shoppingEntriesForLowStock,
+} from '@/lib/shoppingList';
+import type { PurchasedItem, ShoppingListEntry } from '@/lib/shoppingList';
+import type { ShoppingListItem } from '@/lib/types';
+
+const SHOPPING_LIST_FILE = 'shopping-list';
+
+function sanitize(stored: unknown): ShoppingListItem[] {
+  return Array.isArray(stored) ? stored.filter(isShoppingListItem) : [];
+}
+
+export async function listShoppingItems(): Promise<ShoppingListItem[]> {
+  return sanitize(await readJsonFile<unknown>(SHOPPING_LIST_FILE, []));
+}
+
+export function addShoppingEntries(entries: ShoppingListEntry[]): Promise<ShoppingListItem[]> {
+  return updateJsonFile<unknown, ShoppingListItem[]>(SHOPPING_LIST_FILE, [], (stored) => {
+    const items = mergeShoppingEntries(sanitize(stored), entries, new Date().toISOString());
+    return { next: items, result: items };
+  });
+}
+
+// Adds what the pantry is running low on, judged from the ledger. `added` counts the suggestions.
+export async function addLowStockItems(): Promise<{ items: ShoppingListItem[]; added: number }> {
+  const [pantry, ledger, aliases] = await Promise.all([
+    listPantryItems(),
+    listLedgerEntries(),
+    listAliases(),
+  ]);
+  const entries = shoppingEntriesForLowStock(pantry, ledger, new Date(), aliases);
+  const items = entries.length > 0 ? await addShoppingEntries(entries) : await listShoppingItems();
+  return { items, added: entries.length };
+}
+
+export function setShoppingItemChecked(
+  id: string,
+  checked: boolean,
+): Promise<ShoppingListItem | null> {
+  return updateJsonFile<unknown, ShoppingListItem | null>(SHOPPING_LIST_FILE, [], (stored) => {
+    const items = sanitize(stored);
+    const index = items.findIndex((item) => item.id === id);
+    if (index === -1) return { next: items, result: null };
+
+    const now = new Date().toISOString();
+    const item: ShoppingListItem = {
+      ...items[index],
+      checked,
+      checkedAt: checked ? now : undefined,
+      updatedAt: now,
+    };
+    items[index] = item;
+    return { next: items, result: item };
+  });
+}
+
+export function deleteShoppingItem(id: string): Promise<boolean> {
+  return updateJsonFile<unknown, boolean>(SHOPPING_LIST_FILE, [], (stored) => {
+    const items = sanitize(stored);
+    const remaining = items.filter((item) => item.id !== id);
+    return { next: remaining, result: remaining.length !== items.length };
+  });
+}
+
+// Returns the items left after clearing.
+export function clearCheckedShoppingItems(): Promise<ShoppingListItem[]> {
+  return updateJsonFile<unknown, ShoppingListItem[]>(SHOPPING_LIST_FILE, [], (stored) => {
+    const remaining = sanitize(stored).filter((item) => !item.checked);
+    return { next: remaining, result: remaining };
+  });
+}
+
+// Called when groceries are imported, with the names of what was bought.
+export async function checkOffPurchasedItems(purchased: PurchasedItem[]): Promise<number> {
+  const aliases = await listAliases();
+  return updateJsonFile<unknown, number>(SHOPPING_LIST_FILE, [], (stored) => {
+    const { items, checked } = checkOffPurchased(
+      sanitize(stored),
+      purchased,
+      new Date().toISOString(),
+      aliases,
+    );
+    return { next: items, result: checked };
+  });
+}
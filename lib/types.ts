@@ -1,27 +1,169 @@
+import type { IngredientCategory } from '@/lib/ingredientCatalog';
+import type { LlmProviderName } from '@/lib/llm';
+
 export type ItemSource = 'manual' | 'receipt';
 
+export type StorageLocation = 'fridge' | 'freezer' | 'pantry';
+
+export type Unit =
+  | 'g'
+  | 'kg'
+  | 'oz'
+  | 'lb'
+  | 'ml'
+  | 'l'
+  | 'tsp'
+  | 'tbsp'
+  | 'fl oz'
+  | 'cup'
+  | 'pt'
+  | 'qt'
+  | 'gal'
+  | 'item'
+  | 'dozen'
+  | 'pack';
+
+// One purchase of an ingredient. Quantities are in the owning item's unit.
+export type InventoryLot = {
+  id: string;
+  quantity: number;
+  purchaseDate: string;
+  computedExpirationDate: string;
+  overrideExpirationDate?: string;
+  openedAt?: string;
+  unitPrice?: number;
+  lineTotal?: number;
+  currency?: string;
+  source: ItemSource;
+  createdAt: string;
+};
+
+// Item-level quantity, dates, prices and source summarize `lots`: total quantity, oldest purchase,
+// soonest expiration.
 export type InventoryItem = {
   id: string;
   canonicalName: string;
   displayName: string;
   quantity: number;
-  unit: string;
+  unit: Unit;
+  storageLocation: StorageLocation;
   purchaseDate: string;
   computedExpirationDate: string;
   overrideExpirationDate?: string;
+  openedAt?: string;
+  unitPrice?: number;
+  lineTotal?: number;
+  currency?: string;
+  source: ItemSource;
+  lots: InventoryLot[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type InventoryItemPatch = {
+  [K in Exclude<keyof InventoryItem, 'id' | 'createdAt'>]?: InventoryItem[K] | null;
+};
+
+export type RemovalOutcome = 'consumed' | 'wasted' | 'donated' | 'frozen';
+
+export type LedgerEntry = {
+  id: string;
+  itemId: string;
+  canonicalName: string;
+  displayName: string;
+  outcome: RemovalOutcome;
+  quantity: number;
+  unit: Unit;
   source: ItemSource;
+  purchaseDate: string;
+  cost?: number;
+  currency?: string;
+  // Set when the removal came from cooking a recipe.
+  recipeTitle?: string;
+  recordedAt: string;
+};
+
+// How much of one pantry item a cooked recipe used.
+export type CookedIngredient = {
+  itemId: string;
+  quantity: number;
+};
+
+export type IngredientCandidate = {
+  canonicalName: string;
+  confidence: number;
+};
+
+// A household rule learned from a correction on the scan page.
+export type IngredientAlias = {
+  id: string;
+  // Receipt text the rule matches, compared ignoring case, spacing and punctuation.
+  rawName: string;
+  canonicalName: string;
+  displayName: string;
   createdAt: string;
   updatedAt: string;
 };
 
+// Maps one chain's receipt abbreviations to plain words. An empty expansion drops the token,
+// which is how store-brand prefixes such as "GV" are removed.
+export type ReceiptDictionary = {
+  id: string;
+  merchant: string;
+  // Lower-case text that identifies the chain in a receipt header.
+  matchers: string[];
+  abbreviations: Record<string, string>;
+  builtIn: boolean;
+};
+
 export type ParsedReceiptItem = {
   rawLine: string;
+  // The item text as read from the receipt, before it was matched to an ingredient.
+  rawName?: string;
   canonicalName: string;
   displayName: string;
   quantity: number;
-  unit: string;
+  unit: Unit;
   confidence: number;
+  // Ranked catalog matches, best first, so the user can pick another one.
+  candidates?: IngredientCandidate[];
+  purchaseDate?: string;
+  unitPrice?: number;
+  lineTotal?: number;
+  currency?: string;
+};
+
+export type ReceiptReconciliation = {
+  status: 'balanced' | 'mismatch' | 'unverifiable';
+  itemsTotal: number;
+  expectedSubtotal?: number;
+  difference?: number;
+  unpricedItemCount: number;
+};
+
+export type ParsedReceipt = {
+  merchant?: string;
   purchaseDate?: string;
+  subtotal?: number;
+  tax?: number;
+  total?: number;
+  currency?: string;
+  // The store dictionary applied to item names, if any.
+  dictionaryId?: string;
+  items: ParsedReceiptItem[];
+  reconciliation: ReceiptReconciliation;
+};
+
+// One packaged product, looked up by the barcode printed on it.
+export type Product = {
+  // Normalized to 13 digits; UPC-A codes get a leading zero.
+  barcode: string;
+  name: string;
+  canonicalName: string;
+  packageQuantity: number;
+  packageUnit: Unit;
+  // Products named by the household rather than shipped with the app.
+  learned: boolean;
 };
 
 export type RankedIngredient = {
@@ -31,10 +173,125 @@ export type RankedIngredient = {
   urgencyScore: number;
 };
 
+export type Diet =
+  | 'vegetarian'
+  | 'vegan'
+  | 'pescatarian'
+  | 'halal'
+  | 'kosher'
+  | 'gluten-free'
+  | 'dairy-free';
+
+export type Allergen =
+  | 'milk'
+  | 'egg'
+  | 'fish'
+  | 'shellfish'
+  | 'peanut'
+  | 'tree nut'
+  | 'wheat'
+  | 'soy'
+  | 'sesame';
+
+// Hard limits for every recipe suggested to the household.
+export type HouseholdProfile = {
+  diets: Diet[];
+  allergens: Allergen[];
+  // Ingredient names; a more specific ingredient counts, so disliking fish rules out salmon.
+  dislikes: string[];
+  updatedAt?: string;
+};
+
+export type Equipment =
+  | 'stovetop'
+  | 'oven'
+  | 'microwave'
+  | 'grill'
+  | 'toaster'
+  | 'blender'
+  | 'slow cooker';
+
+// Limits for one recipe request. Missing fields mean no limit.
+export type RecipeConstraints = {
+  maxMinutes?: number;
+  // What the kitchen has; recipes needing anything else are rejected.
+  equipment?: Equipment[];
+  servings?: number;
+};
+
+export type RecipeIngredient = {
+  canonicalName: string;
+  quantity: number;
+  unit: Unit;
+  // False for ingredients that have to be bought.
+  fromPantry: boolean;
+};
+
 export type RecipeSuggestion = {
   title: string;
+  ingredients: RecipeIngredient[];
   pantryIngredientsUsed: string[];
   missingIngredients: string[];
   steps: string[];
   estimatedCookingTimeMinutes: number;
+  servings: number;
+  equipment: Equipment[];
+};
+
+// Pantry stock a planned dinner is expected to use, in the item's unit.
+export type PlannedIngredientUse = {
+  itemId: string;
+  canonicalName: string;
+  displayName: string;
+  quantity: number;
+  unit: Unit;
+};
+
+export type MealPlanDay = {
+  // YYYY-MM-DD.
+  date: string;
+  // Null when no recipe fits the pantry for that day.
+  recipe: RecipeSuggestion | null;
+  uses: PlannedIngredientUse[];
+  // Locked days keep their recipe when the plan is rebuilt.
+  locked: boolean;
+};
+
+// Stock expected to expire before the plan ends without any dinner using it.
+export type ProjectedWaste = {
+  itemId: string;
+  canonicalName: string;
+  displayName: string;
+  quantity: number;
+  unit: Unit;
+  expiresOn: string;
+};
+
+export type MealPlan = {
+  startDate: string;
+  days: MealPlanDay[];
+  projectedWaste: ProjectedWaste[];
+  source: LlmProviderName | 'fallback';
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ShoppingListAmount = {
+  quantity: number;
+  unit: Unit;
+};
+
+// One ingredient to buy. Requests for the same ingredient are merged into it.
+export type ShoppingListItem = {
+  id: string;
+  canonicalName: string;
+  category: IngredientCategory;
+  // One total per unit that does not convert to the others; empty when only the name is known.
+  amounts: ShoppingListAmount[];
+  // Titles of the recipes it was added for.
+  sources: string[];
+  checked: boolean;
+  checkedAt?: string;
+  createdAt: string;
+  updatedAt: string;
 };
@@ -0,0 +1,214 @@
+import type { Unit } from '@/lib/types';
+
+export type UnitDimension = 'mass' | 'volume' | 'count' | 'pack';
+
+export type UnitSystem = 'metric' | 'us';
+
+type UnitDefinition = {
+  dimension: UnitDimension;
+  // Size of one unit in the dimension's base unit: grams, millilitres or items.
+  toBase: number;
+  system: UnitSystem | null;
+};
+
+const UNIT_DEFINITIONS: Record<Unit, UnitDefinition> = {
+  g: { dimension: 'mass', toBase: 1, system: 'metric' },
+  kg: { dimension: 'mass', toBase: 1000, system: 'metric' },
+  oz: { dimension: 'mass', toBase: 28.349523125, system: 'us' },
+  lb: { dimension: 'mass', toBase: 453.59237, system: 'us' },
+  ml: { dimension: 'volume', toBase: 1, system: 'metric' },
+  l: { dimension: 'volume', toBase: 1000, system: 'metric' },
+  tsp: { dimension: 'volume', toBase: 4.92892159375, system: 'us' },
+  tbsp: { dimension: 'volume', toBase: 14.78676478125, system: 'us' },
+  'fl oz': { dimension: 'volume', toBase: 29.5735295625, system: 'us' },
+  cup: { dimension: 'volume', toBase: 236.5882365, system: 'us' },
+  pt: { dimension: 'volume', toBase: 473.176473, system: 'us' },
+  qt: { dimension: 'volume', toBase: 946.352946, system: 'us' },
+  gal: { dimension: 'volume', toBase: 3785.411784, system: 'us' },
+  item: { dimension: 'count', toBase: 1, system: null },
+  dozen: { dimension: 'count', toBase: 12, system: null },
+  pack: { dimension: 'pack', toBase: 1, system: null },
+};
+
+export const UNITS = Object.keys(UNIT_DEFINITIONS) as Unit[];
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['us', 'metric'];
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'us';
+
+// The unit each dimension's quantities are totalled in.
+export const BASE_UNITS: Record<UnitDimension, Unit> = {
+  mass: 'g',
+  volume: 'ml',
+  count: 'item',
+  pack: 'pack',
+};
+
+const UNIT_ALIASES: Record<string, Unit> = {
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  grm: 'g',
+  kgs: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  ltr: 'l',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  floz: 'fl oz',
+  cups: 'cup',
+  pint: 'pt',
+  pints: 'pt',
+  quart: 'qt',
+  quarts: 'qt',
+  gallon: 'gal',
+  gallons: 'gal',
+  ea: 'item',
+  each: 'item',
+  ct: 'item',
+  count: 'item',
+  pc: 'item',
+  pcs: 'item',
+  piece: 'item',
+  pieces: 'item',
+  items: 'item',
+  dz: 'dozen',
+  doz: 'dozen',
+  pk: 'pack',
+  pkg: 'pack',
+  packs: 'pack',
+  package: 'pack',
+};
+
+export function isUnit(value: unknown): value is Unit {
+  return typeof value === 'string' && UNITS.includes(value as Unit);
+}
+
+export function parseUnit(value: string): Unit | null {
+  const normalized = value
+    .trim()
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/\s+/g, ' ');
+  if (isUnit(normalized)) return normalized;
+  return UNIT_ALIASES[normalized] ?? UNIT_ALIASES[normalized.replace(/\s/g, '')] ?? null;
+}
+
+export function unitDimension(unit: Unit): UnitDimension {
+  return UNIT_DEFINITIONS[unit].dimension;
+}
+
+export function areUnitsCompatible(from: Unit, to: Unit): boolean {
+  return UNIT_DEFINITIONS[from].dimension === UNIT_DEFINITIONS[to].dimension;
+}
+
+function roundQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+// Returns null when the units measure different things, such as grams and items.
+export function convertQuantity(quantity: number, from: Unit, to: Unit): number | null {
+  if (!areUnitsCompatible(from, to)) return null;
+  if (from === to) return quantity;
+  return roundQuantity((quantity * UNIT_DEFINITIONS[from].toBase) / UNIT_DEFINITIONS[to].toBase);
+}
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const QUANTITY_EXPRESSION_PATTERN = new RegExp(
+  String.raw`(?:(\d+)\s*[x×]\s*)?(${NUMBER})\s*(fl\.?\s*oz|[a-z]+)\b`,
+  'gi',
+);
+const MULTIPLIER_PATTERN = /\b(\d+)\s*[x×](?=\s|$)/i;
+
+function toNumber(value: string): number {
+  return Number(value.replace(',', '.'));
+}
+
+export type QuantityExpression = {
+  quantity: number;
+  unit: Unit;
+  // The matched text, so callers can strip it from the surrounding line.
+  text: string;
+};
+
+// Finds the first "<amount><unit>" in free text, e.g. "1.25 lb", "500g" or "2 x 330ml" (660 ml).
+// A bare multiplier such as "3 x" counts items.
+export function findQuantityExpression(text: string): QuantityExpression | null {
+  for (const match of text.matchAll(QUANTITY_EXPRESSION_PATTERN)) {
+    const unit = parseUnit(match[3]);
+    if (!unit) continue;
+
+    const amount = toNumber(match[2]);
+    const packCount = match[1] ? Number(match[1]) : 1;
+    if (!Number.isFinite(amount) || amount <= 0 || packCount <= 0) continue;
+    return { quantity: roundQuantity(amount * packCount), unit, text: match[0] };
+  }
+
+  const multiplier = text.match(MULTIPLIER_PATTERN);
+  if (multiplier && Number(multiplier[1]) > 0) {
+    return { quantity: Number(multiplier[1]), unit: 'item', text: multiplier[0] };
+  }
+  return null;
+}
+
+// Parses a whole quantity expression. Returns null when the text holds anything else.
+export function parseQuantityExpression(text: string): { quantity: number; unit: Unit } | null {
+  const expression = findQuantityExpression(text);
+  if (!expression || expression.text.trim().length !== text.trim().length) return null;
+  return { quantity: expression.quantity, unit: expression.unit };
+}
+
+function pickDisplayUnit(baseQuantity: number, dimension: UnitDimension, system: UnitSystem): Unit {
+  if (dimension === 'mass') {
+    if (system === 'metric') return baseQuantity < 1000 ? 'g' : 'kg';
+    return baseQuantity < UNIT_DEFINITIONS.lb.toBase ? 'oz' : 'lb';
+  }
+  if (system === 'metric') return baseQuantity < 1000 ? 'ml' : 'l';
+  if (baseQuantity < UNIT_DEFINITIONS.qt.toBase) return 'fl oz';
+  return baseQuantity < UNIT_DEFINITIONS.gal.toBase ? 'qt' : 'gal';
+}
+
+// Expresses a mass or volume in the preferred system with a readable magnitude. Counts, packs and
+// spoon or cup measures already in the preferred system are left as they are.
+export function normalizeQuantity(
+  quantity: number,
+  unit: Unit,
+  system: UnitSystem,
+): { quantity: number; unit: Unit } {
+  const definition = UNIT_DEFINITIONS[unit];
+  if (definition.dimension === 'count' || definition.dimension === 'pack') {
+    return { quantity, unit };
+  }
+  if (definition.system === system && ['tsp', 'tbsp', 'cup'].includes(unit)) {
+    return { quantity, unit };
+  }
+
+  const displayUnit = pickDisplayUnit(quantity * definition.toBase, definition.dimension, system);
+  return { quantity: convertQuantity(quantity, unit, displayUnit) ?? quantity, unit: displayUnit };
+}
+
+export function formatQuantity(quantity: number, unit: Unit, system?: UnitSystem): string {
+  const display = system ? normalizeQuantity(quantity, unit, system) : { quantity, unit };
+  return `${Number(display.quantity.toFixed(2))} ${display.unit}`;
+}
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return typeof value === 'string' && UNIT_SYSTEMS.includes(value as UnitSystem);
+}